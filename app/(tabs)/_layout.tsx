@@ -1,13 +1,17 @@
 import { Tabs } from 'expo-router';
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 
 import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { getOfflineQueueState, subscribeToOfflineQueue } from '@/utils/offlineQueue';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const [pendingCount, setPendingCount] = useState(getOfflineQueueState().captures.length);
+
+  useEffect(() => subscribeToOfflineQueue(state => setPendingCount(state.captures.length)), []);
 
   return (
     <Tabs
@@ -20,6 +24,7 @@ export default function TabLayout() {
         name="index"
         options={{
           title: 'Home',
+          tabBarBadge: pendingCount > 0 ? pendingCount : undefined,
           tabBarIcon: ({ color }) => <IconSymbol size={28} name="house.fill" color={color} />,
         }}
       />
@@ -1,11 +1,20 @@
+import { PageTray } from '@/components/page-tray';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
-import { extractTextFromImageWithMode } from '@/utils/ocr';
+import { startBatchImport } from '@/utils/batchImport';
+import { createPageId, getSavedCapturedPages, movePage, saveCapturedPages, type CapturedPage } from '@/utils/capturedPages';
+import { preprocessReceiptImage } from '@/utils/imagePreprocessing';
+import { checkImageQuality } from '@/utils/imageQuality';
+import { extractTextFromImageWithMode, getReceiptExtractor } from '@/utils/ocr';
+import { enqueueOfflineCapture } from '@/utils/offlineQueue';
+import { isNetworkError, isRequestCancelled } from '@/utils/request';
 import { getCurrentOrderNumber, getNextOrderNumber } from '@/utils/orderNumber';
-import { getCameraZoom, getImageOptimization, getImageOptimizationQuality, getImageOptimizationResizeWidth, getMultiPageCapture, getOCRMode, setCameraZoom, setMultiPageCapture } from '@/utils/settings';
+import { startStreamingExtraction } from '@/utils/streamingExtraction';
+import { getCameraZoom, getImageOptimization, getImageQualityConfig, getImageOptimizationQuality, getImageOptimizationResizeWidth, getImagePreprocessingConfig, getMultiPageCapture, getOCRMode, getStreamingExtraction, setCameraZoom, setMultiPageCapture } from '@/utils/settings';
 import { CameraType, CameraView, useCameraPermissions } from 'expo-camera';
 import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system';
 import * as ImagePicker from 'expo-image-picker';
 import { router } from 'expo-router';
 import { useEffect, useRef, useState } from 'react';
@@ -21,6 +30,24 @@ try {
 
 const { width, height } = Dimensions.get('window');
 
+/**
+ * Ask whether to retake a photo that failed the quality check
+ * Resolves true to use the photo anyway
+ */
+function confirmLowQualityImage(issues: string[]): Promise<boolean> {
+  return new Promise(resolve => {
+    Alert.alert(
+      'Retake photo?',
+      `${issues.join('\n\n')}\n\nA poor photo usually gives wrong items and still costs an AI request.`,
+      [
+        { text: 'Use Anyway', style: 'destructive', onPress: () => resolve(true) },
+        { text: 'Retake', style: 'cancel', onPress: () => resolve(false) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
+
 export default function CaptureScreen() {
   const [facing, setFacing] = useState<CameraType>('back');
   const [permission, requestPermission] = useCameraPermissions();
@@ -29,29 +56,46 @@ export default function CaptureScreen() {
   const [currentOrderNumber, setCurrentOrderNumber] = useState<number | null>(null);
   const [zoom, setZoom] = useState(0.75); // Default to 0.75 (normalized 0-1 value)
   const [multiPageMode, setMultiPageMode] = useState(false);
-  const [capturedImages, setCapturedImages] = useState<Array<{ base64: string; uri?: string }>>([]);
+  const [capturedImages, setCapturedImages] = useState<CapturedPage[]>([]);
+  const [retakePageId, setRetakePageId] = useState<string | null>(null);
+  const [pagesRestored, setPagesRestored] = useState(false);
   const [isPaid, setIsPaid] = useState(false); // Default to unpaid
   const cameraRef = useRef<CameraView>(null);
+  const extractionAbortRef = useRef<AbortController | null>(null);
 
   // Load current order number, camera zoom, and multi-page mode on mount
   useEffect(() => {
     const loadSettings = async () => {
       try {
-        const [orderNum, savedZoom, multiPage] = await Promise.all([
+        const [orderNum, savedZoom, multiPage, savedPages] = await Promise.all([
           getCurrentOrderNumber(),
           getCameraZoom(),
           getMultiPageCapture(),
+          getSavedCapturedPages(),
         ]);
         setCurrentOrderNumber(orderNum);
         setZoom(savedZoom);
         setMultiPageMode(multiPage);
+        // Pick up pages left in the tray by an earlier visit
+        if (multiPage && savedPages.length > 0) {
+          setCapturedImages(savedPages);
+        }
       } catch (error) {
         console.error('Error loading settings:', error);
+      } finally {
+        setPagesRestored(true);
       }
     };
     loadSettings();
   }, []);
 
+  // Persist the tray so an accidental navigation doesn't lose captured pages
+  useEffect(() => {
+    if (pagesRestored) {
+      saveCapturedPages(capturedImages);
+    }
+  }, [capturedImages, pagesRestored]);
+
   if (!permission) {
     return <View />;
   }
@@ -165,17 +209,26 @@ export default function CaptureScreen() {
     const quality = optimizeImage ? (await getImageOptimizationQuality()) / 100 : 1;
     const resizeWidth = optimizeImage ? await getImageOptimizationResizeWidth() : 1024;
 
+    // Several photos can be picked at once; base64 is loaded per photo below to keep memory down
     const result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ['images'],
-      allowsEditing: true,
-      aspect: [3, 4], // Portrait aspect ratio suitable for receipts (width:height)
+      allowsMultipleSelection: true,
+      orderedSelection: true,
       quality: quality, // Use configured quality if optimization is enabled
-      base64: true, // Request base64 directly to avoid file reading issues
     });
 
-    if (!result.canceled && result.assets[0]) {
-      const asset = result.assets[0];
-      
+    if (result.canceled || result.assets.length === 0) {
+      return;
+    }
+
+    // Outside multi-page mode, several photos are separate dockets: import each as its own order
+    if (!multiPageMode && result.assets.length > 1) {
+      startBatchImport(result.assets.map(asset => asset.uri), { isPaid });
+      router.push('/batch-import');
+      return;
+    }
+
+    for (const asset of result.assets) {
       // If optimization is enabled, try to resize the image (requires native module)
       if (optimizeImage && asset.uri && ImageManipulator) {
         try {
@@ -185,65 +238,144 @@ export default function CaptureScreen() {
             [{ resize: { width: resizeWidth } }],
             { compress: quality, format: ImageManipulator.SaveFormat.JPEG, base64: true }
           );
-          
+
           if (manipulatedImage.base64) {
-            processImageWithBase64(manipulatedImage.base64, manipulatedImage.uri);
-            return;
+            await processImageWithBase64(manipulatedImage.base64, manipulatedImage.uri);
+            continue;
           }
         } catch (manipulateError) {
           console.warn('Image manipulation not available or failed, using quality reduction only:', manipulateError);
           // Fall through to use quality-reduced image
         }
       }
-      
+
       // Use quality-reduced image (works even without native module)
-      if (asset.base64) {
-        processImageWithBase64(asset.base64, asset.uri);
+      let base64Image: string | null = null;
+      try {
+        base64Image = await new File(asset.uri).base64();
+      } catch (readError) {
+        console.warn('Could not read picked image directly, falling back to file reader:', readError);
+      }
+      if (base64Image) {
+        await processImageWithBase64(base64Image, asset.uri);
       } else {
-        processImage(asset.uri);
+        await processImage(asset.uri);
       }
     }
   };
 
 
   const processImageWithBase64 = async (base64Image: string, imageUri?: string) => {
-    // If multi-page mode is enabled, add to captured images and ask if they want to add more
+    // Show the spinner (and block another capture) while the photo is checked and preprocessed
+    setProcessing(true);
+
+    // Cancel works from here on: the local steps check it before handing over to extraction
+    const abortController = new AbortController();
+    extractionAbortRef.current = abortController;
+    const stopIfCancelled = () => {
+      if (!abortController.signal.aborted) return false;
+      console.log('Capture cancelled before extraction');
+      extractionAbortRef.current = null;
+      setImage(null);
+      setProcessing(false);
+      return true;
+    };
+
+    // Check the photo locally before spending an API request on it
+    if (imageUri) {
+      const quality = await checkImageQuality(imageUri, await getImageQualityConfig());
+      if (stopIfCancelled()) return;
+      if (!quality.passed && !(await confirmLowQualityImage(quality.issues))) {
+        extractionAbortRef.current = null;
+        setImage(null);
+        setProcessing(false);
+        return;
+      }
+
+      // Crop, deskew and enhance the photo so only the receipt paper is sent
+      const optimizeImage = await getImageOptimization();
+      const outputQuality = optimizeImage ? (await getImageOptimizationQuality()) / 100 : 0.9;
+      const preprocessed = await preprocessReceiptImage(imageUri, base64Image, await getImagePreprocessingConfig(), outputQuality);
+      if (preprocessed) {
+        base64Image = preprocessed.base64;
+        imageUri = preprocessed.uri;
+      }
+      if (stopIfCancelled()) return;
+    }
+
+    // In multi-page mode the page goes into the tray (replacing the page being retaken)
     if (multiPageMode) {
-      const newImages = [...capturedImages, { base64: base64Image, uri: imageUri }];
-      setCapturedImages(newImages);
-      setImage(imageUri || null);
-      
-      // Ask if user wants to add more images
-      Alert.alert(
-        'Image Captured',
-        `Captured ${newImages.length} image(s). Do you want to add more images to this order?`,
-        [
-          {
-            text: 'Done',
-            onPress: async () => {
-              // Process all captured images
-              await processAllImages(newImages);
-            },
-          },
-          {
-            text: 'Add More',
-            onPress: () => {
-              // Continue capturing - clear preview but keep images in state
-              setImage(null);
-            },
-          },
-        ]
-      );
+      const page: CapturedPage = { id: createPageId(), base64: base64Image, uri: imageUri };
+      setCapturedImages(current => retakePageId && current.some(p => p.id === retakePageId)
+        ? current.map(p => (p.id === retakePageId ? page : p))
+        : [...current, page]);
+      setRetakePageId(null);
+      setImage(null);
+      extractionAbortRef.current = null;
+      setProcessing(false);
       return;
     }
 
     // Single image mode - process immediately
-    await processSingleImage(base64Image, imageUri);
+    await processSingleImage(base64Image, imageUri, abortController);
   };
 
-  const processSingleImage = async (base64Image: string, imageUri?: string) => {
+  // Abort the capture in progress (photo checks or extraction); no order number is taken for a cancelled capture
+  const handleCancelProcessing = () => {
+    extractionAbortRef.current?.abort();
+  };
+
+  // No connection: keep the capture (with its order number) in the offline queue instead of opening a failed receipt
+  const queueOfflineCapture = async (images: { base64: string; uri?: string }[], isMultiPage: boolean): Promise<boolean> => {
+    try {
+      const orderNumber = await getNextOrderNumber();
+      setCurrentOrderNumber(orderNumber);
+      await enqueueOfflineCapture(images, { orderNumber, isPaid, isMultiPage });
+      setImage(null);
+      Alert.alert(
+        'Saved for Later',
+        `You're offline. Order #${orderNumber} was saved and will be extracted when the connection is back.`
+      );
+      return true;
+    } catch (queueError) {
+      console.error('Could not queue offline capture:', queueError);
+      return false;
+    }
+  };
+
+  // With streaming on, open the receipt screen right away and let it fill in as items arrive
+  const openStreamingReceipt = async (images: CapturedPage[], isMultiPage: boolean): Promise<boolean> => {
+    const ocrMode = await getOCRMode();
+    if (!(await getStreamingExtraction()) || !getReceiptExtractor(ocrMode).supportsStreaming) {
+      return false;
+    }
+
+    // The session takes the order number once extraction succeeds
+    const streamId = startStreamingExtraction(images, { mode: ocrMode, isMultiPage, isPaid, onOrderNumber: setCurrentOrderNumber });
+    const firstImageUri = images[0]?.uri || '';
+    router.push({
+      pathname: '/receipt',
+      params: {
+        imageUri: firstImageUri ? encodeURIComponent(firstImageUri) : '',
+        ...(isMultiPage ? { imageUris: encodeURIComponent(JSON.stringify(images.map(img => img.uri).filter(Boolean))) } : {}),
+        streamId,
+        isPaid: isPaid ? 'true' : 'false',
+      },
+    });
+    return true;
+  };
+
+  const processSingleImage = async (base64Image: string, imageUri?: string, abortController: AbortController = new AbortController()) => {
+    if (await openStreamingReceipt([{ id: createPageId(), base64: base64Image, uri: imageUri }], false)) {
+      extractionAbortRef.current = null;
+      setImage(null);
+      setProcessing(false);
+      return;
+    }
+
     setProcessing(true);
     setImage(imageUri || null);
+    extractionAbortRef.current = abortController;
 
     try {
       console.log('Processing single image with base64, length:', base64Image.length);
@@ -253,7 +385,7 @@ export default function CaptureScreen() {
       console.log('Using OCR mode:', ocrMode);
 
       // Extract text using the selected OCR mode
-      const extractedData = await extractTextFromImageWithMode(base64Image, ocrMode, false);
+      const extractedData = await extractTextFromImageWithMode(base64Image, ocrMode, false, { signal: abortController.signal });
 
       // Get the next order number for this receipt
       const orderNumber = await getNextOrderNumber();
@@ -262,7 +394,7 @@ export default function CaptureScreen() {
       setCurrentOrderNumber(orderNumber);
 
       // Navigate to receipt view with extracted data
-      // For generative mode, pass JSON string; for vision mode, pass text string
+      // Structured extractors return ReceiptData (passed as JSON); text-only extractors return a string
       const extractedDataString = typeof extractedData === 'string' 
         ? extractedData 
         : JSON.stringify(extractedData);
@@ -272,41 +404,45 @@ export default function CaptureScreen() {
         params: {
           imageUri: imageUri ? encodeURIComponent(imageUri) : '',
           extractedText: encodeURIComponent(extractedDataString || 'No text extracted'),
-          extractedDataType: ocrMode === 'generative' ? 'json' : 'text',
+          extractedDataType: typeof extractedData === 'string' ? 'text' : 'json',
           orderNumber: orderNumber.toString(),
           isPaid: isPaid ? 'true' : 'false',
         },
       });
     } catch (error: any) {
+      if (isRequestCancelled(error)) {
+        console.log('Extraction cancelled');
+        setImage(null);
+        return;
+      }
+      if (isNetworkError(error) && await queueOfflineCapture([{ base64: base64Image, uri: imageUri }], false)) {
+        return;
+      }
       console.error('OCR Error:', error);
       const errorMessage = error?.message || 'Failed to process image';
-      Alert.alert('Error', errorMessage);
-      
-      // Get order number even if OCR fails
-      const orderNumber = await getNextOrderNumber();
-      
-      // Update the current order number display
-      setCurrentOrderNumber(orderNumber);
-      
-      // Still navigate to receipt view even if OCR fails
-      router.push({
-        pathname: '/receipt',
-        params: { 
-          imageUri: imageUri ? encodeURIComponent(imageUri) : '',
-          extractedText: encodeURIComponent('Failed to extract text: ' + errorMessage),
-          orderNumber: orderNumber.toString(),
-          isPaid: isPaid ? 'true' : 'false',
-        },
-      });
+      // No order number is taken for a failed extraction; keep the photo so it can be tried again
+      setImage(null);
+      Alert.alert('Extraction Failed', errorMessage, [
+        { text: 'Discard', style: 'cancel' },
+        { text: 'Try Again', onPress: () => processSingleImage(base64Image, imageUri) },
+      ]);
     } finally {
+      extractionAbortRef.current = null;
       setProcessing(false);
       setCapturedImages([]); // Reset captured images
     }
   };
 
-  const processAllImages = async (images: Array<{ base64: string; uri?: string }>) => {
+  const processAllImages = async (images: CapturedPage[]) => {
+    if (await openStreamingReceipt(images, true)) {
+      setCapturedImages([]);
+      return;
+    }
+
     setProcessing(true);
     setImage(images[images.length - 1]?.uri || null);
+    const abortController = new AbortController();
+    extractionAbortRef.current = abortController;
 
     try {
       console.log('Processing multiple images, count:', images.length);
@@ -319,7 +455,7 @@ export default function CaptureScreen() {
       const base64Images = images.map(img => img.base64);
       
       // Extract text using the selected OCR mode with multiple images
-      const extractedData = await extractTextFromImageWithMode(base64Images, ocrMode, true);
+      const extractedData = await extractTextFromImageWithMode(base64Images, ocrMode, true, { signal: abortController.signal });
 
       // Get the next order number for this receipt
       const orderNumber = await getNextOrderNumber();
@@ -328,7 +464,7 @@ export default function CaptureScreen() {
       setCurrentOrderNumber(orderNumber);
 
       // Navigate to receipt view with extracted data
-      // For generative mode, pass JSON string; for vision mode, pass text string
+      // Structured extractors return ReceiptData (passed as JSON); text-only extractors return a string
       const extractedDataString = typeof extractedData === 'string' 
         ? extractedData 
         : JSON.stringify(extractedData);
@@ -336,41 +472,38 @@ export default function CaptureScreen() {
       // Use the first image URI for display
       const firstImageUri = images[0]?.uri || '';
       
+      setCapturedImages([]);
       router.push({
         pathname: '/receipt',
         params: {
           imageUri: firstImageUri ? encodeURIComponent(firstImageUri) : '',
+          // All pages, so the receipt screen can re-extract the full receipt
+          imageUris: encodeURIComponent(JSON.stringify(images.map(img => img.uri).filter(Boolean))),
           extractedText: encodeURIComponent(extractedDataString || 'No text extracted'),
-          extractedDataType: ocrMode === 'generative' ? 'json' : 'text',
+          extractedDataType: typeof extractedData === 'string' ? 'text' : 'json',
           orderNumber: orderNumber.toString(),
           isPaid: isPaid ? 'true' : 'false',
         },
       });
     } catch (error: any) {
+      if (isRequestCancelled(error)) {
+        // Keep the pages in the tray so they can be reviewed and processed again
+        console.log('Extraction cancelled');
+        setImage(null);
+        return;
+      }
+      if (isNetworkError(error) && await queueOfflineCapture(images, true)) {
+        setCapturedImages([]);
+        return;
+      }
       console.error('OCR Error:', error);
       const errorMessage = error?.message || 'Failed to process images';
-      Alert.alert('Error', errorMessage);
-      
-      // Get order number even if OCR fails
-      const orderNumber = await getNextOrderNumber();
-      
-      // Update the current order number display
-      setCurrentOrderNumber(orderNumber);
-      
-      // Still navigate to receipt view even if OCR fails
-      const firstImageUri = images[0]?.uri || '';
-      router.push({
-        pathname: '/receipt',
-        params: { 
-          imageUri: firstImageUri ? encodeURIComponent(firstImageUri) : '',
-          extractedText: encodeURIComponent('Failed to extract text: ' + errorMessage),
-          orderNumber: orderNumber.toString(),
-          isPaid: isPaid ? 'true' : 'false',
-        },
-      });
+      // No order number is taken for a failed extraction; the pages stay in the tray for another try
+      setImage(null);
+      Alert.alert('Extraction Failed', `${errorMessage}\n\nThe pages are still in the tray so you can process them again.`);
     } finally {
+      extractionAbortRef.current = null;
       setProcessing(false);
-      setCapturedImages([]); // Reset captured images
     }
   };
 
@@ -439,21 +572,9 @@ export default function CaptureScreen() {
     } catch (error: any) {
       console.error('Image processing error:', error);
       const errorMessage = error?.message || 'Failed to process image';
+      // No order number is taken when the photo could not be read
       Alert.alert('Error', errorMessage);
-      
-      // Get order number even if processing fails
-      const orderNumber = await getNextOrderNumber();
-      
-      // Still navigate to receipt view even if processing fails
-      router.push({
-        pathname: '/receipt',
-        params: { 
-          imageUri: encodeURIComponent(imageUri), 
-          extractedText: encodeURIComponent('Failed to process image: ' + errorMessage),
-          orderNumber: orderNumber.toString(),
-          isPaid: isPaid ? 'true' : 'false',
-        },
-      });
+      setImage(null);
       setProcessing(false);
     }
   };
@@ -462,12 +583,27 @@ export default function CaptureScreen() {
     setFacing(current => (current === 'back' ? 'front' : 'back'));
   };
 
+  const handleDeletePage = (id: string) => {
+    setCapturedImages(current => current.filter(page => page.id !== id));
+    if (retakePageId === id) setRetakePageId(null);
+  };
+
+  // Tapping retake again on the same page cancels the retake
+  const handleRetakePage = (id: string) => {
+    setRetakePageId(current => (current === id ? null : id));
+  };
+
+  const handleReorderPages = (from: number, to: number) => {
+    setCapturedImages(current => movePage(current, from, to));
+  };
+
   const handleToggleMultiPage = async (value: boolean) => {
     setMultiPageMode(value);
     await setMultiPageCapture(value);
     // Reset captured images when toggling off
     if (!value) {
       setCapturedImages([]);
+      setRetakePageId(null);
     }
   };
 
@@ -511,6 +647,19 @@ export default function CaptureScreen() {
 
           {/* Bottom Controls */}
           <View style={styles.bottomControls}>
+            {multiPageMode && capturedImages.length > 0 && (
+              <View style={styles.pageTrayContainer}>
+                <PageTray
+                  pages={capturedImages}
+                  retakingPageId={retakePageId}
+                  onDelete={handleDeletePage}
+                  onRetake={handleRetakePage}
+                  onReorder={handleReorderPages}
+                  onProcess={() => processAllImages(capturedImages)}
+                  disabled={processing}
+                />
+              </View>
+            )}
             <View style={styles.controlRow}>
               {/* Gallery Button - Smaller */}
               <TouchableOpacity 
@@ -576,7 +725,7 @@ export default function CaptureScreen() {
           </View>
 
           {/* Vertical Zoom Controls - compact, on right side */}
-          <View style={styles.zoomVertical}>
+          <View style={[styles.zoomVertical, multiPageMode && capturedImages.length > 0 && styles.zoomVerticalAboveTray]}>
             <TouchableOpacity 
               style={[styles.actionButton, styles.zoomButton, styles.zoomMiniButton]} 
               onPress={increaseZoom}
@@ -592,6 +741,22 @@ export default function CaptureScreen() {
               <IconSymbol name="minus.magnifyingglass" size={20} color="#fff" />
             </TouchableOpacity>
           </View>
+
+          {/* Processing Overlay with Cancel */}
+          {processing && (
+            <View style={styles.processingOverlay}>
+              <ActivityIndicator color="#fff" size="large" />
+              <ThemedText style={styles.processingText}>Extracting receipt...</ThemedText>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={handleCancelProcessing}
+                activeOpacity={0.8}
+              >
+                <IconSymbol name="xmark" size={18} color="#fff" />
+                <ThemedText style={styles.cancelButtonText}>Cancel</ThemedText>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
       </CameraView>
     </ThemedView>
@@ -609,6 +774,34 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: 'transparent',
   },
+  processingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  processingText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   multiPageButton: {
     backgroundColor: 'rgba(0, 0, 0, 0.4)',
     borderWidth: 1,
@@ -733,6 +926,9 @@ const styles = StyleSheet.create({
     paddingTop: 12,
     backgroundColor: 'transparent',
   },
+  pageTrayContainer: {
+    marginBottom: 12,
+  },
   controlRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -778,6 +974,9 @@ const styles = StyleSheet.create({
     gap: 10,
     alignItems: 'center',
   },
+  zoomVerticalAboveTray: {
+    bottom: 250,
+  },
   zoomButton: {
     backgroundColor: '#0a7ea4',
     shadowColor: '#0a7ea4',
@@ -5,8 +5,9 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { getRecentReceipts, getTodayReceipts, initDatabase, type ReceiptRecord } from '@/utils/database';
+import { getOfflineQueueState, subscribeToOfflineQueue } from '@/utils/offlineQueue';
 import { useFocusEffect, useRouter } from 'expo-router';
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { Platform, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
@@ -17,6 +18,8 @@ export default function HomeScreen() {
   const [todayReceipts, setTodayReceipts] = useState<ReceiptRecord[]>([]);
   const [recentReceipts, setRecentReceipts] = useState<ReceiptRecord[]>([]);
   const [loading, setLoading] = useState(true);
+  const [offlineQueue, setOfflineQueue] = useState(getOfflineQueueState());
+  const offlineCountRef = useRef(offlineQueue.captures.length);
 
   const loadTodayReceipts = async () => {
     try {
@@ -46,6 +49,17 @@ export default function HomeScreen() {
     }, [])
   );
 
+  useEffect(() => subscribeToOfflineQueue(setOfflineQueue), []);
+
+  // Queued captures that were extracted in the background are now orders
+  useEffect(() => {
+    const count = offlineQueue.captures.length;
+    if (count < offlineCountRef.current) loadTodayReceipts();
+    offlineCountRef.current = count;
+  }, [offlineQueue.captures.length]);
+
+  const pendingCount = offlineQueue.captures.length;
+
   return (
     <ThemedView style={styles.container}>
       <ScrollView 
@@ -67,6 +81,24 @@ export default function HomeScreen() {
           )}
         </View>
 
+        {pendingCount > 0 && (
+          <TouchableOpacity
+            onPress={() => router.push('/offline-queue')}
+            style={[styles.offlineBanner, { backgroundColor: '#F59E0B15', borderColor: '#F59E0B40' }]}
+          >
+            <IconSymbol name="icloud.slash" size={22} color="#B45309" />
+            <View style={styles.offlineBannerInfo}>
+              <ThemedText style={styles.offlineBannerTitle}>
+                {pendingCount} capture{pendingCount === 1 ? '' : 's'} waiting for extraction
+              </ThemedText>
+              <ThemedText style={styles.offlineBannerText}>
+                {offlineQueue.running ? 'Extracting now…' : 'Saved while offline - they are processed when the connection is back'}
+              </ThemedText>
+            </View>
+            <IconSymbol name="chevron.right" size={18} color="#B45309" />
+          </TouchableOpacity>
+        )}
+
         {loading ? (
           <View style={styles.emptyContainer}>
             <ThemedText style={styles.emptyText}>Loading orders...</ThemedText>
@@ -256,6 +288,27 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     marginBottom: 16,
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  offlineBannerInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  offlineBannerTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#B45309',
+  },
+  offlineBannerText: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
   noOrdersText: {
     fontSize: 16,
     fontWeight: '600',
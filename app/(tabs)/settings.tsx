@@ -4,9 +4,17 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { clearUsageData, getTodayCostSummary, getTotalUsage } from '@/utils/aiCostTracker';
-import { formatDateTime } from '@/utils/printer';
-import { getAutoPrinter, getAutoSave, getEpsonPrinterMac, getImageOptimization, getImageOptimizationQuality, getImageOptimizationResizeWidth, getOCRMode, getPrintCopies, getPrinterType, getPrintMargin, getPrintTemplate, getShopName, OCRMode, PrinterType, setAutoPrinter, setAutoSave, setEpsonPrinterMac, setImageOptimization, setImageOptimizationQuality, setImageOptimizationResizeWidth, setOCRMode, setPrintCopies, setPrinterType, setPrintMargin, setPrintTemplate, setShopName, type PrintTemplateId } from '@/utils/settings';
-import * as Print from 'expo-print';
+import { clearExtractionCache, getExtractionCacheStats, type ExtractionCacheStats } from '@/utils/extractionCache';
+import { preprocessReceiptImage, type PreprocessResult } from '@/utils/imagePreprocessing';
+import { getReceiptExtractors } from '@/utils/ocr';
+import { buildTestPageCommands, createEpsonDriver, createNetworkDriver, createSystemDriver, getPrintErrorMessage, isPrintCancellation, PrintJobError, PrinterUnavailableError, resolveEpsonPrinter, runPrintJob } from '@/utils/printer';
+import { getPrintQueueState, reportDiscoveredPrinters, subscribeToPrintQueue, type PrintQueueState } from '@/utils/printQueue';
+import { getPromptProfiles } from '@/utils/prompts';
+import { buildReceiptCommands, buildReceiptHtml, findReceiptTemplate, getReceiptTemplates, isBuiltInTemplate, parseReceiptTemplate, SCREEN_VIEW_TEMPLATE_ID, type ReceiptTemplate, type ReceiptTemplateData } from '@/utils/receiptTemplate';
+import { DEFAULT_DUPLICATE_DETECTION_CONFIG, DEFAULT_IMAGE_PREPROCESSING_CONFIG, DEFAULT_IMAGE_QUALITY_CONFIG, DEFAULT_NETWORK_PRINTER_CONFIG, DEFAULT_PRINTER_PROFILE, DEFAULT_TAX_CONFIG, getAutoPrinter, getAutoSave, getCustomReceiptTemplates, getDuplicateDetectionConfig, getEpsonPrinterMac, getExtractionMaxAttempts, getGenerativeModelChain, getImageOptimization, getImageOptimizationQuality, getImageOptimizationResizeWidth, getImagePreprocessingConfig, getImageQualityConfig, getNetworkPrinterConfig, getOCRMode, getOpenAICompatibleConfig, getPrintCopies, getPrinterProfiles, getPrinterType, getPrintMargin, getPrintTemplate, getPromptProfileSettings, getShopName, getStreamingExtraction, getTaxConfig, OCRMode, OpenAICompatibleConfig, PrinterType, setAutoPrinter, setAutoSave, setCustomReceiptTemplates, setDuplicateDetectionConfig, setEpsonPrinterMac, setExtractionMaxAttempts, setGenerativeModelChain, setImageOptimization, setImageOptimizationQuality, setImageOptimizationResizeWidth, setImagePreprocessingConfig, setImageQualityConfig, setNetworkPrinterConfig, setOCRMode, setOpenAICompatibleConfig, setPrintCopies, setPrinterProfiles, setPrinterType, setPrintMargin, setPrintTemplate, setPromptProfileSettings, setShopName, setStreamingExtraction, setTaxConfig, type PrintTemplateId, type DuplicateDetectionConfig, type EscPosCodePage, type NetworkPrinterConfig, type PaperWidth, type PrinterProfile, type PrinterRole, type ImagePreprocessingConfig, type ImageQualityConfig, type PromptProfileSettings, type TaxConfig } from '@/utils/settings';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { useRouter } from 'expo-router';
 import { useEffect, useRef, useState } from 'react';
 import { Alert, findNodeHandle, Modal, Platform, ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -19,26 +27,68 @@ try {
   WebView = null;
 }
 
-const TEMPLATE_OPTIONS: Array<{ id: PrintTemplateId; name: string; desc: string; icon: string }> = [
-  { id: 'classic', name: 'Classic', desc: 'Balanced layout with headings', icon: 'description' },
-  { id: 'compact', name: 'Compact', desc: 'Tight spacing for small paper', icon: 'text-fields' },
-  { id: 'kitchen', name: 'Kitchen', desc: 'Large text, minimal styling', icon: 'print' },
+const TEMPLATE_ICONS: Record<string, string> = {
+  classic: 'description',
+  compact: 'text-fields',
+  kitchen: 'print',
+};
+
+const ROLE_OPTIONS: { id: PrinterRole; name: string }[] = [
+  { id: 'kitchen', name: 'Kitchen' },
+  { id: 'counter', name: 'Counter' },
 ];
 
+const PAPER_WIDTH_OPTIONS: PaperWidth[] = [58, 80];
+
+const CODE_PAGE_OPTIONS: { id: EscPosCodePage; name: string }[] = [
+  { id: 'cp437', name: 'CP437' },
+  { id: 'cp850', name: 'CP850' },
+  { id: 'cp858', name: 'CP858 (€)' },
+  { id: 'cp1252', name: 'CP1252' },
+];
+
+const OCR_MODE_ICONS: Record<OCRMode, 'text.viewfinder' | 'sparkles' | 'server.rack'> = {
+  vision: 'text.viewfinder',
+  generative: 'sparkles',
+  openai: 'server.rack',
+};
+
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
   const insets = useSafeAreaInsets();
+  const router = useRouter();
   const [shopName, setShopNameState] = useState('');
   const [printMargin, setPrintMarginState] = useState<number>(8);
   const [printCopies, setPrintCopiesState] = useState<number>(1);
   const [printerType, setPrinterTypeState] = useState<PrinterType>('pos');
   const [autoPrinter, setAutoPrinterState] = useState(false);
   const [autoSave, setAutoSaveState] = useState(false);
+  const [streamingExtraction, setStreamingExtractionState] = useState(false);
+  const [networkPrinterConfig, setNetworkPrinterConfigState] = useState<NetworkPrinterConfig>(DEFAULT_NETWORK_PRINTER_CONFIG);
+  const [isNetworkTestPrinting, setIsNetworkTestPrinting] = useState(false);
+  const [printQueue, setPrintQueue] = useState<PrintQueueState>(getPrintQueueState());
+  const [printerProfiles, setPrinterProfilesState] = useState<PrinterProfile[]>([]);
+  const [editingProfile, setEditingProfile] = useState<PrinterProfile | null>(null);
+  const [testingProfileId, setTestingProfileId] = useState<string | null>(null);
+  const [duplicateConfig, setDuplicateConfigState] = useState<DuplicateDetectionConfig>(DEFAULT_DUPLICATE_DETECTION_CONFIG);
   const [imageOptimization, setImageOptimizationState] = useState(false);
   const [imageOptimizationQuality, setImageOptimizationQualityState] = useState<number>(70);
   const [imageOptimizationResizeWidth, setImageOptimizationResizeWidthState] = useState<number>(1024);
+  const [imageQualityConfig, setImageQualityConfigState] = useState<ImageQualityConfig>(DEFAULT_IMAGE_QUALITY_CONFIG);
+  const [preprocessingConfig, setPreprocessingConfigState] = useState<ImagePreprocessingConfig>(DEFAULT_IMAGE_PREPROCESSING_CONFIG);
+  const [preprocessPreview, setPreprocessPreview] = useState<{ beforeUri: string; result: PreprocessResult | null } | null>(null);
+  const [preprocessPreviewLoading, setPreprocessPreviewLoading] = useState(false);
   const [ocrMode, setOcrModeState] = useState<OCRMode>('generative');
+  const [openAIConfig, setOpenAIConfigState] = useState<OpenAICompatibleConfig>({ baseUrl: '', model: '', apiKey: '' });
+  const [extractionMaxAttempts, setExtractionMaxAttemptsState] = useState<number>(3);
+  const [modelChainText, setModelChainText] = useState('');
+  const [promptSettings, setPromptSettingsState] = useState<PromptProfileSettings>({ profileId: 'default', customInstructions: '' });
   const [template, setTemplateState] = useState<PrintTemplateId>('classic');
+  const [receiptTemplates, setReceiptTemplates] = useState<ReceiptTemplate[]>([]);
+  const [templateJson, setTemplateJson] = useState<string | null>(null); // Set while editing a template as JSON
+  const [taxConfig, setTaxConfigState] = useState<TaxConfig>(DEFAULT_TAX_CONFIG);
+  const [taxRateText, setTaxRateText] = useState(String(DEFAULT_TAX_CONFIG.rate));
+  const [taxFreeText, setTaxFreeText] = useState('');
   const [loading, setLoading] = useState(true);
   const [previewHtml, setPreviewHtml] = useState<string>('');
   const [epsonMac, setEpsonMac] = useState<string | null>(null);
@@ -46,9 +96,10 @@ export default function SettingsScreen() {
   const [isPrinting, setIsPrinting] = useState(false);
   const [isEpsonPrinting, setIsEpsonPrinting] = useState(false);
   const [isTestPrinting, setIsTestPrinting] = useState(false);
-  const [todayCost, setTodayCost] = useState({ requests: 0, tokens: 0, cost: 0 });
+  const [todayCost, setTodayCost] = useState({ requests: 0, tokens: 0, cost: 0, fallbacks: 0 });
   const [totalUsage, setTotalUsage] = useState({ totalRequests: 0, totalTokens: 0, totalCost: 0, byModel: {} });
   const [showCostModal, setShowCostModal] = useState(false);
+  const [cacheStats, setCacheStats] = useState<ExtractionCacheStats>({ hits: 0, misses: 0, entries: 0 });
   const previewViewRef = useRef<View>(null);
   
   // Use the library's discovery hook - it handles everything automatically
@@ -85,6 +136,14 @@ export default function SettingsScreen() {
     }
   }, [isDiscovering, discoveredPrinters, moduleAvailable]);
 
+  // Retry queued tickets for printers that show up again
+  useEffect(() => {
+    reportDiscoveredPrinters(discoveredPrinters);
+  }, [discoveredPrinters]);
+
+  useEffect(() => subscribeToPrintQueue(setPrintQueue), []);
+  const waitingPrintJobs = printQueue.jobs.filter(job => job.status === 'pending' || job.status === 'failed' || job.status === 'printing').length;
+
   // Auto-set first discovered printer as default if no default is set
   useEffect(() => {
     const autoSetDefaultPrinter = async () => {
@@ -111,7 +170,7 @@ export default function SettingsScreen() {
   useEffect(() => {
     const load = async () => {
       try {
-        const [name, margin, copies, printerTypeValue, auto, save, imgOpt, imgOptQuality, imgOptResize, mode, tpl, savedMac] = await Promise.all([
+        const [name, margin, copies, printerTypeValue, auto, save, imgOpt, imgOptQuality, imgOptResize, mode, tpl, savedMac, openAI, maxAttempts, modelChain, promptProfile, tax, qualityConfig, preprocessing, duplicates, streaming, networkPrinter, profiles, templates] = await Promise.all([
           getShopName(),
           getPrintMargin(),
           getPrintCopies(),
@@ -124,6 +183,18 @@ export default function SettingsScreen() {
           getOCRMode(),
           getPrintTemplate(),
           getEpsonPrinterMac(),
+          getOpenAICompatibleConfig(),
+          getExtractionMaxAttempts(),
+          getGenerativeModelChain(),
+          getPromptProfileSettings(),
+          getTaxConfig(),
+          getImageQualityConfig(),
+          getImagePreprocessingConfig(),
+          getDuplicateDetectionConfig(),
+          getStreamingExtraction(),
+          getNetworkPrinterConfig(),
+          getPrinterProfiles(),
+          getReceiptTemplates(),
         ]);
         setShopNameState(name);
         setPrintMarginState(margin);
@@ -137,6 +208,20 @@ export default function SettingsScreen() {
         setOcrModeState(mode);
         setTemplateState(tpl);
         setEpsonMac(savedMac);
+        setOpenAIConfigState(openAI);
+        setExtractionMaxAttemptsState(maxAttempts);
+        setModelChainText(modelChain.join(', '));
+        setPromptSettingsState(promptProfile);
+        setTaxConfigState(tax);
+        setImageQualityConfigState(qualityConfig);
+        setPreprocessingConfigState(preprocessing);
+        setDuplicateConfigState(duplicates);
+        setStreamingExtractionState(streaming);
+        setNetworkPrinterConfigState(networkPrinter);
+        setPrinterProfilesState(profiles);
+        setReceiptTemplates(templates);
+        setTaxRateText(String(tax.rate));
+        setTaxFreeText(tax.taxFreeKeywords.join(', '));
         
         // Load cost tracking data
         const [todaySummary, totalStats] = await Promise.all([
@@ -202,18 +287,25 @@ export default function SettingsScreen() {
   const handleOpenCostModal = async () => {
     // Refresh cost data when opening modal
     try {
-      const [todaySummary, totalStats] = await Promise.all([
+      const [todaySummary, totalStats, stats] = await Promise.all([
         getTodayCostSummary(),
         getTotalUsage(),
+        getExtractionCacheStats(),
       ]);
       setTodayCost(todaySummary);
       setTotalUsage(totalStats);
+      setCacheStats(stats);
     } catch (error) {
       console.error('Error refreshing cost data:', error);
     }
     setShowCostModal(true);
   };
 
+  const handleClearExtractionCache = async () => {
+    await clearExtractionCache();
+    setCacheStats(await getExtractionCacheStats());
+  };
+
   // Auto-start discovery when hook is available - search for both Bluetooth and WiFi/LAN printers
   useEffect(() => {
     if (moduleAvailable && startDiscovery) {
@@ -238,6 +330,52 @@ export default function SettingsScreen() {
     await setShopName(value.trim());
   };
 
+  const handleSaveTaxConfig = async (changes: Partial<TaxConfig>) => {
+    const rate = parseFloat(taxRateText);
+    await setTaxConfig({
+      ...taxConfig,
+      rate: isNaN(rate) ? taxConfig.rate : rate,
+      taxFreeKeywords: taxFreeText.split(','),
+      ...changes,
+    });
+    const saved = await getTaxConfig();
+    setTaxConfigState(saved);
+    setTaxRateText(String(saved.rate));
+    setTaxFreeText(saved.taxFreeKeywords.join(', '));
+  };
+
+  const handleSaveImageQualityConfig = async (config: ImageQualityConfig) => {
+    await setImageQualityConfig(config);
+    setImageQualityConfigState(await getImageQualityConfig());
+  };
+
+  const handleSavePreprocessingConfig = async (config: ImagePreprocessingConfig) => {
+    setPreprocessingConfigState(config);
+    setPreprocessPreview(null);
+    await setImagePreprocessingConfig(config);
+  };
+
+  // Run the preprocessing pipeline on a library photo to compare before/after
+  const handlePreviewPreprocessing = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Please grant permission to access your photos');
+      return;
+    }
+    const picked = await ImagePicker.launchImageLibraryAsync({ mediaTypes: ['images'], base64: true });
+    const asset = picked.canceled ? null : picked.assets[0];
+    if (!asset?.base64) return;
+
+    setPreprocessPreviewLoading(true);
+    try {
+      const quality = imageOptimization ? imageOptimizationQuality / 100 : 0.9;
+      const result = await preprocessReceiptImage(asset.uri, asset.base64, preprocessingConfig, quality);
+      setPreprocessPreview({ beforeUri: asset.uri, result });
+    } finally {
+      setPreprocessPreviewLoading(false);
+    }
+  };
+
   const handleSaveMargin = async (value: string) => {
     const n = parseFloat(value);
     const mm = isNaN(n) ? 0 : Math.max(0, Math.min(30, n));
@@ -245,13 +383,6 @@ export default function SettingsScreen() {
     await setPrintMargin(mm);
   };
 
-  const handleSavePrintCopies = async (value: string) => {
-    const n = parseInt(value, 10);
-    const copies = isNaN(n) || n < 1 ? 1 : Math.max(1, Math.min(10, n));
-    setPrintCopiesState(copies);
-    await setPrintCopies(copies);
-  };
-
   const handleIncrementCopies = async () => {
     const newValue = Math.min(10, printCopies + 1);
     setPrintCopiesState(newValue);
@@ -264,6 +395,28 @@ export default function SettingsScreen() {
     await setPrintCopies(newValue);
   };
 
+  const handleChangeExtractionMaxAttempts = async (delta: number) => {
+    const newValue = Math.max(1, Math.min(5, extractionMaxAttempts + delta));
+    setExtractionMaxAttemptsState(newValue);
+    await setExtractionMaxAttempts(newValue);
+  };
+
+  const handleSaveModelChain = async () => {
+    await setGenerativeModelChain(modelChainText.split(','));
+    const chain = await getGenerativeModelChain();
+    setModelChainText(chain.join(', '));
+  };
+
+  const handleSelectPromptProfile = async (profileId: string) => {
+    const next = { ...promptSettings, profileId };
+    setPromptSettingsState(next);
+    await setPromptProfileSettings(next);
+  };
+
+  const handleSavePromptInstructions = async () => {
+    await setPromptProfileSettings({ ...promptSettings, customInstructions: promptSettings.customInstructions.trim() });
+  };
+
   const handleTogglePrinterType = async (value: PrinterType) => {
     setPrinterTypeState(value);
     await setPrinterType(value);
@@ -279,6 +432,130 @@ export default function SettingsScreen() {
     await setAutoSave(value);
   };
 
+  const handleToggleStreamingExtraction = async (value: boolean) => {
+    setStreamingExtractionState(value);
+    await setStreamingExtraction(value);
+  };
+
+  const handleSaveNetworkPrinterConfig = async (config: NetworkPrinterConfig) => {
+    await setNetworkPrinterConfig(config);
+    setNetworkPrinterConfigState(await getNetworkPrinterConfig());
+  };
+
+  const handleNetworkTestPrint = async () => {
+    await handleSaveNetworkPrinterConfig(networkPrinterConfig);
+    const config = await getNetworkPrinterConfig();
+    if (!config.host) {
+      Alert.alert('No Printer Address', 'Enter the printer\'s IP address first.');
+      return;
+    }
+
+    setIsNetworkTestPrinting(true);
+    try {
+      const target = `${config.host}:${config.port}`;
+      await runPrintJob(createNetworkDriver(config), { commands: buildTestPageCommands({ target, deviceName: 'Network Printer', ipAddress: config.host, port: config.port }) });
+      Alert.alert('Success', 'Test print sent to printer successfully!');
+    } catch (error: any) {
+      const step = error instanceof PrintJobError ? error.step : 'initialization';
+      Alert.alert('Test Print Failed', `Failed at step: ${step}\n\nError: ${error?.message || 'Unknown error'}\n\nCheck the printer is on, on the same network, and the address and port are correct.`);
+    } finally {
+      setIsNetworkTestPrinting(false);
+    }
+  };
+
+  const updateEditingProfile = (changes: Partial<PrinterProfile>) => {
+    setEditingProfile(profile => (profile ? { ...profile, ...changes } : profile));
+  };
+
+  // Suggest the role that is still missing: kitchen first, then counter
+  const handleAddPrinterProfile = () => {
+    const role: PrinterRole = printerProfiles.some(p => p.role === 'kitchen') ? 'counter' : 'kitchen';
+    setEditingProfile({
+      ...DEFAULT_PRINTER_PROFILE,
+      id: Date.now().toString(),
+      name: role === 'kitchen' ? 'Kitchen' : 'Front Counter',
+      role,
+      template: role === 'kitchen' ? 'kitchen' : template,
+    });
+  };
+
+  const handleSavePrinterProfile = async () => {
+    if (!editingProfile) return;
+    if (!editingProfile.target.trim()) {
+      Alert.alert('No Printer', editingProfile.connection === 'network' ? 'Enter the printer\'s IP address.' : 'Choose a discovered printer or enter its target.');
+      return;
+    }
+    const exists = printerProfiles.some(p => p.id === editingProfile.id);
+    await setPrinterProfiles(exists
+      ? printerProfiles.map(p => (p.id === editingProfile.id ? editingProfile : p))
+      : [...printerProfiles, editingProfile]);
+    setPrinterProfilesState(await getPrinterProfiles());
+    setEditingProfile(null);
+  };
+
+  const handleDeletePrinterProfile = (profile: PrinterProfile) => {
+    Alert.alert(
+      'Remove Printer',
+      `${profile.name || profile.target} will no longer get tickets.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await setPrinterProfiles(printerProfiles.filter(p => p.id !== profile.id));
+            setPrinterProfilesState(await getPrinterProfiles());
+          },
+        },
+      ]
+    );
+  };
+
+  const handleTestPrinterProfile = async (profile: PrinterProfile) => {
+    setTestingProfileId(profile.id);
+    try {
+      const isNetwork = profile.connection === 'network';
+      const driver = isNetwork
+        ? createNetworkDriver({ host: profile.target, port: profile.port, codePage: profile.codePage })
+        : createEpsonDriver({ target: profile.target, deviceName: profile.name });
+      const target = isNetwork ? `${profile.target}:${profile.port}` : profile.target;
+      await runPrintJob(driver, { commands: buildTestPageCommands({ target, deviceName: profile.name }) });
+      Alert.alert('Success', `Test print sent to ${profile.name || target}.`);
+    } catch (error: any) {
+      const step = error instanceof PrintJobError ? error.step : 'initialization';
+      const originalError = error instanceof PrintJobError ? error.originalError : error;
+      Alert.alert('Test Print Failed', `Failed at step: ${step}\n\nError: ${getPrintErrorMessage(originalError)}\n\nCheck the printer is on and reachable.`);
+    } finally {
+      setTestingProfileId(null);
+    }
+  };
+
+  // One choice in the printer profile form, styled like the printer type buttons
+  const renderProfileChoice = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.printerTypeButton,
+        styles.codePageButton,
+        active && styles.printerTypeButtonActive,
+        { borderColor: Colors[colorScheme ?? 'light'].tint }
+      ]}
+    >
+      <ThemedText style={[
+        styles.printerTypeButtonText,
+        active && styles.printerTypeButtonTextActive
+      ]}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const handleSaveDuplicateConfig = async (config: DuplicateDetectionConfig) => {
+    await setDuplicateDetectionConfig(config);
+    setDuplicateConfigState(await getDuplicateDetectionConfig());
+  };
+
   const handleToggleImageOptimization = async (value: boolean) => {
     setImageOptimizationState(value);
     await setImageOptimization(value);
@@ -298,10 +575,17 @@ export default function SettingsScreen() {
     await setImageOptimizationResizeWidth(width);
   };
 
-  const handleOCRModeChange = async (value: boolean) => {
-    const newMode: OCRMode = value ? 'generative' : 'vision';
-    setOcrModeState(newMode);
-    await setOCRMode(newMode);
+  const handleOCRModeChange = async (mode: OCRMode) => {
+    setOcrModeState(mode);
+    await setOCRMode(mode);
+  };
+
+  const handleSaveOpenAIConfig = async () => {
+    await setOpenAICompatibleConfig({
+      baseUrl: openAIConfig.baseUrl.trim(),
+      model: openAIConfig.model.trim(),
+      apiKey: openAIConfig.apiKey.trim(),
+    });
   };
 
   const handleSelectTemplate = async (id: PrintTemplateId) => {
@@ -309,6 +593,53 @@ export default function SettingsScreen() {
     await setPrintTemplate(id);
   };
 
+  // Built-in templates are edited as a copy
+  const handleEditTemplate = () => {
+    const { id, name, ...rest } = findReceiptTemplate(template, receiptTemplates);
+    const editable = isBuiltInTemplate(id) ? { name: `${name} (custom)`, ...rest } : { id, name, ...rest };
+    setTemplateJson(JSON.stringify(editable, null, 2));
+  };
+
+  const handleSaveTemplate = async () => {
+    if (templateJson === null) return;
+    let parsed: ReceiptTemplate;
+    try {
+      parsed = parseReceiptTemplate(templateJson);
+    } catch (error: any) {
+      Alert.alert('Invalid Template', error?.message || 'Could not read the template');
+      return;
+    }
+    const saved = isBuiltInTemplate(parsed.id) ? { ...parsed, id: `custom-${Date.now()}` } : parsed;
+    const custom = await getCustomReceiptTemplates();
+    await setCustomReceiptTemplates(custom.some(t => t.id === saved.id)
+      ? custom.map(t => (t.id === saved.id ? saved : t))
+      : [...custom, saved]);
+    setReceiptTemplates(await getReceiptTemplates());
+    setTemplateJson(null);
+    await handleSelectTemplate(saved.id);
+  };
+
+  const handleDeleteTemplate = () => {
+    const selected = findReceiptTemplate(template, receiptTemplates);
+    Alert.alert(
+      'Delete Template',
+      `"${selected.name}" will be deleted. Printers using it switch to Classic.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const custom = await getCustomReceiptTemplates();
+            await setCustomReceiptTemplates(custom.filter(t => t.id !== selected.id));
+            setReceiptTemplates(await getReceiptTemplates());
+            await handleSelectTemplate('classic');
+          },
+        },
+      ]
+    );
+  };
+
   // Manual scan trigger - just restarts the discovery hook
   const scanEpsonPrinters = () => {
     if (moduleAvailable && startDiscovery) {
@@ -365,32 +696,16 @@ export default function SettingsScreen() {
 
   // Build preview HTML whenever inputs change
   useEffect(() => {
-    const html = buildPreviewHtml({ shopName, margin: printMargin, template });
+    const html = buildReceiptHtml(findReceiptTemplate(template, receiptTemplates), getPreviewData(shopName, taxConfig), { margin: printMargin });
     setPreviewHtml(html);
-  }, [shopName, printMargin, template]);
+  }, [shopName, printMargin, template, receiptTemplates, taxConfig]);
 
   const handlePreviewPrint = async () => {
     try {
       setIsPrinting(true);
-      await Print.printAsync({
-        html: previewHtml,
-        orientation: Print.Orientation.portrait,
-        margins: {
-          left: printMargin,
-          top: printMargin,
-          right: printMargin,
-          bottom: printMargin,
-        },
-      });
+      await runPrintJob(createSystemDriver(printMargin), { commands: buildReceiptCommands(findReceiptTemplate(template, receiptTemplates), getPreviewData(shopName, taxConfig)), html: previewHtml });
     } catch (error: any) {
-      const errorMessage = error?.message || String(error) || '';
-      const isCancellation = 
-        errorMessage.toLowerCase().includes('cancel') ||
-        errorMessage.toLowerCase().includes('did not complete') ||
-        errorMessage.toLowerCase().includes('user cancel') ||
-        errorMessage.toLowerCase().includes('aborted');
-      
-      if (!isCancellation) {
+      if (!isPrintCancellation(error)) {
         console.error('Print error:', error);
         Alert.alert('Print Error', 'Failed to print preview. Please try again.');
       }
@@ -399,341 +714,77 @@ export default function SettingsScreen() {
     }
   };
 
-  const handlePreviewEpsonPrint = async () => {
-    try {
-      // Check if printers are available from the hook
-      const target = discoveredPrinters && discoveredPrinters.length > 0 && discoveredPrinters[0]?.target;
-      const deviceName = discoveredPrinters && discoveredPrinters.length > 0 ? (discoveredPrinters[0]?.deviceName || discoveredPrinters[0]?.name || 'Printer') : 'Printer';
-      if (!target) {
-        Alert.alert(
-          'No Printers Found',
-          'No printers were discovered. Make sure:\n\n1. Bluetooth/WiFi is enabled on your device\n2. The printer is powered on\n3. For Bluetooth: printer is in pairing/discovery mode and within range\n4. For WiFi/LAN: printer is on the same network\n\nDiscovery runs automatically in the background.'
-        );
-        return;
-      }
+  const showNoPrintersAlert = () => {
+    Alert.alert(
+      'No Printers Found',
+      'No printers were discovered. Make sure:\n\n1. Bluetooth/WiFi is enabled on your device\n2. The printer is powered on\n3. For Bluetooth: printer is in pairing/discovery mode and within range\n4. For WiFi/LAN: printer is on the same network\n\nDiscovery runs automatically in the background.'
+    );
+  };
 
-      // Try to load the module
-      let Printer: any = null;
-      try {
-        const mod: any = await import('react-native-esc-pos-printer').catch(() => null);
-        Printer = mod?.Printer;
-      } catch (e) {
-        console.error('Failed to import Epson module:', e);
-      }
+  const showModuleNotFoundAlert = () => {
+    Alert.alert(
+      'Printer Module Not Found', 
+      'The Epson printer module is not included in this build. Make sure you:\n\n1. Installed react-native-esc-pos-printer\n2. Rebuilt the app with npx expo run:android\n3. Not using Expo Go (use a development build)'
+    );
+  };
 
-      if (!Printer) {
-        Alert.alert(
-          'Printer Module Not Found', 
-          'The Epson printer module is not included in this build. Make sure you:\n\n1. Installed react-native-esc-pos-printer\n2. Rebuilt the app with npx expo run:android\n3. Not using Expo Go (use a development build)'
-        );
-        return;
-      }
+  const handlePreviewEpsonPrint = async () => {
+    const printerInfo = await resolveEpsonPrinter(discoveredPrinters);
+    if (!printerInfo) {
+      showNoPrintersAlert();
+      return;
+    }
 
-      const viewTag = findNodeHandle(previewViewRef.current);
-      if (!viewTag) {
-        Alert.alert('Printer', 'Printable view not ready.');
-        return;
-      }
+    // Print the preview the way receipts print: as an image only for the template the receipt screen shows
+    const printsView = template === SCREEN_VIEW_TEMPLATE_ID;
+    const viewTag = findNodeHandle(previewViewRef.current);
+    if (!viewTag && printsView) {
+      Alert.alert('Printer', 'Printable view not ready.');
+      return;
+    }
 
-      setIsEpsonPrinting(true);
-      
-      // Ensure deviceName is a valid non-empty string
-      const validDeviceName = deviceName && deviceName.trim() !== '' ? deviceName.trim() : 'Printer';
-      console.log(`Printing preview to printer: ${validDeviceName} (target: ${target})`);
-      
-      // Validate target
-      if (!target || target.trim() === '') {
-        throw new Error('Invalid printer target');
-      }
-      
-      // Create printer instance and use addViewShot
-      const printer = new Printer({
-        target: target.trim(),
-        deviceName: validDeviceName,
-      });
-      
-      // Connect to printer (timeout is optional)
-      try {
-        await printer.connect(5000); // 5 second timeout
-      } catch (connectError: any) {
-        // If connect with timeout fails, try without timeout
-        if (connectError?.message?.includes('parameter') || connectError?.message?.includes('invalid')) {
-          console.log('Retrying connect without timeout parameter');
-          await printer.connect();
-        } else {
-          throw connectError;
-        }
-      }
-      
-      // Capture view and add to print buffer
-      await Printer.addViewShot(printer, {
-        viewNode: viewTag,
-        width: 80, // 80mm paper width
+    setIsEpsonPrinting(true);
+    try {
+      await runPrintJob(createEpsonDriver(printerInfo), {
+        commands: buildReceiptCommands(findReceiptTemplate(template, receiptTemplates), getPreviewData(shopName, taxConfig)),
+        viewTag: printsView ? viewTag : null,
       });
-      
-      // Add cut before sending data
-      try {
-        await printer.addCut();
-      } catch (cutError: any) {
-        console.warn('Cut command failed (continuing anyway):', cutError);
-        // Continue without cut if it fails
-      }
-      
-      // Send data to printer (includes cut command)
-      await printer.sendData();
-      
-      // Disconnect
-      await printer.disconnect();
-      
       Alert.alert('Success', 'Print job sent to printer');
-      setIsEpsonPrinting(false);
     } catch (error: any) {
-      console.error('Epson print error:', error);
+      if (error instanceof PrinterUnavailableError) {
+        showModuleNotFoundAlert();
+      } else {
+        Alert.alert('Printer Error', `Failed to print: ${error?.message || 'Unknown error'}`);
+      }
+    } finally {
       setIsEpsonPrinting(false);
-      Alert.alert('Printer Error', `Failed to print: ${error?.message || 'Unknown error'}`);
     }
   };
 
   const handleSimpleTestPrint = async () => {
-    let target: string | null = null;
-    let deviceName: string = 'Printer';
-    
-    // Check if printers are available from the hook
-    target = discoveredPrinters && discoveredPrinters.length > 0 && discoveredPrinters[0]?.target;
-    deviceName = discoveredPrinters && discoveredPrinters.length > 0 ? (discoveredPrinters[0]?.deviceName || discoveredPrinters[0]?.name || 'Printer') : 'Printer';
-    if (!target) {
-      Alert.alert(
-        'No Printers Found',
-        'No printers were discovered. Make sure:\n\n1. Bluetooth/WiFi is enabled on your device\n2. The printer is powered on\n3. For Bluetooth: printer is in pairing/discovery mode and within range\n4. For WiFi/LAN: printer is on the same network\n\nDiscovery runs automatically in the background.'
-      );
-      return;
-    }
-
-    // Try to load the module
-    let Printer: any = null;
-    let PrinterConstants: any = null;
-    try {
-      const mod: any = await import('react-native-esc-pos-printer').catch(() => null);
-      Printer = mod?.Printer;
-      PrinterConstants = mod?.PrinterConstants;
-    } catch (e) {
-      console.error('Failed to import Epson module:', e);
-    }
-
-    if (!Printer) {
-      Alert.alert(
-        'Printer Module Not Found', 
-        'The Epson printer module is not included in this build. Make sure you:\n\n1. Installed react-native-esc-pos-printer\n2. Rebuilt the app with npx expo run:android\n3. Not using Expo Go (use a development build)'
-      );
-      return;
-    }
-
-    if (!PrinterConstants) {
-      Alert.alert(
-        'PrinterConstants Not Found', 
-        'PrinterConstants is not available. Make sure you have the latest version of react-native-esc-pos-printer.'
-      );
+    const printerInfo = await resolveEpsonPrinter(discoveredPrinters);
+    if (!printerInfo) {
+      showNoPrintersAlert();
       return;
     }
 
     setIsTestPrinting(true);
-    
-    // Ensure deviceName is a valid non-empty string
-    const validDeviceName = deviceName && deviceName.trim() !== '' ? deviceName.trim() : 'Printer';
-    console.log(`[TEST PRINT] Starting test print to printer: ${validDeviceName} (target: ${target})`);
-    console.log('[TEST PRINT] Full printer info:', JSON.stringify(discoveredPrinters?.find(p => p.target === target), null, 2));
-    
-    // Validate target
-    if (!target || target.trim() === '') {
-      throw new Error('Invalid printer target');
-    }
-    
-    let printer: any = null;
-    let step = 'initialization';
-    
     try {
-      // Step 1: Create printer instance
-      step = 'creating printer instance';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      printer = new Printer({
-        target: target.trim(),
-        deviceName: validDeviceName,
-      });
-      console.log(`[TEST PRINT] Printer instance created successfully`);
-      
-      // Step 2: Connect to printer
-      step = 'connecting to printer';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      try {
-        await printer.connect(5000); // 5 second timeout
-        console.log(`[TEST PRINT] Connected with timeout parameter`);
-      } catch (connectError: any) {
-        console.log(`[TEST PRINT] Connect with timeout failed:`, connectError);
-        // If connect with timeout fails, try without timeout
-        if (connectError?.message?.includes('parameter') || connectError?.message?.includes('invalid')) {
-          console.log('[TEST PRINT] Retrying connect without timeout parameter');
-          await printer.connect();
-          console.log(`[TEST PRINT] Connected without timeout parameter`);
-        } else {
-          throw new Error(`Connection failed: ${connectError?.message || connectError?.toString() || JSON.stringify(connectError)}`);
-        }
-      }
-      
-      // Step 3: Add text alignment (optional - skip if not supported)
-      step = 'adding text alignment';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      try {
-        if (printer.addTextAlign && typeof printer.addTextAlign === 'function') {
-          await printer.addTextAlign(PrinterConstants.ALIGN_CENTER);
-          console.log(`[TEST PRINT] Text alignment set to center`);
-        } else {
-          console.log(`[TEST PRINT] addTextAlign not available, skipping alignment`);
-        }
-      } catch (alignError: any) {
-        console.warn(`[TEST PRINT] Text alignment failed (continuing anyway):`, alignError);
-        // Continue without alignment
-      }
-      
-      // Step 4: Add header text
-      step = 'adding header text';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      await printer.addText('========================\n');
-      await printer.addText('PRINTER TEST\n');
-      await printer.addText('========================\n');
-      await printer.addFeedLine(1);
-      
-      // Step 5: Add debug info
-      step = 'adding debug info';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      try {
-        if (printer.addTextAlign && typeof printer.addTextAlign === 'function') {
-          await printer.addTextAlign(PrinterConstants.ALIGN_LEFT);
-          console.log(`[TEST PRINT] Text alignment set to left`);
-        }
-      } catch (alignError: any) {
-        console.warn(`[TEST PRINT] Text alignment failed (continuing anyway):`, alignError);
-        // Continue without alignment
-      }
-      await printer.addText(`Device: ${validDeviceName}\n`);
-      await printer.addText(`Target: ${target}\n`);
-      const printerInfo = discoveredPrinters?.find(p => p.target === target);
-      if (printerInfo) {
-        if (printerInfo.ipAddress) {
-          await printer.addText(`IP: ${printerInfo.ipAddress}\n`);
-        }
-        if (printerInfo.port) {
-          await printer.addText(`Port: ${printerInfo.port}\n`);
-        }
-        await printer.addText(`Type: ${printerInfo.ipAddress ? 'WiFi/LAN' : 'Bluetooth'}\n`);
-      }
-      const currentDate = new Date();
-      await printer.addText(`Date: ${currentDate.toLocaleString()}\n`);
-      await printer.addFeedLine(1);
-      await printer.addText('This is a test print.\n');
-      await printer.addText('If you see this, the printer is working!\n');
-      await printer.addFeedLine(2);
-      try {
-        if (printer.addTextAlign && typeof printer.addTextAlign === 'function') {
-          await printer.addTextAlign(PrinterConstants.ALIGN_CENTER);
-        }
-      } catch (alignError: any) {
-        console.warn(`[TEST PRINT] Text alignment failed (continuing anyway):`, alignError);
-        // Continue without alignment
-      }
-      await printer.addText('========================\n');
-      await printer.addFeedLine(1);
-      
-      // Step 6: Add cut before sending data
-      step = 'adding paper cut';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      try {
-        await printer.addCut();
-        console.log(`[TEST PRINT] Cut command added successfully`);
-      } catch (cutError: any) {
-        console.warn(`[TEST PRINT] Cut command failed (continuing anyway):`, cutError);
-        // Continue without cut if it fails
-      }
-      
-      // Step 7: Send data to printer (includes cut command)
-      step = 'sending data to printer';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      await printer.sendData();
-      console.log(`[TEST PRINT] Data sent successfully`);
-      
-      // Step 8: Disconnect
-      step = 'disconnecting from printer';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      await printer.disconnect();
-      console.log(`[TEST PRINT] Disconnected successfully`);
-      
+      await runPrintJob(createEpsonDriver(printerInfo), { commands: buildTestPageCommands(printerInfo) });
       Alert.alert('Success', 'Test print sent to printer successfully!');
-      setIsTestPrinting(false);
     } catch (error: any) {
-      console.error(`[TEST PRINT] Error at step: ${step}`);
-      console.error('[TEST PRINT] Error object:', error);
-      console.error('[TEST PRINT] Error type:', typeof error);
-      console.error('[TEST PRINT] Error constructor:', error?.constructor?.name);
-      console.error('[TEST PRINT] Error keys:', Object.keys(error || {}));
-      console.error('[TEST PRINT] Full error details:', {
-        message: error?.message,
-        code: error?.code,
-        name: error?.name,
-        stack: error?.stack,
-        toString: error?.toString?.(),
-        userInfo: error?.userInfo,
-        nativeError: error?.nativeError,
-        target,
-        deviceName,
-        step,
-        printers: discoveredPrinters?.map(p => ({ target: p.target, name: p.name, ipAddress: p.ipAddress, deviceType: p.deviceType })),
-      });
-      
-      // Try to get native error details
-      let nativeErrorDetails = '';
-      try {
-        if (error?.nativeError) {
-          nativeErrorDetails = `\nNative Error: ${JSON.stringify(error.nativeError)}`;
-        }
-        if (error?.userInfo) {
-          nativeErrorDetails += `\nUser Info: ${JSON.stringify(error.userInfo)}`;
-        }
-      } catch (e) {
-        // ignore
-      }
-      
-      setIsTestPrinting(false);
-      
-      // Extract error message from various possible formats
-      let errorMessage = 'Unknown error';
-      if (error?.message) {
-        errorMessage = error.message;
-      } else if (error?.code) {
-        errorMessage = `Error code: ${error.code}`;
-      } else if (error?.name) {
-        errorMessage = `Error: ${error.name}`;
-      } else if (error?.toString) {
-        errorMessage = error.toString();
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      } else if (error) {
-        try {
-          errorMessage = JSON.stringify(error);
-        } catch (e) {
-          errorMessage = String(error);
-        }
+      if (error instanceof PrinterUnavailableError) {
+        showModuleNotFoundAlert();
+        return;
       }
-      
-      const errorTarget = target || 'N/A';
-      const errorDevice = deviceName || 'N/A';
-      const printerInfo = discoveredPrinters?.find(p => p.target === target);
-      const errorIP = printerInfo?.ipAddress || 'N/A';
-      const errorPort = printerInfo?.port || 'N/A';
-      const errorType = printerInfo?.ipAddress ? 'WiFi/LAN' : 'Bluetooth';
-      
+      const step = error instanceof PrintJobError ? error.step : 'initialization';
+      const discovered = discoveredPrinters?.find(p => p.target === printerInfo.target) || printerInfo;
       Alert.alert(
         'Test Print Failed', 
-        `Failed at step: ${step}\n\nError: ${errorMessage}${nativeErrorDetails}\n\nDebug Info:\nTarget: ${errorTarget}\nDevice: ${errorDevice}\nIP: ${errorIP}\nPort: ${errorPort}\nType: ${errorType}\n\nPlease check console logs for full error details.\n\nTroubleshooting:\n1. Printer is powered on\n2. Printer is connected (Bluetooth/WiFi)\n3. Printer is in range\n4. For WiFi: printer is on same network\n5. Check console logs for more details`
+        `Failed at step: ${step}\n\nError: ${getPrintErrorMessage(error instanceof PrintJobError ? error.originalError : error)}\n\nDebug Info:\nTarget: ${printerInfo.target}\nDevice: ${discovered.deviceName || discovered.name || 'N/A'}\nIP: ${discovered.ipAddress || 'N/A'}\nPort: ${discovered.port || 'N/A'}\nType: ${discovered.ipAddress ? 'WiFi/LAN' : 'Bluetooth'}\n\nPlease check console logs for full error details.\n\nTroubleshooting:\n1. Printer is powered on\n2. Printer is connected (Bluetooth/WiFi)\n3. Printer is in range\n4. For WiFi: printer is on same network\n5. Check console logs for more details`
       );
+    } finally {
+      setIsTestPrinting(false);
     }
   };
 
@@ -775,6 +826,12 @@ export default function SettingsScreen() {
                       {todayCost.tokens.toLocaleString()}
                     </ThemedText>
                   </View>
+                  <View style={styles.costRow}>
+                    <ThemedText style={[styles.description, { fontSize: 14 }]}>Model Fallbacks:</ThemedText>
+                    <ThemedText style={[styles.description, { fontSize: 14, fontWeight: '600' }]}>
+                      {todayCost.fallbacks}
+                    </ThemedText>
+                  </View>
                   <View style={[styles.costRow, { marginTop: 4, paddingTop: 8, borderTopWidth: 1, borderTopColor: Colors[colorScheme ?? 'light'].tint + '30' }]}>
                     <ThemedText style={[styles.description, { fontSize: 16, fontWeight: '700' }]}>Cost:</ThemedText>
                     <ThemedText style={[styles.description, { fontSize: 16, fontWeight: '700', color: Colors[colorScheme ?? 'light'].tint }]}>
@@ -839,6 +896,44 @@ export default function SettingsScreen() {
                 </View>
               </View>
               
+              {/* Extraction Cache */}
+              <View style={[styles.costCard, { backgroundColor: Colors[colorScheme ?? 'light'].tint + '10' }]}>
+                <ThemedText style={[styles.label, { marginBottom: 12, fontSize: 16 }]}>Extraction Cache</ThemedText>
+                <View style={{ gap: 8 }}>
+                  <View style={styles.costRow}>
+                    <ThemedText style={[styles.description, { fontSize: 14 }]}>Cache Hits:</ThemedText>
+                    <ThemedText style={[styles.description, { fontSize: 14, fontWeight: '600' }]}>
+                      {cacheStats.hits}
+                    </ThemedText>
+                  </View>
+                  <View style={styles.costRow}>
+                    <ThemedText style={[styles.description, { fontSize: 14 }]}>Cache Misses:</ThemedText>
+                    <ThemedText style={[styles.description, { fontSize: 14, fontWeight: '600' }]}>
+                      {cacheStats.misses}
+                    </ThemedText>
+                  </View>
+                  <View style={styles.costRow}>
+                    <ThemedText style={[styles.description, { fontSize: 14 }]}>Hit Rate:</ThemedText>
+                    <ThemedText style={[styles.description, { fontSize: 14, fontWeight: '600' }]}>
+                      {cacheStats.hits + cacheStats.misses > 0
+                        ? `${Math.round((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100)}%`
+                        : '-'}
+                    </ThemedText>
+                  </View>
+                  <View style={styles.costRow}>
+                    <ThemedText style={[styles.description, { fontSize: 14 }]}>Cached Receipts:</ThemedText>
+                    <ThemedText style={[styles.description, { fontSize: 14, fontWeight: '600' }]}>
+                      {cacheStats.entries}
+                    </ThemedText>
+                  </View>
+                  <TouchableOpacity onPress={handleClearExtractionCache} style={{ marginTop: 4, alignSelf: 'flex-start' }}>
+                    <ThemedText style={[styles.description, { fontSize: 13, fontWeight: '600', color: Colors[colorScheme ?? 'light'].tint }]}>
+                      Clear Cache
+                    </ThemedText>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
               {/* Clear Button */}
               <TouchableOpacity
                 onPress={handleClearUsageData}
@@ -889,32 +984,169 @@ export default function SettingsScreen() {
         {/* OCR Mode */}
         <View style={styles.card}>
           <ThemedText type="subtitle" style={styles.cardTitle}>OCR Mode</ThemedText>
-          <View style={styles.rowBetween}>
-            <View style={styles.rowLeft}>
-              <IconSymbol 
-                name={ocrMode === 'vision' ? 'text.viewfinder' : 'sparkles'} 
-                size={20} 
-                color={Colors[colorScheme ?? 'light'].tint} 
+          <View style={styles.templateList}>
+            {getReceiptExtractors().map(extractor => (
+              <TouchableOpacity key={extractor.id} style={[styles.templateItem, ocrMode === extractor.id && styles.templateItemActive]} onPress={() => handleOCRModeChange(extractor.id)}>
+                <IconSymbol name={OCR_MODE_ICONS[extractor.id]} size={20} color={ocrMode === extractor.id ? '#fff' : '#0a7ea4'} />
+                <View style={styles.templateText}>
+                  <ThemedText style={[styles.templateName, ocrMode === extractor.id && styles.templateNameActive]}>{extractor.name}</ThemedText>
+                  <ThemedText style={[styles.templateDesc, ocrMode === extractor.id && styles.templateDescActive]}>
+                    {extractor.description}
+                  </ThemedText>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {ocrMode === 'generative' && (
+            <>
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Extraction Attempts</ThemedText>
+              <View style={styles.copiesControl}>
+                <TouchableOpacity
+                  onPress={() => handleChangeExtractionMaxAttempts(-1)}
+                  disabled={extractionMaxAttempts <= 1}
+                  style={[
+                    styles.copiesButton,
+                    { backgroundColor: Colors[colorScheme ?? 'light'].tint + '20' },
+                    extractionMaxAttempts <= 1 && styles.copiesButtonDisabled
+                  ]}
+                >
+                  <IconSymbol 
+                    name="minus" 
+                    size={20} 
+                    color={extractionMaxAttempts <= 1 ? '#999' : Colors[colorScheme ?? 'light'].tint} 
+                  />
+                </TouchableOpacity>
+                <View style={[styles.copiesValue, { backgroundColor: Colors[colorScheme ?? 'light'].tint + '10' }]}>
+                  <ThemedText style={[styles.copiesValueText, { color: Colors[colorScheme ?? 'light'].tint }]}>
+                    {extractionMaxAttempts}
+                  </ThemedText>
+                </View>
+                <TouchableOpacity
+                  onPress={() => handleChangeExtractionMaxAttempts(1)}
+                  disabled={extractionMaxAttempts >= 5}
+                  style={[
+                    styles.copiesButton,
+                    { backgroundColor: Colors[colorScheme ?? 'light'].tint + '20' },
+                    extractionMaxAttempts >= 5 && styles.copiesButtonDisabled
+                  ]}
+                >
+                  <IconSymbol 
+                    name="plus" 
+                    size={20} 
+                    color={extractionMaxAttempts >= 5 ? '#999' : Colors[colorScheme ?? 'light'].tint} 
+                  />
+                </TouchableOpacity>
+              </View>
+              <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>
+                When items don&apos;t add up to the total, ask the AI to re-check up to this many times (1-5). Each attempt is billed.
+              </ThemedText>
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Model Fallback Chain</ThemedText>
+              <TextInput
+                autoCapitalize="none"
+                autoCorrect={false}
+                value={modelChainText}
+                onChangeText={setModelChainText}
+                onBlur={handleSaveModelChain}
+                style={styles.input}
+                placeholder="gemini-1.5-flash, gemini-1.5-pro"
               />
-              <View style={styles.settingText}>
-                <ThemedText style={styles.label}>
-                  {ocrMode === 'vision' ? 'Vision AI' : 'Generative AI'}
-                </ThemedText>
-                <ThemedText style={styles.description}>
-                  {ocrMode === 'vision' 
-                    ? 'Fast text extraction using Vision API'
-                    : 'AI-powered formatting with product modifiers'}
-                </ThemedText>
+              <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>
+                Comma-separated, tried in order. The next model is used when one is rate-limited, blocked, returns invalid data or its totals don&apos;t match.
+              </ThemedText>
+
+              <View style={[styles.rowBetween, { marginTop: 16 }]}>
+                <ThemedText style={styles.label}>Show Items as They Arrive</ThemedText>
+                <Switch value={streamingExtraction} onValueChange={handleToggleStreamingExtraction} />
               </View>
+              <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>
+                Opens the receipt straight after capture and streams items in. Saving and printing wait for the finished result.
+              </ThemedText>
+            </>
+          )}
+
+          {ocrMode === 'openai' && (
+            <>
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Base URL</ThemedText>
+              <TextInput
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                value={openAIConfig.baseUrl}
+                onChangeText={(t) => setOpenAIConfigState({ ...openAIConfig, baseUrl: t })}
+                onBlur={handleSaveOpenAIConfig}
+                style={styles.input}
+                placeholder="http://192.168.1.10:11434/v1"
+              />
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Model</ThemedText>
+              <TextInput
+                autoCapitalize="none"
+                autoCorrect={false}
+                value={openAIConfig.model}
+                onChangeText={(t) => setOpenAIConfigState({ ...openAIConfig, model: t })}
+                onBlur={handleSaveOpenAIConfig}
+                style={styles.input}
+                placeholder="llama3.2-vision"
+              />
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>API Key</ThemedText>
+              <TextInput
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+                value={openAIConfig.apiKey}
+                onChangeText={(t) => setOpenAIConfigState({ ...openAIConfig, apiKey: t })}
+                onBlur={handleSaveOpenAIConfig}
+                style={styles.input}
+                placeholder="Optional for local servers"
+              />
+              <ThemedText style={[styles.description, { marginTop: 4 }]}>
+                Any endpoint implementing /chat/completions with image input (OpenAI, Ollama, llama.cpp server, LM Studio)
+              </ThemedText>
+            </>
+          )}
+        </View>
+
+        {/* Prompt Profile */}
+        {ocrMode !== 'vision' && (
+          <View style={styles.card}>
+            <ThemedText type="subtitle" style={styles.cardTitle}>Receipt Layout</ThemedText>
+            <ThemedText style={[styles.description, { marginBottom: 12 }]}>
+              Pick the prompt that matches your dockets. The prompt version is saved with each receipt.
+            </ThemedText>
+            <View style={styles.templateList}>
+              {getPromptProfiles().map(profile => {
+                const isActive = promptSettings.profileId === profile.id;
+                return (
+                  <TouchableOpacity key={profile.id} style={[styles.templateItem, isActive && styles.templateItemActive]} onPress={() => handleSelectPromptProfile(profile.id)}>
+                    <IconSymbol name="doc.text.fill" size={20} color={isActive ? '#fff' : '#0a7ea4'} />
+                    <View style={styles.templateText}>
+                      <ThemedText style={[styles.templateName, isActive && styles.templateNameActive]}>{profile.name} (v{profile.version})</ThemedText>
+                      <ThemedText style={[styles.templateDesc, isActive && styles.templateDescActive]}>
+                        {profile.description}
+                      </ThemedText>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
             </View>
-            <Switch
-              value={ocrMode === 'generative'}
-              onValueChange={handleOCRModeChange}
-              trackColor={{ false: '#767577', true: Colors[colorScheme ?? 'light'].tint }}
-              thumbColor={ocrMode === 'generative' ? '#fff' : '#f4f3f4'}
+
+            <ThemedText style={[styles.label, { marginTop: 16 }]}>Custom Instructions</ThemedText>
+            <TextInput
+              multiline
+              value={promptSettings.customInstructions}
+              onChangeText={(t) => setPromptSettingsState({ ...promptSettings, customInstructions: t })}
+              onBlur={handleSavePromptInstructions}
+              style={[styles.input, { minHeight: 80, textAlignVertical: 'top' }]}
+              placeholder={'e.g. "Combo" lines are items, not modifiers'}
             />
+            <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>
+              Optional shop-specific notes added to the prompt.
+            </ThemedText>
           </View>
-        </View>
+        )}
 
         {/* Cost Optimization */}
         <View style={styles.card}>
@@ -971,6 +1203,155 @@ export default function SettingsScreen() {
             </>
           )}
           
+          <View style={[styles.rowBetween, { marginTop: 16 }]}>
+            <View style={styles.rowLeft}>
+              <IconSymbol name="crop" size={20} color={Colors[colorScheme ?? 'light'].tint} />
+              <View style={styles.settingText}>
+                <ThemedText style={styles.label}>Receipt Preprocessing</ThemedText>
+                <ThemedText style={styles.description}>
+                  Crop to the receipt edges, straighten it and boost contrast before sending to AI
+                </ThemedText>
+              </View>
+            </View>
+            <Switch
+              value={preprocessingConfig.enabled}
+              onValueChange={(value) => handleSavePreprocessingConfig({ ...preprocessingConfig, enabled: value })}
+              trackColor={{ false: '#767577', true: Colors[colorScheme ?? 'light'].tint }}
+              thumbColor={preprocessingConfig.enabled ? '#fff' : '#f4f3f4'}
+            />
+          </View>
+
+          {preprocessingConfig.enabled && (
+            <>
+              {([
+                ['crop', 'Crop to Receipt Edges'],
+                ['deskew', 'Straighten (Deskew)'],
+                ['enhance', 'Grayscale & Contrast'],
+              ] as const).map(([key, label]) => (
+                <View key={key} style={[styles.rowBetween, { marginTop: 12 }]}>
+                  <ThemedText style={styles.label}>{label}</ThemedText>
+                  <Switch
+                    value={preprocessingConfig[key]}
+                    onValueChange={(value) => handleSavePreprocessingConfig({ ...preprocessingConfig, [key]: value })}
+                    trackColor={{ false: '#767577', true: Colors[colorScheme ?? 'light'].tint }}
+                    thumbColor={preprocessingConfig[key] ? '#fff' : '#f4f3f4'}
+                  />
+                </View>
+              ))}
+
+              <TouchableOpacity
+                onPress={handlePreviewPreprocessing}
+                disabled={preprocessPreviewLoading}
+                style={[
+                  styles.button,
+                  {
+                    backgroundColor: colorScheme === 'dark'
+                      ? 'rgba(255, 255, 255, 0.1)'
+                      : Colors[colorScheme ?? 'light'].tint + '20',
+                    marginTop: 16
+                  }
+                ]}
+              >
+                <IconSymbol name="photo.fill" size={18} color={Colors[colorScheme ?? 'light'].tint} />
+                <ThemedText style={[styles.buttonText, { color: Colors[colorScheme ?? 'light'].tint, marginLeft: 6 }]}>
+                  {preprocessPreviewLoading ? 'Processing…' : 'Preview on a Photo'}
+                </ThemedText>
+              </TouchableOpacity>
+
+              {preprocessPreview && (
+                <View style={{ marginTop: 12 }}>
+                  <View style={styles.rowBetween}>
+                    <View style={styles.previewColumn}>
+                      <ThemedText style={styles.description}>Before</ThemedText>
+                      <Image source={{ uri: preprocessPreview.beforeUri }} style={styles.previewImage} contentFit="contain" />
+                    </View>
+                    <View style={styles.previewColumn}>
+                      <ThemedText style={styles.description}>After</ThemedText>
+                      <Image
+                        source={{ uri: preprocessPreview.result?.uri ?? preprocessPreview.beforeUri }}
+                        style={styles.previewImage}
+                        contentFit="contain"
+                      />
+                    </View>
+                  </View>
+                  <ThemedText style={[styles.description, { marginTop: 8 }]}>
+                    {preprocessPreview.result
+                      ? `${preprocessPreview.result.steps.join(', ') || 'No changes'} · ${(preprocessPreview.result.bytesBefore / 1024).toFixed(0)} KB → ${(preprocessPreview.result.bytesAfter / 1024).toFixed(0)} KB · ~${(preprocessPreview.result.tokensBefore - preprocessPreview.result.tokensAfter).toLocaleString()} tokens saved`
+                      : 'Nothing to change on this photo (or preprocessing needs a development build)'}
+                  </ThemedText>
+                </View>
+              )}
+            </>
+          )}
+
+          <View style={[styles.rowBetween, { marginTop: 16 }]}>
+            <View style={styles.rowLeft}>
+              <IconSymbol name="eye.fill" size={20} color={Colors[colorScheme ?? 'light'].tint} />
+              <View style={styles.settingText}>
+                <ThemedText style={styles.label}>Photo Quality Check</ThemedText>
+                <ThemedText style={styles.description}>
+                  Offer a retake for blurry, dark or distant photos before sending them to AI
+                </ThemedText>
+              </View>
+            </View>
+            <Switch
+              value={imageQualityConfig.enabled}
+              onValueChange={(value) => handleSaveImageQualityConfig({ ...imageQualityConfig, enabled: value })}
+              trackColor={{ false: '#767577', true: Colors[colorScheme ?? 'light'].tint }}
+              thumbColor={imageQualityConfig.enabled ? '#fff' : '#f4f3f4'}
+            />
+          </View>
+
+          {imageQualityConfig.enabled && (
+            <>
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Minimum Sharpness</ThemedText>
+              <TextInput
+                keyboardType="numeric"
+                value={String(imageQualityConfig.minSharpness)}
+                onChangeText={(t) => setImageQualityConfigState({ ...imageQualityConfig, minSharpness: parseFloat(t) || 0 })}
+                onBlur={() => handleSaveImageQualityConfig(imageQualityConfig)}
+                style={styles.input}
+                placeholder={String(DEFAULT_IMAGE_QUALITY_CONFIG.minSharpness)}
+              />
+              <ThemedText style={[styles.description, { marginTop: 4 }]}>
+                Lower accepts blurrier photos (default: {DEFAULT_IMAGE_QUALITY_CONFIG.minSharpness})
+              </ThemedText>
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Brightness Range (0-255)</ThemedText>
+              <View style={styles.rowBetween}>
+                <TextInput
+                  keyboardType="numeric"
+                  value={String(imageQualityConfig.minBrightness)}
+                  onChangeText={(t) => setImageQualityConfigState({ ...imageQualityConfig, minBrightness: parseFloat(t) || 0 })}
+                  onBlur={() => handleSaveImageQualityConfig(imageQualityConfig)}
+                  style={[styles.input, { flex: 1, marginRight: 8 }]}
+                  placeholder={String(DEFAULT_IMAGE_QUALITY_CONFIG.minBrightness)}
+                />
+                <TextInput
+                  keyboardType="numeric"
+                  value={String(imageQualityConfig.maxBrightness)}
+                  onChangeText={(t) => setImageQualityConfigState({ ...imageQualityConfig, maxBrightness: parseFloat(t) || 0 })}
+                  onBlur={() => handleSaveImageQualityConfig(imageQualityConfig)}
+                  style={[styles.input, { flex: 1 }]}
+                  placeholder={String(DEFAULT_IMAGE_QUALITY_CONFIG.maxBrightness)}
+                />
+              </View>
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Minimum Receipt Coverage (%)</ThemedText>
+              <TextInput
+                keyboardType="numeric"
+                value={String(Math.round(imageQualityConfig.minCoverage * 100))}
+                onChangeText={(t) => setImageQualityConfigState({ ...imageQualityConfig, minCoverage: (parseFloat(t) || 0) / 100 })}
+                onBlur={() => handleSaveImageQualityConfig(imageQualityConfig)}
+                style={styles.input}
+                placeholder={String(DEFAULT_IMAGE_QUALITY_CONFIG.minCoverage * 100)}
+              />
+              <ThemedText style={[styles.description, { marginTop: 4 }]}>
+                How much of the photo the receipt must fill (default: {DEFAULT_IMAGE_QUALITY_CONFIG.minCoverage * 100}%)
+              </ThemedText>
+            </>
+          )}
+          
           {/* View Cost Details Button */}
           <TouchableOpacity
             onPress={handleOpenCostModal}
@@ -1016,6 +1397,53 @@ export default function SettingsScreen() {
           />
         </View>
 
+        {/* Tax */}
+        <View style={styles.card}>
+          <ThemedText type="subtitle" style={styles.cardTitle}>Tax</ThemedText>
+          <ThemedText style={styles.label}>Tax label</ThemedText>
+          <TextInput
+            placeholder="GST"
+            value={taxConfig.label}
+            onChangeText={(t) => setTaxConfigState({ ...taxConfig, label: t })}
+            onBlur={() => handleSaveTaxConfig({})}
+            style={styles.input}
+          />
+
+          <ThemedText style={[styles.label, { marginTop: 16 }]}>Rate (%)</ThemedText>
+          <TextInput
+            keyboardType="decimal-pad"
+            value={taxRateText}
+            onChangeText={setTaxRateText}
+            onBlur={() => handleSaveTaxConfig({})}
+            style={styles.input}
+          />
+
+          <View style={[styles.rowBetween, { marginTop: 16 }]}>
+            <View style={styles.settingText}>
+              <ThemedText style={styles.label}>Prices include tax</ThemedText>
+              <ThemedText style={styles.description}>
+                {taxConfig.inclusive
+                  ? `Receipt totals already include ${taxConfig.label}`
+                  : `${taxConfig.label} is added on top of the receipt total`}
+              </ThemedText>
+            </View>
+            <Switch value={taxConfig.inclusive} onValueChange={(value) => handleSaveTaxConfig({ inclusive: value })} />
+          </View>
+
+          <ThemedText style={[styles.label, { marginTop: 16 }]}>Tax-free items</ThemedText>
+          <TextInput
+            autoCapitalize="none"
+            value={taxFreeText}
+            onChangeText={setTaxFreeText}
+            onBlur={() => handleSaveTaxConfig({})}
+            style={styles.input}
+            placeholder="e.g. bread, milk, fresh fish"
+          />
+          <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>
+            Comma-separated. Items whose name contains one of these are not taxed.
+          </ThemedText>
+        </View>
+
         {/* Printing */}
         <View style={styles.card}>
           <ThemedText type="subtitle" style={styles.cardTitle}>Printing</ThemedText>
@@ -1036,6 +1464,39 @@ export default function SettingsScreen() {
             <Switch value={autoSave} onValueChange={handleToggleAutoSave} />
           </View>
 
+          <View style={[styles.rowBetween, { marginTop: 16 }]}>
+            <View style={styles.rowLeft}>
+              <IconSymbol name="doc.on.doc.fill" size={20} color="#0a7ea4" />
+              <View style={styles.settingText}>
+                <ThemedText style={styles.label}>Duplicate Check</ThemedText>
+                <ThemedText style={styles.description}>
+                  Warn before saving a receipt that matches a recent order
+                </ThemedText>
+              </View>
+            </View>
+            <Switch
+              value={duplicateConfig.enabled}
+              onValueChange={(value) => handleSaveDuplicateConfig({ ...duplicateConfig, enabled: value })}
+            />
+          </View>
+
+          {duplicateConfig.enabled && (
+            <>
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Duplicate Window (minutes)</ThemedText>
+              <TextInput
+                keyboardType="numeric"
+                value={String(duplicateConfig.windowMinutes)}
+                onChangeText={(t) => setDuplicateConfigState({ ...duplicateConfig, windowMinutes: parseFloat(t) || 0 })}
+                onBlur={() => handleSaveDuplicateConfig(duplicateConfig)}
+                style={styles.input}
+                placeholder={String(DEFAULT_DUPLICATE_DETECTION_CONFIG.windowMinutes)}
+              />
+              <ThemedText style={[styles.description, { marginTop: 4 }]}>
+                Only orders saved this recently are compared (default: {DEFAULT_DUPLICATE_DETECTION_CONFIG.windowMinutes})
+              </ThemedText>
+            </>
+          )}
+
           <ThemedText style={[styles.label, { marginTop: 16 }]}>Margin (mm)</ThemedText>
           <TextInput
             keyboardType="numeric"
@@ -1083,7 +1544,7 @@ export default function SettingsScreen() {
               />
             </TouchableOpacity>
           </View>
-          <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>Number of copies to print (1-10). Only applies to auto-print. Manual prints always print 1 copy.</ThemedText>
+          <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>Number of copies to print (1-10). Only applies to auto-print. Manual prints always print 1 copy. Kitchen and counter printers use their own copies.</ThemedText>
 
           <ThemedText style={[styles.label, { marginTop: 16 }]}>Printer Type</ThemedText>
           <View style={styles.rowBetween}>
@@ -1117,26 +1578,325 @@ export default function SettingsScreen() {
                 POS Printer
               </ThemedText>
             </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleTogglePrinterType('network')}
+              style={[
+                styles.printerTypeButton,
+                printerType === 'network' && styles.printerTypeButtonActive,
+                { borderColor: Colors[colorScheme ?? 'light'].tint }
+              ]}
+            >
+              <ThemedText style={[
+                styles.printerTypeButtonText,
+                printerType === 'network' && styles.printerTypeButtonTextActive
+              ]}>
+                Network
+              </ThemedText>
+            </TouchableOpacity>
           </View>
-          <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>Choose which printer button to show on receipt page</ThemedText>
+          <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>Choose which printer button to show on receipt page. Network sends ESC/POS directly to a LAN printer (e.g. Xprinter) on port 9100.</ThemedText>
+
+          {printerType === 'network' && (
+            <>
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Printer IP Address</ThemedText>
+              <TextInput
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="numbers-and-punctuation"
+                value={networkPrinterConfig.host}
+                onChangeText={(t) => setNetworkPrinterConfigState({ ...networkPrinterConfig, host: t })}
+                onBlur={() => handleSaveNetworkPrinterConfig(networkPrinterConfig)}
+                style={styles.input}
+                placeholder="192.168.1.100"
+              />
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Port</ThemedText>
+              <TextInput
+                keyboardType="numeric"
+                value={String(networkPrinterConfig.port)}
+                onChangeText={(t) => setNetworkPrinterConfigState({ ...networkPrinterConfig, port: parseInt(t, 10) || 0 })}
+                onBlur={() => handleSaveNetworkPrinterConfig(networkPrinterConfig)}
+                style={styles.input}
+                placeholder={String(DEFAULT_NETWORK_PRINTER_CONFIG.port)}
+              />
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Code Page</ThemedText>
+              <View style={styles.rowBetween}>
+                {CODE_PAGE_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.id}
+                    onPress={() => handleSaveNetworkPrinterConfig({ ...networkPrinterConfig, codePage: option.id })}
+                    style={[
+                      styles.printerTypeButton,
+                      styles.codePageButton,
+                      networkPrinterConfig.codePage === option.id && styles.printerTypeButtonActive,
+                      { borderColor: Colors[colorScheme ?? 'light'].tint }
+                    ]}
+                  >
+                    <ThemedText style={[
+                      styles.printerTypeButtonText,
+                      networkPrinterConfig.codePage === option.id && styles.printerTypeButtonTextActive
+                    ]}>
+                      {option.name}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>Character table set on the printer. Characters it lacks print as &quot;?&quot;.</ThemedText>
+
+              <TouchableOpacity
+                onPress={handleNetworkTestPrint}
+                style={[
+                  styles.button,
+                  {
+                    backgroundColor: colorScheme === 'dark'
+                      ? 'rgba(255, 255, 255, 0.2)'
+                      : Colors[colorScheme ?? 'light'].tint,
+                    marginTop: 12
+                  }
+                ]}
+                disabled={isNetworkTestPrinting}
+              >
+                <IconSymbol
+                  name="printer.fill"
+                  size={18}
+                  color={colorScheme === 'dark' ? Colors[colorScheme ?? 'light'].tint : '#fff'}
+                />
+                <ThemedText
+                  style={[
+                    styles.buttonText,
+                    {
+                      color: colorScheme === 'dark' ? Colors[colorScheme ?? 'light'].tint : '#fff',
+                      marginLeft: 6
+                    }
+                  ]}
+                >
+                  {isNetworkTestPrinting ? 'Printing Test...' : 'Test Network Printer'}
+                </ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+
+          <TouchableOpacity onPress={() => router.push('/print-queue')} style={[styles.rowBetween, { marginTop: 16 }]}>
+            <View style={styles.rowLeft}>
+              <IconSymbol name="clock.arrow.circlepath" size={20} color="#0a7ea4" />
+              <ThemedText style={styles.label}>Print Queue</ThemedText>
+            </View>
+            <ThemedText style={[styles.noteText, { marginBottom: 0, marginRight: 6 }]}>
+              {waitingPrintJobs > 0 ? `${waitingPrintJobs} waiting` : 'All printed'}
+            </ThemedText>
+            <IconSymbol name="chevron.right" size={18} color="#0a7ea4" />
+          </TouchableOpacity>
+        </View>
+
+        {/* Printer Profiles */}
+        <View style={styles.card}>
+          <ThemedText type="subtitle" style={styles.cardTitle}>Kitchen & Counter Printers</ThemedText>
+          <ThemedText style={styles.noteText}>
+            {printerProfiles.length > 0
+              ? 'The print button and auto-print send one ticket to each printer below, using its own template, paper width and copies.'
+              : 'Add printers with a role to print a kitchen ticket and a customer receipt for each order. Without any, the printer type above is used.'}
+          </ThemedText>
+
+          {printerProfiles.map(profile => (
+            <View key={profile.id} style={styles.profileItem}>
+              <View style={styles.profileInfo}>
+                <ThemedText style={styles.profileName}>
+                  {profile.name || profile.target} · {profile.role === 'kitchen' ? 'Kitchen' : 'Counter'}
+                </ThemedText>
+                <ThemedText style={styles.previewHint}>
+                  {profile.connection === 'network' ? `Network ${profile.target}:${profile.port}` : `Epson ${profile.target}`}
+                  {` · ${profile.paperWidth}mm · ${findReceiptTemplate(profile.template, receiptTemplates).name}`}
+                  {profile.copies > 1 ? ` · ${profile.copies} copies` : ''}
+                </ThemedText>
+              </View>
+              <TouchableOpacity onPress={() => handleTestPrinterProfile(profile)} disabled={testingProfileId !== null} style={styles.profileAction}>
+                <IconSymbol name="printer.fill" size={18} color={testingProfileId === profile.id ? '#999' : '#0a7ea4'} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setEditingProfile(profile)} style={styles.profileAction}>
+                <IconSymbol name="gearshape.fill" size={18} color="#0a7ea4" />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDeletePrinterProfile(profile)} style={styles.profileAction}>
+                <IconSymbol name="trash.fill" size={18} color="#DC2626" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          {editingProfile ? (
+            <View style={styles.profileForm}>
+              <ThemedText style={styles.label}>Name</ThemedText>
+              <TextInput
+                value={editingProfile.name}
+                onChangeText={(t) => updateEditingProfile({ name: t })}
+                style={styles.input}
+                placeholder="Kitchen"
+              />
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Role</ThemedText>
+              <View style={styles.rowBetween}>
+                {ROLE_OPTIONS.map(option => renderProfileChoice(option.id, option.name, editingProfile.role === option.id, () => updateEditingProfile({ role: option.id })))}
+              </View>
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Connection</ThemedText>
+              <View style={styles.rowBetween}>
+                {renderProfileChoice('epson', 'Epson', editingProfile.connection === 'epson', () => updateEditingProfile({ connection: 'epson', target: '' }))}
+                {renderProfileChoice('network', 'Network', editingProfile.connection === 'network', () => updateEditingProfile({ connection: 'network', target: '' }))}
+              </View>
+
+              {editingProfile.connection === 'epson' ? (
+                <>
+                  <ThemedText style={[styles.label, { marginTop: 16 }]}>Printer</ThemedText>
+                  {discoveredPrinters && discoveredPrinters.length > 0 && (
+                    <View style={styles.profileChoices}>
+                      {discoveredPrinters.map(p => renderProfileChoice(
+                        p.target,
+                        p.deviceName || p.name || p.target,
+                        editingProfile.target === p.target,
+                        () => updateEditingProfile({ target: p.target })
+                      ))}
+                    </View>
+                  )}
+                  <TextInput
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    value={editingProfile.target}
+                    onChangeText={(t) => updateEditingProfile({ target: t })}
+                    style={[styles.input, { marginTop: 8 }]}
+                    placeholder="BT:00:01:90:xx:xx:xx or TCP:192.168.1.50"
+                  />
+                </>
+              ) : (
+                <>
+                  <ThemedText style={[styles.label, { marginTop: 16 }]}>Printer IP Address</ThemedText>
+                  <TextInput
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="numbers-and-punctuation"
+                    value={editingProfile.target}
+                    onChangeText={(t) => updateEditingProfile({ target: t })}
+                    style={styles.input}
+                    placeholder="192.168.1.100"
+                  />
+
+                  <ThemedText style={[styles.label, { marginTop: 16 }]}>Port</ThemedText>
+                  <TextInput
+                    keyboardType="numeric"
+                    value={String(editingProfile.port)}
+                    onChangeText={(t) => updateEditingProfile({ port: parseInt(t, 10) || 0 })}
+                    style={styles.input}
+                    placeholder={String(DEFAULT_PRINTER_PROFILE.port)}
+                  />
+
+                  <ThemedText style={[styles.label, { marginTop: 16 }]}>Code Page</ThemedText>
+                  <View style={styles.rowBetween}>
+                    {CODE_PAGE_OPTIONS.map(option => renderProfileChoice(option.id, option.name, editingProfile.codePage === option.id, () => updateEditingProfile({ codePage: option.id })))}
+                  </View>
+                </>
+              )}
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Paper Width</ThemedText>
+              <View style={styles.rowBetween}>
+                {PAPER_WIDTH_OPTIONS.map(width => renderProfileChoice(String(width), `${width}mm`, editingProfile.paperWidth === width, () => updateEditingProfile({ paperWidth: width })))}
+              </View>
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Template</ThemedText>
+              <View style={styles.rowBetween}>
+                {receiptTemplates.map(option => renderProfileChoice(option.id, option.name, editingProfile.template === option.id, () => updateEditingProfile({ template: option.id })))}
+              </View>
+
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Copies</ThemedText>
+              <View style={styles.rowBetween}>
+                <TouchableOpacity
+                  onPress={() => updateEditingProfile({ copies: Math.max(1, editingProfile.copies - 1) })}
+                  disabled={editingProfile.copies <= 1}
+                  style={[styles.copiesButton, { backgroundColor: Colors[colorScheme ?? 'light'].tint + '20' }, editingProfile.copies <= 1 && styles.copiesButtonDisabled]}
+                >
+                  <IconSymbol name="minus" size={20} color={editingProfile.copies <= 1 ? '#999' : Colors[colorScheme ?? 'light'].tint} />
+                </TouchableOpacity>
+                <ThemedText style={styles.profileName}>{editingProfile.copies}</ThemedText>
+                <TouchableOpacity
+                  onPress={() => updateEditingProfile({ copies: Math.min(10, editingProfile.copies + 1) })}
+                  disabled={editingProfile.copies >= 10}
+                  style={[styles.copiesButton, { backgroundColor: Colors[colorScheme ?? 'light'].tint + '20' }, editingProfile.copies >= 10 && styles.copiesButtonDisabled]}
+                >
+                  <IconSymbol name="plus" size={20} color={editingProfile.copies >= 10 ? '#999' : Colors[colorScheme ?? 'light'].tint} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={[styles.rowBetween, { marginTop: 16, gap: 8 }]}>
+                <TouchableOpacity onPress={() => setEditingProfile(null)} style={[styles.button, { flex: 1, backgroundColor: Colors[colorScheme ?? 'light'].tint + '20' }]}>
+                  <ThemedText style={[styles.buttonText, { color: Colors[colorScheme ?? 'light'].tint }]}>Cancel</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={handleSavePrinterProfile} style={[styles.button, { flex: 1, backgroundColor: Colors[colorScheme ?? 'light'].tint }]}>
+                  <ThemedText style={[styles.buttonText, { color: '#fff' }]}>Save Printer</ThemedText>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity
+              onPress={handleAddPrinterProfile}
+              style={[styles.button, { backgroundColor: Colors[colorScheme ?? 'light'].tint + '20', marginTop: 8 }]}
+            >
+              <IconSymbol name="plus" size={18} color={Colors[colorScheme ?? 'light'].tint} />
+              <ThemedText style={[styles.buttonText, { color: Colors[colorScheme ?? 'light'].tint, marginLeft: 6 }]}>Add Printer</ThemedText>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Templates */}
         <View style={styles.card}>
           <ThemedText type="subtitle" style={styles.cardTitle}>Template</ThemedText>
           <View style={styles.templateList}>
-            {TEMPLATE_OPTIONS.map(opt => (
+            {receiptTemplates.map(opt => (
               <TouchableOpacity key={opt.id} style={[styles.templateItem, template === opt.id && styles.templateItemActive]} onPress={() => handleSelectTemplate(opt.id)}>
-                <IconSymbol name={opt.icon as any} size={20} color={template === opt.id ? '#fff' : '#0a7ea4'} />
+                <IconSymbol name={(TEMPLATE_ICONS[opt.id] || 'description') as any} size={20} color={template === opt.id ? '#fff' : '#0a7ea4'} />
                 <View style={styles.templateText}>
                   <ThemedText style={[styles.templateName, template === opt.id && styles.templateNameActive]}>{opt.name}</ThemedText>
                   <ThemedText style={[styles.templateDesc, template === opt.id && styles.templateDescActive]}>
-                    {opt.desc}
+                    {opt.description || (isBuiltInTemplate(opt.id) ? '' : 'Custom template')}
                   </ThemedText>
                 </View>
               </TouchableOpacity>
             ))}
           </View>
+
+          {templateJson !== null ? (
+            <>
+              <ThemedText style={[styles.label, { marginTop: 16 }]}>Template JSON</ThemedText>
+              <TextInput
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                value={templateJson}
+                onChangeText={setTemplateJson}
+                style={[styles.input, styles.templateJsonInput]}
+              />
+              <ThemedText style={[styles.previewHint, { marginTop: 4 }]}>
+                Sections print in order. Types: divider, feed, text, shopName, orderNumber, dateTime, customer, paymentStatus, items, adjustments, totals, payments. Each can set align (left, center, right), size (normal, large), bold and if (hasOrderNumber, hasCustomer, isPaid, isUnpaid, hasAdjustments, hasPayments). Text can use {'{shopName}'}, {'{orderNumber}'} and {'{date}'}.
+              </ThemedText>
+              <View style={[styles.rowBetween, { marginTop: 12, gap: 8 }]}>
+                <TouchableOpacity onPress={() => setTemplateJson(null)} style={[styles.button, { flex: 1, backgroundColor: Colors[colorScheme ?? 'light'].tint + '20' }]}>
+                  <ThemedText style={[styles.buttonText, { color: Colors[colorScheme ?? 'light'].tint }]}>Cancel</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={handleSaveTemplate} style={[styles.button, { flex: 1, backgroundColor: Colors[colorScheme ?? 'light'].tint }]}>
+                  <ThemedText style={[styles.buttonText, { color: '#fff' }]}>Save Template</ThemedText>
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <View style={[styles.rowBetween, { marginTop: 12, gap: 8 }]}>
+              <TouchableOpacity onPress={handleEditTemplate} style={[styles.button, { flex: 1, backgroundColor: Colors[colorScheme ?? 'light'].tint + '20' }]}>
+                <ThemedText style={[styles.buttonText, { color: Colors[colorScheme ?? 'light'].tint }]}>
+                  {isBuiltInTemplate(template) ? 'Customize' : 'Edit'}
+                </ThemedText>
+              </TouchableOpacity>
+              {!isBuiltInTemplate(template) && (
+                <TouchableOpacity onPress={handleDeleteTemplate} style={[styles.button, { flex: 1, backgroundColor: '#DC262615' }]}>
+                  <ThemedText style={[styles.buttonText, { color: '#DC2626' }]}>Delete</ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
         </View>
 
         {/* Preview */}
@@ -1438,6 +2198,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  previewColumn: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+  },
+  previewImage: {
+    width: '100%',
+    height: 180,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+  },
   templateList: {
     gap: 10,
   },
@@ -1473,6 +2244,12 @@ const styles = StyleSheet.create({
   templateDescActive: {
     color: 'rgba(255,255,255,0.9)',
   },
+  templateJsonInput: {
+    minHeight: 240,
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    textAlignVertical: 'top',
+  },
   previewContainer: {
     height: 320,
     borderWidth: 1,
@@ -1544,6 +2321,34 @@ const styles = StyleSheet.create({
   printerTypeButtonActive: {
     backgroundColor: '#0a7ea4',
   },
+  codePageButton: {
+    paddingHorizontal: 4,
+  },
+  profileItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(10, 126, 164, 0.15)',
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  profileAction: {
+    padding: 8,
+  },
+  profileForm: {
+    marginTop: 12,
+  },
+  profileChoices: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
   printerTypeButtonText: {
     fontSize: 14,
     fontWeight: '600',
@@ -1601,89 +2406,25 @@ const styles = StyleSheet.create({
   },
 });
 
-function buildPreviewHtml({ shopName, margin, template }: { shopName: string; margin: number; template: PrintTemplateId }): string {
-  const tpl = template || 'classic';
-  // Template styles
-  const sizes = tpl === 'compact' ? { base: 10, title: 14, line: 11 } : tpl === 'kitchen' ? { base: 12, title: 18, line: 14 } : { base: 11, title: 16, line: 13 };
-  const spacing = tpl === 'compact' ? { item: 2, section: 8 } : tpl === 'kitchen' ? { item: 5, section: 12 } : { item: 3, section: 10 };
-
-  const escapeHTML = (str: string): string => {
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#039;');
-  };
+// Sample order shown in the print preview
+const PREVIEW_ORDER_NUMBER = '12345';
+const PREVIEW_ITEMS = [
+  { name: 'FISH & CHIPS', qty: 1, price: 12.5 },
+  { name: 'CALAMARI', qty: 2, price: 9.0 },
+  { name: 'COKE 375ML', qty: 1, price: 3.5 },
+];
 
-  const defaultShopName = 'Pappas Ocean Catch';
-  const safeShop = escapeHTML(shopName || defaultShopName);
-  
-  // Generate current date/time using utility
-  const dateTimeStr = formatDateTime();
-  
-  // Mock order number
-  const mockOrderNumber = '12345';
-
-  const items = [
-    { name: 'FISH & CHIPS', qty: 1, price: 12.5 },
-    { name: 'CALAMARI', qty: 2, price: 9.0 },
-    { name: 'COKE 375ML', qty: 1, price: 3.5 },
-  ];
-  const subtotal = items.reduce((s, i) => s + i.price, 0);
-  const gst = subtotal * (10 / 110);
-  const total = subtotal;
-
-  const itemsHtml = items
-    .map(i => `<div style="display:flex;justify-content:space-between;margin:${spacing.item}px 0;font-size:${sizes.line}px;"><span>${i.qty > 1 ? `<b style=\"color:#0a7ea4\">${i.qty}x</b> ` : ''}${escapeHTML(i.name)}</span><span><b>$${i.price.toFixed(2)}</b></span></div>`) 
-    .join('');
-
-  return `
-  <!DOCTYPE html>
-  <html>
-    <head>
-      <meta charset="utf-8">
-      <style>
-        @page { size: A5 portrait; margin: ${margin}mm; }
-        * { margin:0; padding:0; box-sizing: border-box; }
-        body { font-family: 'Courier New', monospace; padding: ${margin}mm; font-size: ${sizes.base}px; line-height: 1.5; }
-        .receipt-header { text-align:center; margin-bottom: ${spacing.section}px; }
-        .divider { border-top:1px solid #E5E5E5; margin:${spacing.section}px 0; }
-        .shop-name { font-weight:bold; color:#0a7ea4; margin-bottom: 6px; font-size: ${sizes.base + 3}px; }
-        .order-number { font-weight:600; margin-bottom: 6px; font-size: ${sizes.base + 1}px; }
-        .date-time { color:#666; margin: 2px 0; font-size: ${sizes.base - 1}px; }
-        .footer { text-align:center; margin-top:${spacing.section}px; font-size:${sizes.base - 2}px; color:#666; font-style:italic; }
-      </style>
-    </head>
-    <body>
-      <div class="receipt-header">
-        <div class="divider"></div>
-      </div>
-      
-      <div style="text-align: center; margin-bottom: ${spacing.section}px;">
-        <div class="shop-name">${safeShop}</div>
-        <div class="order-number">Order #: ${mockOrderNumber}</div>
-        <div class="date-time">${dateTimeStr}</div>
-        <div class="divider"></div>
-      </div>
-      
-      ${itemsHtml}
-      <div class="divider"></div>
-      <div style="display:flex;justify-content:space-between;margin:${spacing.item}px 0;">
-        <span>Subtotal:</span><span>$${subtotal.toFixed(2)}</span>
-      </div>
-      <div style="display:flex;justify-content:space-between;margin:${spacing.item}px 0;">
-        <span>GST:</span><span>$${gst.toFixed(2)}</span>
-      </div>
-      <div style="display:flex;justify-content:space-between;margin:${spacing.item}px 0;font-weight:bold;">
-        <span>Total:</span><span>$${total.toFixed(2)}</span>
-      </div>
-      <div class="divider"></div>
-      <div class="footer">Thank you for your purchase!</div>
-    </body>
-  </html>`;
+/**
+ * The sample order the print preview fills the template with
+ */
+function getPreviewData(shopName: string, taxConfig: TaxConfig): ReceiptTemplateData {
+  const items = PREVIEW_ITEMS.map(i => ({ name: i.name, quantity: i.qty, price: i.price }));
+  return {
+    receiptData: { items, total: items.reduce((sum, item) => sum + item.price, 0) },
+    receiptLines: null,
+    orderNumber: PREVIEW_ORDER_NUMBER,
+    shopName,
+    isPaid: false,
+    taxConfig,
+  };
 }
-
-
-
-
@@ -1,9 +1,12 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { startOfflineQueueSync } from '@/utils/offlineQueue';
+import { startPrintQueueSync } from '@/utils/printQueue';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -12,6 +15,11 @@ export const unstable_settings = {
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
+  // Extract captures queued while offline as soon as the connection is back
+  useEffect(() => startOfflineQueueSync(), []);
+  // Retry failed print jobs while the app is open
+  useEffect(() => startPrintQueueSync(), []);
+
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
@@ -19,6 +27,9 @@ export default function RootLayout() {
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
         <Stack.Screen name="receipt" options={{ presentation: 'modal', headerShown: false }} />
         <Stack.Screen name="orders" options={{ presentation: 'modal', headerShown: false }} />
+        <Stack.Screen name="batch-import" options={{ presentation: 'modal', headerShown: false }} />
+        <Stack.Screen name="offline-queue" options={{ presentation: 'modal', headerShown: false }} />
+        <Stack.Screen name="print-queue" options={{ presentation: 'modal', headerShown: false }} />
       </Stack>
       <StatusBar style="auto" />
     </ThemeProvider>
@@ -0,0 +1,265 @@
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import {
+  clearFinishedBatchImports,
+  getBatchImportState,
+  retryBatchImportJob,
+  subscribeToBatchImport,
+  type BatchImportJob,
+  type BatchImportState,
+} from '@/utils/batchImport';
+import { Image } from 'expo-image';
+import { useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Platform, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const STATUS_LABELS: Record<BatchImportJob['status'], string> = {
+  pending: 'Waiting',
+  processing: 'Extracting…',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+export default function BatchImportScreen() {
+  const router = useRouter();
+  const [state, setState] = useState<BatchImportState>(getBatchImportState());
+  const insets = useSafeAreaInsets();
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const borderColor = useThemeColor({ light: '#E5E5E5', dark: '#333333' }, 'text');
+  const cardBackground = useThemeColor({ light: '#FFFFFF', dark: '#1C1C1E' }, 'background');
+  const secondaryText = useThemeColor({ light: '#666666', dark: '#999999' }, 'text');
+  const tintColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  useEffect(() => subscribeToBatchImport(setState), []);
+
+  const finished = state.jobs.filter(job => job.status === 'done' || job.status === 'failed').length;
+  const failed = state.jobs.filter(job => job.status === 'failed').length;
+  const progress = state.jobs.length > 0 ? finished / state.jobs.length : 0;
+
+  // Saved orders open like they do from Orders; unsaved results open as a new receipt to review
+  const handleOpenJob = (job: BatchImportJob) => {
+    if (job.status !== 'done' || !job.extractedText) return;
+    router.push({
+      pathname: '/receipt',
+      params: {
+        imageUri: encodeURIComponent(job.uri),
+        extractedText: encodeURIComponent(job.extractedText),
+        extractedDataType: job.extractedDataType || 'text',
+        orderNumber: job.orderNumber?.toString() || '',
+        isPaid: job.isPaid ? 'true' : 'false',
+        ...(job.receiptId ? { receiptId: job.receiptId.toString(), isExistingReceipt: 'true' } : {}),
+      },
+    });
+  };
+
+  const getStatusColor = (job: BatchImportJob): string => {
+    if (job.status === 'failed') return '#DC2626';
+    if (job.status === 'done') return job.totalMismatch ? '#B45309' : '#16A34A';
+    return secondaryText;
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={[
+        styles.header,
+        {
+          backgroundColor,
+          borderBottomColor: borderColor,
+          paddingTop: Platform.OS === 'android' ? Math.max(insets.top + 16, 32) : Math.max(insets.top + 16, 80),
+        }
+      ]}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[styles.backButton, { backgroundColor: tintColor + '20' }]}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <IconSymbol name="chevron.left" size={24} color={tintColor} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>Batch Import</ThemedText>
+        <TouchableOpacity
+          onPress={clearFinishedBatchImports}
+          disabled={finished === 0}
+          style={[styles.backButton, finished === 0 && styles.disabled]}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <IconSymbol name="trash.fill" size={20} color={tintColor} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <View style={[styles.progressCard, { backgroundColor: cardBackground, borderColor }]}>
+          <View style={styles.progressRow}>
+            <ThemedText style={styles.progressLabel}>
+              {state.running ? 'Importing photos…' : state.jobs.length > 0 ? 'Import finished' : 'Nothing to import'}
+            </ThemedText>
+            <ThemedText style={styles.progressValue}>{finished}/{state.jobs.length}</ThemedText>
+          </View>
+          <View style={[styles.progressTrack, { backgroundColor: tintColor + '20' }]}>
+            <View style={[styles.progressFill, { backgroundColor: tintColor, width: `${Math.round(progress * 100)}%` }]} />
+          </View>
+          {failed > 0 && (
+            <ThemedText style={[styles.progressSubtext, { color: '#DC2626' }]}>
+              {failed} photo{failed === 1 ? '' : 's'} failed - tap Retry to try again
+            </ThemedText>
+          )}
+        </View>
+
+        <View style={styles.jobList}>
+          {state.jobs.map(job => (
+            <TouchableOpacity
+              key={job.id}
+              activeOpacity={0.7}
+              disabled={job.status !== 'done'}
+              onPress={() => handleOpenJob(job)}
+              style={[styles.jobCard, { backgroundColor: cardBackground, borderColor }]}
+            >
+              <Image source={{ uri: job.uri }} style={styles.jobImage} contentFit="cover" />
+              <View style={styles.jobInfo}>
+                <ThemedText style={styles.jobTitle}>
+                  {job.orderNumber !== undefined ? `Order #${job.orderNumber}` : 'New order'}
+                </ThemedText>
+                <View style={styles.jobStatusRow}>
+                  {job.status === 'processing' && <ActivityIndicator size="small" color={tintColor} />}
+                  <ThemedText style={[styles.jobStatus, { color: getStatusColor(job) }]}>
+                    {STATUS_LABELS[job.status]}
+                    {job.status === 'done' && job.total !== undefined ? ` · $${job.total.toFixed(2)} · ${job.itemCount ?? 0} items` : ''}
+                    {job.status === 'done' && job.totalMismatch ? ' · totals don’t match' : ''}
+                    {job.status === 'done' && job.receiptId === undefined ? ' · not saved' : ''}
+                  </ThemedText>
+                </View>
+                {job.error && (
+                  <ThemedText style={[styles.jobError, { color: secondaryText }]} numberOfLines={2}>{job.error}</ThemedText>
+                )}
+              </View>
+              {job.status === 'failed' ? (
+                <TouchableOpacity
+                  onPress={() => retryBatchImportJob(job.id)}
+                  style={[styles.retryButton, { backgroundColor: tintColor + '20' }]}
+                >
+                  <ThemedText style={[styles.retryText, { color: tintColor }]}>Retry</ThemedText>
+                </TouchableOpacity>
+              ) : job.status === 'done' ? (
+                <IconSymbol name="chevron.right" size={18} color={secondaryText} />
+              ) : null}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 16,
+  },
+  progressCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 10,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  progressLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  progressValue: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  progressSubtext: {
+    fontSize: 12,
+  },
+  jobList: {
+    gap: 12,
+  },
+  jobCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  jobImage: {
+    width: 48,
+    height: 64,
+    borderRadius: 6,
+  },
+  jobInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  jobTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  jobStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  jobStatus: {
+    fontSize: 13,
+  },
+  jobError: {
+    fontSize: 12,
+  },
+  retryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,279 @@
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import {
+  discardOfflineCapture,
+  getOfflineQueueState,
+  processOfflineCaptureNow,
+  retryOfflineCapture,
+  subscribeToOfflineQueue,
+  type OfflineCapture,
+  type OfflineQueueState,
+} from '@/utils/offlineQueue';
+import { Image } from 'expo-image';
+import { useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const STATUS_LABELS: Record<OfflineCapture['status'], string> = {
+  pending: 'Waiting for connection',
+  processing: 'Extracting…',
+  failed: 'Failed',
+};
+
+export default function OfflineQueueScreen() {
+  const router = useRouter();
+  const [state, setState] = useState<OfflineQueueState>(getOfflineQueueState());
+  const insets = useSafeAreaInsets();
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const borderColor = useThemeColor({ light: '#E5E5E5', dark: '#333333' }, 'text');
+  const cardBackground = useThemeColor({ light: '#FFFFFF', dark: '#1C1C1E' }, 'background');
+  const secondaryText = useThemeColor({ light: '#666666', dark: '#999999' }, 'text');
+  const tintColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  useEffect(() => subscribeToOfflineQueue(setState), []);
+
+  const handleRetry = async (capture: OfflineCapture) => {
+    try {
+      await retryOfflineCapture(capture.id);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to retry capture');
+    }
+  };
+
+  const handleDiscard = (capture: OfflineCapture) => {
+    Alert.alert(
+      'Discard Capture',
+      `Order #${capture.orderNumber} will not be extracted and its photos will be deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => discardOfflineCapture(capture.id) },
+      ]
+    );
+  };
+
+  // Extract now and open the result for review, as if it had just been captured
+  const handleProcessNow = async (capture: OfflineCapture) => {
+    try {
+      const { extractedData, imageUris } = await processOfflineCaptureNow(capture.id);
+      const extractedText = typeof extractedData === 'string' ? extractedData : JSON.stringify(extractedData);
+      router.push({
+        pathname: '/receipt',
+        params: {
+          imageUri: imageUris[0] ? encodeURIComponent(imageUris[0]) : '',
+          ...(capture.isMultiPage ? { imageUris: encodeURIComponent(JSON.stringify(imageUris)) } : {}),
+          extractedText: encodeURIComponent(extractedText || 'No text extracted'),
+          extractedDataType: typeof extractedData === 'string' ? 'text' : 'json',
+          orderNumber: capture.orderNumber.toString(),
+          isPaid: capture.isPaid ? 'true' : 'false',
+        },
+      });
+    } catch (error: any) {
+      Alert.alert('Could Not Process', error?.message || 'Failed to process capture');
+    }
+  };
+
+  const getStatusColor = (capture: OfflineCapture): string => {
+    if (capture.status === 'failed') return '#DC2626';
+    if (capture.status === 'pending') return '#B45309';
+    return secondaryText;
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={[
+        styles.header,
+        {
+          backgroundColor,
+          borderBottomColor: borderColor,
+          paddingTop: Platform.OS === 'android' ? Math.max(insets.top + 16, 32) : Math.max(insets.top + 16, 80),
+        }
+      ]}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[styles.backButton, { backgroundColor: tintColor + '20' }]}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <IconSymbol name="chevron.left" size={24} color={tintColor} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>Pending Captures</ThemedText>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <View style={[styles.infoCard, { backgroundColor: cardBackground, borderColor }]}>
+          <IconSymbol name="icloud.slash" size={22} color={secondaryText} />
+          <ThemedText style={[styles.infoText, { color: secondaryText }]}>
+            {state.captures.length === 0
+              ? 'Nothing waiting. Captures taken while offline show up here.'
+              : state.running
+                ? 'Extracting waiting captures…'
+                : 'These captures were taken while offline. They are extracted and saved as orders automatically when the connection is back.'}
+          </ThemedText>
+        </View>
+
+        <View style={styles.captureList}>
+          {state.captures.map(capture => {
+            const busy = capture.status === 'processing';
+            return (
+              <View key={capture.id} style={[styles.captureCard, { backgroundColor: cardBackground, borderColor }]}>
+                <View style={styles.captureRow}>
+                  <Image source={{ uri: capture.imageUris[0] }} style={styles.captureImage} contentFit="cover" />
+                  <View style={styles.captureInfo}>
+                    <ThemedText style={styles.captureTitle}>Order #{capture.orderNumber}</ThemedText>
+                    <ThemedText style={[styles.captureMeta, { color: secondaryText }]}>
+                      {new Date(capture.createdAt).toLocaleString()}
+                      {capture.imageUris.length > 1 ? ` · ${capture.imageUris.length} pages` : ''}
+                      {capture.isPaid ? ' · Paid' : ''}
+                    </ThemedText>
+                    <View style={styles.captureStatusRow}>
+                      {busy && <ActivityIndicator size="small" color={tintColor} />}
+                      <ThemedText style={[styles.captureStatus, { color: getStatusColor(capture) }]}>
+                        {STATUS_LABELS[capture.status]}
+                        {capture.attempts > 0 ? ` · ${capture.attempts} attempt${capture.attempts === 1 ? '' : 's'}` : ''}
+                      </ThemedText>
+                    </View>
+                    {capture.lastError && (
+                      <ThemedText style={[styles.captureError, { color: secondaryText }]} numberOfLines={2}>
+                        {capture.lastError}
+                      </ThemedText>
+                    )}
+                  </View>
+                </View>
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    onPress={() => handleDiscard(capture)}
+                    disabled={busy}
+                    style={[styles.actionButton, { backgroundColor: '#DC262615' }, busy && styles.disabled]}
+                  >
+                    <ThemedText style={[styles.actionText, { color: '#DC2626' }]}>Discard</ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleRetry(capture)}
+                    disabled={busy || state.running}
+                    style={[styles.actionButton, { backgroundColor: tintColor + '20' }, (busy || state.running) && styles.disabled]}
+                  >
+                    <ThemedText style={[styles.actionText, { color: tintColor }]}>Retry</ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleProcessNow(capture)}
+                    disabled={busy}
+                    style={[styles.actionButton, { backgroundColor: tintColor }, busy && styles.disabled]}
+                  >
+                    <ThemedText style={[styles.actionText, { color: '#fff' }]}>Process Now</ThemedText>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 16,
+  },
+  infoCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  captureList: {
+    gap: 12,
+  },
+  captureCard: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 12,
+  },
+  captureRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  captureImage: {
+    width: 48,
+    height: 64,
+    borderRadius: 6,
+  },
+  captureInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  captureTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  captureMeta: {
+    fontSize: 12,
+  },
+  captureStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  captureStatus: {
+    fontSize: 13,
+  },
+  captureError: {
+    fontSize: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -4,6 +4,8 @@ import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useThemeColor } from '@/hooks/use-theme-color';
 import { getAvailableDates, getLocalDateString, getReceiptsByDate, initDatabase, updateReceiptPaymentStatus, type ReceiptRecord } from '@/utils/database';
+import { calculateTotals } from '@/utils/printer';
+import { DEFAULT_TAX_CONFIG, getTaxConfig, type TaxConfig } from '@/utils/settings';
 import { useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { Alert, Platform, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
@@ -26,6 +28,7 @@ export default function OrdersScreen() {
   const [loading, setLoading] = useState(true);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [datePickerValue, setDatePickerValue] = useState(new Date());
+  const [taxConfig, setTaxConfig] = useState<TaxConfig>(DEFAULT_TAX_CONFIG);
   const insets = useSafeAreaInsets();
 
   const backgroundColor = useThemeColor({}, 'background');
@@ -39,6 +42,7 @@ export default function OrdersScreen() {
     const load = async () => {
       try {
         await initDatabase();
+        setTaxConfig(await getTaxConfig());
         const dates = await getAvailableDates();
         setAvailableDates(dates);
         if (dates.length > 0 && !dates.includes(selectedDate)) {
@@ -167,6 +171,11 @@ export default function OrdersScreen() {
   };
 
   const totalNetSales = receipts.reduce((sum, receipt) => sum + receipt.total_price, 0);
+  // Receipts saved before tax settings existed have no tax_amount; back-calculate it from the
+  // (tax-inclusive) total using the current rate
+  const totalTax = receipts.reduce((sum, receipt) => (
+    sum + (receipt.tax_amount ?? calculateTotals(receipt.total_price, { ...taxConfig, inclusive: true }).tax)
+  ), 0);
 
   return (
     <ThemedView style={styles.container}>
@@ -254,7 +263,7 @@ export default function OrdersScreen() {
               </ThemedText>
             </View>
             <ThemedText style={[styles.statsSubtext, { color: secondaryText }]}>
-              {receipts.length} {receipts.length === 1 ? 'order' : 'orders'}
+              {receipts.length} {receipts.length === 1 ? 'order' : 'orders'} · incl. ${totalTax.toFixed(2)} {taxConfig.label}
             </ThemedText>
           </View>
         )}
@@ -0,0 +1,287 @@
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { getPrintErrorMessage } from '@/utils/printer';
+import {
+  cancelPrintJob,
+  getPrintQueueState,
+  reprintJob,
+  subscribeToPrintQueue,
+  type PrintQueueJob,
+  type PrintQueueState,
+} from '@/utils/printQueue';
+import { useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const STATUS_LABELS: Record<PrintQueueJob['status'], string> = {
+  pending: 'Waiting to retry',
+  printing: 'Printing…',
+  failed: 'Failed',
+  completed: 'Printed',
+  cancelled: 'Cancelled',
+};
+
+const SECTIONS: { title: string; statuses: PrintQueueJob['status'][] }[] = [
+  { title: 'Pending', statuses: ['printing', 'pending'] },
+  { title: 'Failed', statuses: ['failed'] },
+  { title: 'History', statuses: ['completed', 'cancelled'] },
+];
+
+export default function PrintQueueScreen() {
+  const router = useRouter();
+  const [state, setState] = useState<PrintQueueState>(getPrintQueueState());
+  const insets = useSafeAreaInsets();
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const borderColor = useThemeColor({ light: '#E5E5E5', dark: '#333333' }, 'text');
+  const cardBackground = useThemeColor({ light: '#FFFFFF', dark: '#1C1C1E' }, 'background');
+  const secondaryText = useThemeColor({ light: '#666666', dark: '#999999' }, 'text');
+  const tintColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
+
+  useEffect(() => subscribeToPrintQueue(setState), []);
+
+  const handleReprint = async (job: PrintQueueJob) => {
+    try {
+      await reprintJob(job.id);
+    } catch (error: any) {
+      Alert.alert('Print Failed', `${getPrintErrorMessage(error)}\n\nThe ticket stays in the queue and will be retried automatically.`);
+    }
+  };
+
+  const handleCancel = (job: PrintQueueJob) => {
+    Alert.alert(
+      'Cancel Print Job',
+      `${job.orderNumber ? `Order #${job.orderNumber}` : 'This ticket'} will not be printed on ${job.printerName}.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Cancel Job', style: 'destructive', onPress: () => cancelPrintJob(job.id) },
+      ]
+    );
+  };
+
+  const getStatusColor = (job: PrintQueueJob): string => {
+    if (job.status === 'failed') return '#DC2626';
+    if (job.status === 'pending') return '#B45309';
+    if (job.status === 'completed') return '#16A34A';
+    return secondaryText;
+  };
+
+  const getStatusText = (job: PrintQueueJob): string => {
+    let text = STATUS_LABELS[job.status];
+    if (job.status === 'pending' && job.nextAttemptAt && job.nextAttemptAt > Date.now()) {
+      text += ` · next try ${new Date(job.nextAttemptAt).toLocaleTimeString()}`;
+    }
+    if (job.copiesPrinted && job.status !== 'completed') {
+      text += ` · ${job.copiesPrinted} of ${job.copies} copies printed`;
+    }
+    if (job.attempts > 1 || job.status === 'failed') {
+      text += ` · ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}`;
+    }
+    return text;
+  };
+
+  const waitingCount = state.jobs.filter(job => job.status === 'pending' || job.status === 'failed').length;
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={[
+        styles.header,
+        {
+          backgroundColor,
+          borderBottomColor: borderColor,
+          paddingTop: Platform.OS === 'android' ? Math.max(insets.top + 16, 32) : Math.max(insets.top + 16, 80),
+        }
+      ]}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[styles.backButton, { backgroundColor: tintColor + '20' }]}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <IconSymbol name="chevron.left" size={24} color={tintColor} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>Print Queue</ThemedText>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <View style={[styles.infoCard, { backgroundColor: cardBackground, borderColor }]}>
+          <IconSymbol name="printer.fill" size={22} color={secondaryText} />
+          <ThemedText style={[styles.infoText, { color: secondaryText }]}>
+            {state.jobs.length === 0
+              ? 'Nothing printed yet. Tickets sent to POS and network printers show up here.'
+              : state.running
+                ? 'Retrying waiting tickets…'
+                : waitingCount > 0
+                  ? 'Tickets that failed to print are retried automatically when their printer is found again. Tickets that keep failing wait here for a reprint.'
+                  : 'All tickets printed.'}
+          </ThemedText>
+        </View>
+
+        {SECTIONS.map(section => {
+          const jobs = state.jobs.filter(job => section.statuses.includes(job.status));
+          if (jobs.length === 0) return null;
+          return (
+            <View key={section.title} style={styles.jobList}>
+              <ThemedText style={[styles.sectionTitle, { color: secondaryText }]}>
+                {section.title} ({jobs.length})
+              </ThemedText>
+              {jobs.map(job => {
+                const busy = job.status === 'printing';
+                const canCancel = job.status === 'pending' || job.status === 'failed';
+                return (
+                  <View key={job.id} style={[styles.jobCard, { backgroundColor: cardBackground, borderColor }]}>
+                    <View style={styles.jobInfo}>
+                      <ThemedText style={styles.jobTitle}>
+                        {job.orderNumber ? `Order #${job.orderNumber}` : 'Receipt'}
+                      </ThemedText>
+                      <ThemedText style={[styles.jobMeta, { color: secondaryText }]}>
+                        {job.printerName}
+                        {job.printerType === 'network' ? ' · Network' : ' · Epson'}
+                        {job.role ? ` · ${job.role === 'kitchen' ? 'Kitchen' : 'Counter'}` : ''}
+                        {job.copies > 1 ? ` · ${job.copies} copies` : ''}
+                        {` · ${job.template}`}
+                      </ThemedText>
+                      <ThemedText style={[styles.jobMeta, { color: secondaryText }]}>
+                        {new Date(job.createdAt).toLocaleString()}
+                      </ThemedText>
+                      <View style={styles.jobStatusRow}>
+                        {busy && <ActivityIndicator size="small" color={tintColor} />}
+                        <ThemedText style={[styles.jobStatus, { color: getStatusColor(job) }]}>
+                          {getStatusText(job)}
+                        </ThemedText>
+                      </View>
+                      {job.lastError && job.status !== 'completed' && (
+                        <ThemedText style={[styles.jobError, { color: secondaryText }]} numberOfLines={2}>
+                          {job.lastError}
+                        </ThemedText>
+                      )}
+                    </View>
+                    <View style={styles.actions}>
+                      {canCancel && (
+                        <TouchableOpacity
+                          onPress={() => handleCancel(job)}
+                          style={[styles.actionButton, { backgroundColor: '#DC262615' }]}
+                        >
+                          <ThemedText style={[styles.actionText, { color: '#DC2626' }]}>Cancel</ThemedText>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        onPress={() => handleReprint(job)}
+                        disabled={busy || state.running}
+                        style={[styles.actionButton, { backgroundColor: tintColor }, (busy || state.running) && styles.disabled]}
+                      >
+                        <ThemedText style={[styles.actionText, { color: '#fff' }]}>
+                          {job.status === 'pending' ? 'Retry Now' : 'Reprint'}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          );
+        })}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 16,
+  },
+  infoCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  jobList: {
+    gap: 12,
+  },
+  jobCard: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 12,
+  },
+  jobInfo: {
+    gap: 2,
+  },
+  jobTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  jobMeta: {
+    fontSize: 12,
+  },
+  jobStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  jobStatus: {
+    fontSize: 13,
+  },
+  jobError: {
+    fontSize: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
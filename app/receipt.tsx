@@ -1,25 +1,51 @@
+import { ReceiptImageRegions } from '@/components/receipt-image-regions';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useThemeColor } from '@/hooks/use-theme-color';
 import { getLocalDateString, getReceiptById, initDatabase, saveReceipt, updateReceiptPaymentStatus } from '@/utils/database';
-import { ReceiptData } from '@/utils/ocr';
-import { calculateTotals, formatDateTime, printReceiptAsText } from '@/utils/printer';
-import { getAutoPrinter, getAutoSave, getEpsonPrinterMac, getPrintCopies, getPrintMargin, getPrintTemplate, getPrinterType, getShopName, type PrintTemplateId } from '@/utils/settings';
+import { computeImageHash, findDuplicateReceipts, type DuplicateCandidate } from '@/utils/duplicateDetection';
+import { extractTextFromImageWithMode, getReceiptItemsTotal, LOW_CONFIDENCE_THRESHOLD, ReceiptData, RECEIPT_TOTAL_TOLERANCE, undoReceiptMerge, upgradeReceiptData } from '@/utils/ocr';
+import { buildTestPageCommands, calculateTotals, createEpsonDriver, createSystemDriver, formatDateTime, formatModifierLabel, formatModifierPrice, formatSignedAmount, getPrintErrorMessage, isEpsonAvailable, isPrintCancellation, PrintJobError, PrinterUnavailableError, resolveEpsonPrinter, runPrintJob, type DiscoveredPrinter, type PrintDocument } from '@/utils/printer';
+import { reportDiscoveredPrinters, submitPrintJob, type QueuedPrinterType } from '@/utils/printQueue';
+import { buildReceiptCommands, buildReceiptHtml, findReceiptTemplate, getReceiptTemplates, SCREEN_VIEW_TEMPLATE_ID, type ReceiptTemplate, type ReceiptTemplateData } from '@/utils/receiptTemplate';
+import { DEFAULT_TAX_CONFIG, getAutoPrinter, getAutoSave, getDuplicateDetectionConfig, getOCRMode, getPrintCopies, getPrintMargin, getPrintTemplate, getNetworkPrinterConfig, getPrinterProfiles, getPrinterType, getShopName, getTaxConfig, type PrinterProfile, type PrinterType, type PrintTemplateId, type TaxConfig } from '@/utils/settings';
+import { getStreamingExtractionState, releaseStreamingExtraction, subscribeToStreamingExtraction } from '@/utils/streamingExtraction';
 import { Image } from 'expo-image';
-import * as Print from 'expo-print';
+import { File } from 'expo-file-system';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { Alert, Platform, ScrollView, StyleSheet, TouchableOpacity, View, findNodeHandle } from 'react-native';
+import { ActivityIndicator, Alert, Platform, ScrollView, StyleSheet, TouchableOpacity, View, findNodeHandle } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 export default function ReceiptScreen() {
   const params = useLocalSearchParams();
   const router = useRouter();
   const imageUri = params.imageUri ? decodeURIComponent(params.imageUri as string) : null;
-  const extractedText = params.extractedText ? decodeURIComponent(params.extractedText as string) : '';
-  const extractedDataType = params.extractedDataType as 'json' | 'text' | undefined;
-  const orderNumber = params.orderNumber ? params.orderNumber as string : null;
+  const imageUris: string[] = (() => {
+    try {
+      return params.imageUris ? JSON.parse(decodeURIComponent(params.imageUris as string)) : [];
+    } catch {
+      return [];
+    }
+  })();
+  // Opened straight from the camera: the extraction streams in while the screen is shown
+  const streamId = typeof params.streamId === 'string' ? params.streamId : null;
+  const [stream, setStream] = useState(() => (streamId ? getStreamingExtractionState(streamId) : undefined));
+  const isStreaming = stream?.status === 'streaming';
+  const streamedResult = stream?.status === 'done' ? stream.result : undefined;
+  const extractedText = streamedResult !== undefined
+    ? (typeof streamedResult === 'string' ? streamedResult : JSON.stringify(streamedResult)) || 'No text extracted'
+    : stream
+      ? ''
+      : params.extractedText ? decodeURIComponent(params.extractedText as string) : '';
+  const extractedDataType = streamedResult !== undefined
+    ? (typeof streamedResult === 'string' ? 'text' : 'json')
+    : params.extractedDataType as 'json' | 'text' | undefined;
+  // Streamed captures get their order number when extraction finishes
+  const orderNumber = params.orderNumber
+    ? params.orderNumber as string
+    : stream?.orderNumber !== undefined ? String(stream.orderNumber) : null;
   const receiptId = params.receiptId ? Number(params.receiptId) : null;
   const isExistingReceipt = params.isExistingReceipt === 'true' || (Array.isArray(params.isExistingReceipt) && params.isExistingReceipt[0] === 'true');
   const initialPaidStatus = params.isPaid === 'true' || (Array.isArray(params.isPaid) && params.isPaid[0] === 'true');
@@ -35,7 +61,6 @@ export default function ReceiptScreen() {
   // Optional discovery hook wrapper: use library hook when available, else no-op
   let useDiscovery: () => { start: (params?: any) => void; isDiscovering: boolean; printers: any[] };
   let DiscoveryPortType: any = null;
-  let PrinterConstants: any = null;
   let moduleAvailable = false;
   try {
     // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -48,10 +73,6 @@ export default function ReceiptScreen() {
       } else if (mod.DiscoveryFilterOption) {
         DiscoveryPortType = mod.DiscoveryFilterOption;
       }
-      // Get PrinterConstants for alignment constants
-      if (mod.PrinterConstants) {
-        PrinterConstants = mod.PrinterConstants;
-      }
       moduleAvailable = true;
       console.log('Epson module loaded successfully');
     } else {
@@ -70,13 +91,31 @@ export default function ReceiptScreen() {
       console.log('Epson discovery status:', { isDiscovering, printerCount: printers?.length || 0 });
     }
   }, [isDiscovering, printers, moduleAvailable]);
+
+  // Retry queued tickets for printers that show up again
+  useEffect(() => {
+    reportDiscoveredPrinters(printers);
+  }, [printers]);
   const [isSaving, setIsSaving] = useState(false);
   const [isSaved, setIsSaved] = useState(isExistingReceipt);
+  const [savedReceiptId, setSavedReceiptId] = useState<number | null>(receiptId);
   const [shopName, setShopName] = useState<string>('');
   const [printMargin, setPrintMargin] = useState<number>(8);
   const [template, setTemplate] = useState<PrintTemplateId>('classic');
-  const [printerType, setPrinterType] = useState<'system' | 'pos'>('pos');
+  const [receiptTemplates, setReceiptTemplates] = useState<ReceiptTemplate[]>([]);
+  const [taxConfig, setTaxConfig] = useState<TaxConfig>(DEFAULT_TAX_CONFIG);
+  const [printerType, setPrinterType] = useState<PrinterType>('pos');
+  const [printerProfiles, setPrinterProfiles] = useState<PrinterProfile[]>([]);
   const [showImage, setShowImage] = useState(false);
+  const [focusedItemIndex, setFocusedItemIndex] = useState<number | null>(null);
+  const [imagePage, setImagePage] = useState(0);
+  const [undoneMergeIds, setUndoneMergeIds] = useState<string[]>([]);
+  const [isReExtracting, setIsReExtracting] = useState(false);
+  const [imageHash, setImageHash] = useState<string | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[]>([]);
+  const [duplicateCheckDone, setDuplicateCheckDone] = useState(isExistingReceipt);
+  const [duplicateDismissed, setDuplicateDismissed] = useState(false);
+  const scrollViewRef = useRef<ScrollView>(null);
   const [isPaid, setIsPaid] = useState(initialPaidStatus);
   const insets = useSafeAreaInsets();
 
@@ -89,20 +128,52 @@ export default function ReceiptScreen() {
   const tertiaryText = useThemeColor({ light: '#333333', dark: '#CCCCCC' }, 'text');
   const tintColor = useThemeColor({ light: '#007AFF', dark: '#0A84FF' }, 'tint');
 
+  // Follow the streaming extraction; leaving the screen cancels it if it is still running
+  useEffect(() => {
+    if (!streamId) return;
+    setStream(getStreamingExtractionState(streamId));
+    const unsubscribe = subscribeToStreamingExtraction(streamId, setStream);
+    return () => {
+      unsubscribe();
+      releaseStreamingExtraction(streamId);
+    };
+  }, [streamId]);
+
+  // Nothing to review when the extraction could not finish here
+  useEffect(() => {
+    if (stream?.status === 'queued') {
+      Alert.alert(
+        'Saved for Later',
+        `You're offline. Order #${orderNumber} was saved and will be extracted when the connection is back.`
+      );
+      router.back();
+    } else if (stream?.status === 'failed') {
+      Alert.alert('Error', stream.error || 'Failed to process image');
+      router.back();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stream?.status]);
+
   // Load printing preferences and initialize database
   useEffect(() => {
     const loadPrefs = async () => {
       try {
-        const [name, margin, tpl, printerTypeValue] = await Promise.all([
+        const [name, margin, tpl, templates, printerTypeValue, profiles, tax] = await Promise.all([
           getShopName(),
           getPrintMargin(),
           getPrintTemplate(),
+          getReceiptTemplates(),
           getPrinterType(),
+          getPrinterProfiles(),
+          getTaxConfig(),
         ]);
         setShopName(name);
         setPrintMargin(margin);
         setTemplate(tpl);
+        setReceiptTemplates(templates);
         setPrinterType(printerTypeValue);
+        setPrinterProfiles(profiles);
+        setTaxConfig(tax);
         
         // Initialize database
         await initDatabase();
@@ -146,377 +217,200 @@ export default function ReceiptScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const handleEpsonPrint = async (isAutoPrint: boolean = false) => {
-    let target: string | null = null;
-    let deviceName: string = 'Printer';
-    let step = 'initialization';
-    
+  const showNoPrintersAlert = () => {
+    Alert.alert(
+      'No Printers Found',
+      'No printers were discovered. Make sure:\n\n1. Bluetooth/WiFi is enabled on your device\n2. The printer is powered on\n3. For Bluetooth: printer is in pairing/discovery mode and within range\n4. For WiFi/LAN: printer is on the same network\n\nDiscovery runs automatically in the background.'
+    );
+  };
+
+  // Explain a failed Epson job with the step it failed at and what is known about the printer
+  const showPrintFailure = (title: string, error: any, printerInfo: DiscoveredPrinter, queued: boolean = false) => {
+    if (error instanceof PrinterUnavailableError) {
+      Alert.alert(
+        'Printer Module Not Found', 
+        'The Epson printer module is not included in this build. Make sure you:\n\n1. Installed react-native-esc-pos-printer\n2. Rebuilt the app with npx expo run:android\n3. Not using Expo Go (use a development build)'
+      );
+      return;
+    }
+
+    const step = error instanceof PrintJobError ? error.step : 'initialization';
+    const originalError = error instanceof PrintJobError ? error.originalError : error;
+    // Try to get native error details
+    let nativeErrorDetails = '';
     try {
-      // Step 1: Get saved default printer first, then fall back to discovered printers
-      step = 'finding printer';
-      console.log(`[RECEIPT PRINT] Step: ${step}`);
-      const savedPrinterMac = await getEpsonPrinterMac();
-      
-      // Prefer saved default printer if available
-      if (savedPrinterMac) {
-        // Check if saved printer is in the discovered list
-        const savedPrinter = printers?.find(p => p.target === savedPrinterMac);
-        if (savedPrinter) {
-          target = savedPrinterMac;
-          deviceName = savedPrinter.deviceName || savedPrinter.name || 'Printer';
-          console.log(`[RECEIPT PRINT] Using saved default printer: ${deviceName} (target: ${target})`);
-        } else {
-          // Saved printer not found in discovery, but try to use it anyway
-          target = savedPrinterMac;
-          deviceName = 'Printer';
-          console.log(`[RECEIPT PRINT] Using saved default printer (not in discovery list): ${target}`);
-        }
+      if (originalError?.nativeError) {
+        nativeErrorDetails = `\nNative Error: ${JSON.stringify(originalError.nativeError)}`;
       }
-      
-      // Fall back to first discovered printer if no default is set
-      if (!target && printers && printers.length > 0) {
-        target = printers[0]?.target;
-        deviceName = printers[0]?.deviceName || printers[0]?.name || 'Printer';
-        console.log(`[RECEIPT PRINT] Using first discovered printer: ${deviceName} (target: ${target})`);
-      }
-      
-      if (!target) {
-        console.error('[RECEIPT PRINT] No printer target found');
-        Alert.alert(
-          'No Printers Found',
-          'No printers were discovered. Make sure:\n\n1. Bluetooth/WiFi is enabled on your device\n2. The printer is powered on\n3. For Bluetooth: printer is in pairing/discovery mode and within range\n4. For WiFi/LAN: printer is on the same network\n\nDiscovery runs automatically in the background.'
-        );
-        return;
+      if (originalError?.userInfo) {
+        nativeErrorDetails += `\nUser Info: ${JSON.stringify(originalError.userInfo)}`;
       }
+    } catch (e) {
+      // ignore
+    }
 
-      // Step 2: Try to load the module
-      step = 'loading printer module';
-      console.log(`[RECEIPT PRINT] Step: ${step}`);
-      let Printer: any = null;
-      let PrinterConstants: any = null;
-      try {
-        const mod: any = await import('react-native-esc-pos-printer').catch(() => null);
-        Printer = mod?.Printer;
-        PrinterConstants = mod?.PrinterConstants;
-        console.log(`[RECEIPT PRINT] Module loaded: Printer=${!!Printer}, PrinterConstants=${!!PrinterConstants}`);
-      } catch (e) {
-        console.error('[RECEIPT PRINT] Failed to import Epson module:', e);
-      }
+    const discovered = printers?.find(p => p.target === printerInfo.target) || printerInfo;
+    const errorDevice = discovered.deviceName || discovered.name || 'N/A';
+    const errorType = discovered.ipAddress ? 'WiFi/LAN' : 'Bluetooth';
+    Alert.alert(
+      title, 
+      `Failed at step: ${step}\n\nError: ${getPrintErrorMessage(originalError)}${nativeErrorDetails}\n\nDebug Info:\nTarget: ${printerInfo.target || 'N/A'}\nDevice: ${errorDevice}\nIP: ${discovered.ipAddress || 'N/A'}\nPort: ${discovered.port || 'N/A'}\nType: ${errorType}\n\n${queued ? 'The ticket is in the print queue and will be retried when the printer is found again.\n\n' : ''}Please check console logs for full error details.\n\nTroubleshooting:\n1. Printer is powered on\n2. Printer is connected (Bluetooth/WiFi)\n3. Printer is in range\n4. For WiFi: printer is on same network\n5. View is rendered (try scrolling or waiting a moment)\n6. Check console logs for more details`
+    );
+  };
 
-      if (!Printer) {
-        console.error('[RECEIPT PRINT] Printer module not found');
-        Alert.alert(
-          'Printer Module Not Found', 
-          'The Epson printer module is not included in this build. Make sure you:\n\n1. Installed react-native-esc-pos-printer\n2. Rebuilt the app with npx expo run:android\n3. Not using Expo Go (use a development build)'
-        );
-        return;
-      }
+  // What the receipt templates are filled with
+  const getTemplateData = (): ReceiptTemplateData => ({
+    receiptData,
+    receiptLines: filteredReceiptLines,
+    orderNumber,
+    shopName,
+    isPaid,
+    taxConfig,
+  });
 
-      // Step 3: Get view tag
-      step = 'getting view tag';
-      console.log(`[RECEIPT PRINT] Step: ${step}`);
-      const viewTag = findNodeHandle(printViewRef.current);
-      if (!viewTag) {
-        console.error('[RECEIPT PRINT] View tag not found - printable view not ready');
-        Alert.alert('Printer', 'Printable view not ready. Please wait a moment and try again.');
-        return;
-      }
-      console.log(`[RECEIPT PRINT] View tag obtained: ${viewTag}`);
+  // The printable view only matches one template; the others print from their own text commands
+  const printsScreenView = template === SCREEN_VIEW_TEMPLATE_ID;
 
-      setIsEpsonPrinting(true);
-      const printerInfo = printers?.find(p => p.target === target);
-      const printerDeviceName = printerInfo?.deviceName || printerInfo?.name || deviceName;
-      
-      // Ensure deviceName is a valid non-empty string
-      const validDeviceName = printerDeviceName && printerDeviceName.trim() !== '' ? printerDeviceName.trim() : 'Printer';
-      console.log(`[RECEIPT PRINT] Starting print to printer: ${validDeviceName} (target: ${target})`);
-      console.log('[RECEIPT PRINT] Full printer info:', JSON.stringify(printerInfo, null, 2));
-      
-      // Validate target
-      if (!target || target.trim() === '') {
-        throw new Error('Invalid printer target');
-      }
-      
+  // The receipt as the printers receive it: the rendered view when it matches the template,
+  // with plain text for printers that reject images
+  const getPrintDocument = (viewTag: number | null): PrintDocument => ({
+    commands: buildReceiptCommands(findReceiptTemplate(template, receiptTemplates), getTemplateData()),
+    viewTag: printsScreenView ? viewTag : null,
+  });
+
+  // Print through the print queue, so a failed ticket is kept and retried
+  const submitReceiptPrint = (type: QueuedPrinterType, printerTarget: string, printerName: string, document: PrintDocument, copies: number) => (
+    submitPrintJob({ receiptId: savedReceiptId, orderNumber, printerType: type, printerTarget, printerName, template, copies }, document)
+  );
+
+  const handleEpsonPrint = async (isAutoPrint: boolean = false) => {
+    const printerInfo = await resolveEpsonPrinter(printers);
+    if (!printerInfo) {
+      console.error('[RECEIPT PRINT] No printer target found');
+      showNoPrintersAlert();
+      return;
+    }
+
+    const viewTag = findNodeHandle(printViewRef.current);
+    if (!viewTag && printsScreenView) {
+      console.error('[RECEIPT PRINT] View tag not found - printable view not ready');
+      Alert.alert('Printer', 'Printable view not ready. Please wait a moment and try again.');
+      return;
+    }
+
+    setIsEpsonPrinting(true);
+    try {
       // Get number of copies to print (only for auto-print, manual always prints 1 copy)
       const printCopies = isAutoPrint ? await getPrintCopies() : 1;
-      console.log(`[RECEIPT PRINT] Printing ${printCopies} copy/copies (${isAutoPrint ? 'auto-print' : 'manual'})`);
-      
-      // Step 4: Create printer instance
-      step = 'creating printer instance';
-      console.log(`[RECEIPT PRINT] Step: ${step}`);
-      const printer = new Printer({
-        target: target.trim(),
-        deviceName: validDeviceName,
-      });
-      console.log(`[RECEIPT PRINT] Printer instance created successfully`);
-      
-      // Step 5: Connect to printer
-      step = 'connecting to printer';
-      console.log(`[RECEIPT PRINT] Step: ${step}`);
-      try {
-        await printer.connect(5000); // 5 second timeout
-        console.log(`[RECEIPT PRINT] Connected with timeout parameter`);
-      } catch (connectError: any) {
-        console.log(`[RECEIPT PRINT] Connect with timeout failed:`, connectError);
-        // If connect with timeout fails, try without timeout
-        if (connectError?.message?.includes('parameter') || connectError?.message?.includes('invalid')) {
-          console.log('[RECEIPT PRINT] Retrying connect without timeout parameter');
-          await printer.connect();
-          console.log(`[RECEIPT PRINT] Connected without timeout parameter`);
-        } else {
-          throw connectError;
-        }
-      }
-      
-      // Print multiple copies
-      for (let copy = 1; copy <= printCopies; copy++) {
-        if (printCopies > 1) {
-          console.log(`[RECEIPT PRINT] Printing copy ${copy} of ${printCopies}`);
-        }
-        
-        // Step 6: Try to capture view and add to print buffer, fallback to manual text if it fails
-        step = 'capturing view and adding to print buffer';
-        console.log(`[RECEIPT PRINT] Step: ${step}`);
-        console.log(`[RECEIPT PRINT] View tag: ${viewTag}, Width: 80mm`);
-        
-        let useManualTextPrint = false;
-        try {
-          await Printer.addViewShot(printer, {
-            viewNode: viewTag,
-            width: 80, // 80mm paper width
-          });
-          console.log(`[RECEIPT PRINT] View captured and added to print buffer`);
-        } catch (viewShotError: any) {
-          console.warn(`[RECEIPT PRINT] addViewShot failed:`, viewShotError);
-          const errorMsg = viewShotError?.message || String(viewShotError) || '';
-          // If it's an invalid parameter error (common with WiFi/LAN printers), use manual text printing
-          if (errorMsg.includes('invalid parameter') || errorMsg.includes('invalid') || errorMsg.includes('parameter')) {
-            console.log(`[RECEIPT PRINT] Falling back to manual text printing (addViewShot not supported for this printer type)`);
-            useManualTextPrint = true;
-          } else {
-            // Re-throw if it's a different error
-            throw viewShotError;
-          }
-        }
-        
-        // If addViewShot failed, use manual text printing
-        if (useManualTextPrint) {
-          step = 'printing receipt manually as text';
-          console.log(`[RECEIPT PRINT] Step: ${step}`);
-          await printReceiptAsText(printer, PrinterConstants, receiptData, filteredReceiptLines, orderNumber, shopName, template, isPaid);
-          console.log(`[RECEIPT PRINT] Receipt printed manually as text`);
-        }
-        
-        // Step 7: Add paper cut command after each copy
-        step = 'adding paper cut';
-        console.log(`[RECEIPT PRINT] Step: ${step} (copy ${copy} of ${printCopies})`);
-        try {
-          await printer.addCut();
-          console.log(`[RECEIPT PRINT] Paper cut command added for copy ${copy}`);
-        } catch (cutError: any) {
-          console.warn(`[RECEIPT PRINT] Paper cut command failed (continuing anyway):`, cutError);
-          // Continue even if cut fails - some printers handle it differently
-        }
-        
-        // Step 8: Send data to printer after each copy (includes cut command)
-        step = 'sending data to printer';
-        console.log(`[RECEIPT PRINT] Step: ${step} (copy ${copy} of ${printCopies})`);
-        await printer.sendData();
-        console.log(`[RECEIPT PRINT] Data sent successfully for copy ${copy}`);
-        
-        // Add feed line between copies (except after last copy)
-        if (copy < printCopies) {
-          await printer.addFeedLine(2);
-        }
-      }
-      
-      // Step 9: Disconnect
-      step = 'disconnecting from printer';
-      console.log(`[RECEIPT PRINT] Step: ${step}`);
-      await printer.disconnect();
-      console.log(`[RECEIPT PRINT] Disconnected successfully`);
-      
+      console.log(`[RECEIPT PRINT] Printing ${printCopies} copy/copies to ${printerInfo.target} (${isAutoPrint ? 'auto-print' : 'manual'})`);
+      const printerName = printerInfo.deviceName || printerInfo.name || printerInfo.target;
+      await submitReceiptPrint('pos', printerInfo.target, printerName, getPrintDocument(viewTag), printCopies);
       // Print successful - no alert needed (silent success)
+    } catch (error: any) {
+      showPrintFailure('Print Failed', error, printerInfo, true);
+    } finally {
       setIsEpsonPrinting(false);
+    }
+  };
+
+  const handleNetworkPrint = async (isAutoPrint: boolean = false) => {
+    const config = await getNetworkPrinterConfig();
+    if (!config.host) {
+      Alert.alert('No Printer Address', 'Set the network printer\'s IP address in Settings first.');
+      return;
+    }
+
+    setIsEpsonPrinting(true);
+    try {
+      const printCopies = isAutoPrint ? await getPrintCopies() : 1;
+      const printerTarget = `${config.host}:${config.port}`;
+      await submitReceiptPrint('network', printerTarget, printerTarget, getPrintDocument(null), printCopies);
     } catch (error: any) {
-      console.error(`[RECEIPT PRINT] Error at step: ${step}`);
-      console.error('[RECEIPT PRINT] Error object:', error);
-      console.error('[RECEIPT PRINT] Error type:', typeof error);
-      console.error('[RECEIPT PRINT] Error constructor:', error?.constructor?.name);
-      console.error('[RECEIPT PRINT] Error keys:', Object.keys(error || {}));
-      console.error('[RECEIPT PRINT] Full error details:', {
-        message: error?.message,
-        code: error?.code,
-        name: error?.name,
-        stack: error?.stack,
-        toString: error?.toString?.(),
-        userInfo: error?.userInfo,
-        nativeError: error?.nativeError,
-        target,
-        deviceName,
-        step,
-        printers: printers?.map(p => ({ target: p.target, name: p.name, ipAddress: p.ipAddress, deviceType: p.deviceType })),
-      });
-      
-      // Try to get native error details
-      let nativeErrorDetails = '';
-      try {
-        if (error?.nativeError) {
-          nativeErrorDetails = `\nNative Error: ${JSON.stringify(error.nativeError)}`;
-        }
-        if (error?.userInfo) {
-          nativeErrorDetails += `\nUser Info: ${JSON.stringify(error.userInfo)}`;
-        }
-      } catch (e) {
-        // ignore
-      }
-      
+      const step = error instanceof PrintJobError ? error.step : 'initialization';
+      Alert.alert(
+        'Print Failed',
+        `Failed at step: ${step}\n\nError: ${error?.message || 'Unknown error'}\n\nPrinter: ${config.host}:${config.port}\n\nThe ticket is in the print queue and will be retried automatically.\n\nTroubleshooting:\n1. Printer is powered on\n2. Printer is on the same network\n3. The IP address and port are correct (usually 9100)`
+      );
+    } finally {
       setIsEpsonPrinting(false);
-      
-      // Extract error message from various possible formats
-      let errorMessage = 'Unknown error';
-      if (error?.message) {
-        errorMessage = error.message;
-      } else if (error?.code) {
-        errorMessage = `Error code: ${error.code}`;
-      } else if (error?.name) {
-        errorMessage = `Error: ${error.name}`;
-      } else if (error?.toString) {
-        errorMessage = error.toString();
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      } else if (error) {
-        try {
-          errorMessage = JSON.stringify(error);
-        } catch (e) {
-          errorMessage = String(error);
-        }
+    }
+  };
+
+  // One ticket per printer profile (e.g. kitchen ticket and customer receipt), each with its own template, paper width and copies
+  // Printed as text: the on-screen view only matches the default template
+  const handleProfilePrint = async () => {
+    setIsEpsonPrinting(true);
+    const failures: string[] = [];
+    for (const profile of printerProfiles) {
+      const isNetwork = profile.connection === 'network';
+      const printerName = profile.name || profile.target;
+      try {
+        await submitPrintJob({
+          receiptId: savedReceiptId,
+          orderNumber,
+          printerType: isNetwork ? 'network' : 'pos',
+          printerTarget: isNetwork ? `${profile.target}:${profile.port}` : profile.target,
+          printerName,
+          role: profile.role,
+          codePage: isNetwork ? profile.codePage : undefined,
+          template: profile.template,
+          copies: profile.copies,
+        }, {
+          commands: buildReceiptCommands(findReceiptTemplate(profile.template, receiptTemplates), getTemplateData(), profile.paperWidth),
+        });
+      } catch (error: any) {
+        const step = error instanceof PrintJobError ? ` (${error.step})` : '';
+        failures.push(`• ${printerName}${step}: ${getPrintErrorMessage(error instanceof PrintJobError ? error.originalError : error)}`);
       }
-      
-      const errorTarget = target || 'N/A';
-      const errorDevice = deviceName || 'N/A';
-      const printerInfo = printers?.find(p => p.target === target);
-      const errorIP = printerInfo?.ipAddress || 'N/A';
-      const errorPort = printerInfo?.port || 'N/A';
-      const errorType = printerInfo?.ipAddress ? 'WiFi/LAN' : 'Bluetooth';
-      
+    }
+    setIsEpsonPrinting(false);
+
+    // Print successful - no alert needed (silent success)
+    if (failures.length > 0) {
       Alert.alert(
-        'Print Failed', 
-        `Failed at step: ${step}\n\nError: ${errorMessage}${nativeErrorDetails}\n\nDebug Info:\nTarget: ${errorTarget}\nDevice: ${errorDevice}\nIP: ${errorIP}\nPort: ${errorPort}\nType: ${errorType}\n\nPlease check console logs for full error details.\n\nTroubleshooting:\n1. Printer is powered on\n2. Printer is connected (Bluetooth/WiFi)\n3. Printer is in range\n4. For WiFi: printer is on same network\n5. View is rendered (try scrolling or waiting a moment)\n6. Check console logs for more details`
+        failures.length === printerProfiles.length ? 'Print Failed' : 'Partial Success',
+        `Could not print to:\n\n${failures.join('\n')}\n\nThe failed tickets are in the print queue and will be retried automatically.`
       );
     }
   };
 
+  // POS button and auto-print: printer profiles when set up, else the network ESC/POS printer when selected, else Epson
+  const handlePosPrint = (isAutoPrint: boolean = false) => {
+    if (printerProfiles.length > 0) return handleProfilePrint();
+    return printerType === 'network' ? handleNetworkPrint(isAutoPrint) : handleEpsonPrint(isAutoPrint);
+  };
+
   const handlePrintToAllPrinters = async () => {
     if (!printers || printers.length === 0) {
-      Alert.alert(
-        'No Printers Found',
-        'No printers were discovered. Make sure:\n\n1. Bluetooth/WiFi is enabled on your device\n2. The printer is powered on\n3. For Bluetooth: printer is in pairing/discovery mode and within range\n4. For WiFi/LAN: printer is on the same network\n\nDiscovery runs automatically in the background.'
-      );
+      showNoPrintersAlert();
       return;
     }
 
-    // Try to load the module
-    let Printer: any = null;
-    try {
-      const mod: any = await import('react-native-esc-pos-printer').catch(() => null);
-      Printer = mod?.Printer;
-    } catch (e) {
-      console.error('Failed to import Epson module:', e);
-    }
-
-    if (!Printer) {
-      Alert.alert(
-        'Printer Module Not Found', 
-        'The Epson printer module is not included in this build. Make sure you:\n\n1. Installed react-native-esc-pos-printer\n2. Rebuilt the app with npx expo run:android\n3. Not using Expo Go (use a development build)'
-      );
+    if (!(await isEpsonAvailable())) {
+      showPrintFailure('Print Failed', new PrinterUnavailableError(), printers[0]);
       return;
     }
 
     const viewTag = findNodeHandle(printViewRef.current);
-    if (!viewTag) {
+    if (!viewTag && printsScreenView) {
       Alert.alert('Printer', 'Printable view not ready.');
       return;
     }
 
     setIsPrintingToAll(true);
-    const results: Array<{ printer: string; success: boolean; error?: string }> = [];
+    const results: { printer: string; success: boolean; error?: string }[] = [];
+    const printCopies = await getPrintCopies();
+    const document = getPrintDocument(viewTag);
 
     // Print to all printers sequentially
-    for (const printerInfo of printers) {
+    for (const printerInfo of printers as DiscoveredPrinter[]) {
+      const deviceName = printerInfo.deviceName || printerInfo.name || printerInfo.target;
       try {
-        const deviceName = printerInfo.deviceName || printerInfo.name || 'Printer';
-        const validDeviceName = deviceName && deviceName.trim() !== '' ? deviceName.trim() : 'Printer';
-        const validTarget = printerInfo.target && printerInfo.target.trim() !== '' ? printerInfo.target.trim() : null;
-        
-        if (!validTarget) {
-          throw new Error('Invalid printer target');
-        }
-        
-        console.log(`Printing to printer: ${validDeviceName} (target: ${validTarget})`);
-        
-        // Create printer instance and use addViewShot
-        const printer = new Printer({
-          target: validTarget,
-          deviceName: validDeviceName,
-        });
-        
-        // Connect to printer (timeout is optional)
-        try {
-          await printer.connect(5000); // 5 second timeout
-        } catch (connectError: any) {
-          // If connect with timeout fails, try without timeout
-          if (connectError?.message?.includes('parameter') || connectError?.message?.includes('invalid')) {
-            console.log('Retrying connect without timeout parameter');
-            await printer.connect();
-          } else {
-            throw connectError;
-          }
-        }
-        
-        // Get number of copies to print
-        const printCopies = await getPrintCopies();
-        console.log(`Printing ${printCopies} copy/copies to printer: ${validDeviceName}`);
-        
-        // Print multiple copies
-        for (let copy = 1; copy <= printCopies; copy++) {
-          if (printCopies > 1) {
-            console.log(`Printing copy ${copy} of ${printCopies} to printer: ${validDeviceName}`);
-          }
-          
-          // Capture view and add to print buffer
-          await Printer.addViewShot(printer, {
-            viewNode: viewTag,
-            width: 80, // 80mm paper width
-          });
-          
-          // Add cut after each copy
-          try {
-            await printer.addCut();
-            console.log(`Cut command added for copy ${copy}`);
-          } catch (cutError: any) {
-            console.warn(`Cut command failed (continuing anyway):`, cutError);
-          }
-          
-          // Send data to printer (includes cut command)
-          await printer.sendData();
-          
-          // Add feed line between copies (except after last copy)
-          if (copy < printCopies) {
-            await printer.addFeedLine(2);
-          }
-        }
-        
-        // Disconnect
-        await printer.disconnect();
-        
+        await submitReceiptPrint('pos', printerInfo.target, deviceName, document, printCopies);
         results.push({ printer: deviceName, success: true });
         console.log(`Successfully printed to ${deviceName}`);
       } catch (error: any) {
-        const deviceName = printerInfo.deviceName || printerInfo.name || printerInfo.target;
-        const errorMessage = error?.message || String(error) || 'Unknown error';
-        console.error(`Failed to print to ${deviceName}:`, error);
-        results.push({ printer: deviceName, success: false, error: errorMessage });
+        results.push({ printer: deviceName, success: false, error: error?.message || 'Unknown error' });
       }
     }
 
@@ -524,7 +418,6 @@ export default function ReceiptScreen() {
 
     // Show summary
     const successCount = results.filter(r => r.success).length;
-    const failCount = results.filter(r => !r.success).length;
     
     if (successCount === results.length) {
       Alert.alert('Success', `Receipt printed to all ${successCount} printer(s).`);
@@ -532,281 +425,32 @@ export default function ReceiptScreen() {
       const failedPrinters = results.filter(r => !r.success).map(r => `• ${r.printer}`).join('\n');
       Alert.alert(
         'Partial Success',
-        `Printed to ${successCount} of ${results.length} printer(s).\n\nFailed printers:\n${failedPrinters}`
+        `Printed to ${successCount} of ${results.length} printer(s).\n\nFailed printers:\n${failedPrinters}\n\nThe failed tickets are in the print queue and will be retried automatically.`
       );
     } else {
       const failedPrinters = results.map(r => `• ${r.printer}: ${r.error || 'Unknown error'}`).join('\n');
       Alert.alert(
         'Print Failed',
-        `Failed to print to all printers:\n\n${failedPrinters}\n\nPlease check:\n\n1. Printers are powered on\n2. Printers are connected (Bluetooth/WiFi)\n3. Printers are in range`
+        `Failed to print to all printers:\n\n${failedPrinters}\n\nThe tickets are in the print queue and will be retried automatically.\n\nPlease check:\n\n1. Printers are powered on\n2. Printers are connected (Bluetooth/WiFi)\n3. Printers are in range`
       );
     }
   };
 
   const handleSimpleTestPrint = async () => {
-    let target: string | null = null;
-    let deviceName: string = 'Printer';
-    
-    // Get saved default printer first, then fall back to discovered printers
-    const savedPrinterMac = await getEpsonPrinterMac();
-    
-    // Prefer saved default printer if available
-    if (savedPrinterMac) {
-      const savedPrinter = printers?.find(p => p.target === savedPrinterMac);
-      if (savedPrinter) {
-        target = savedPrinterMac;
-        deviceName = savedPrinter.deviceName || savedPrinter.name || 'Printer';
-        console.log('Using saved default printer for test:', deviceName);
-      } else {
-        target = savedPrinterMac;
-        deviceName = 'Printer';
-        console.log('Using saved default printer (not in discovery list) for test:', target);
-      }
-    }
-    
-    // Fall back to first discovered printer if no default is set
-    if (!target && printers && printers.length > 0) {
-      target = printers[0]?.target;
-      deviceName = printers[0]?.deviceName || printers[0]?.name || 'Printer';
-      console.log('Using first discovered printer for test:', deviceName);
-    }
-    
-    if (!target) {
-      Alert.alert(
-        'No Printers Found',
-        'No printers were discovered. Make sure:\n\n1. Bluetooth/WiFi is enabled on your device\n2. The printer is powered on\n3. For Bluetooth: printer is in pairing/discovery mode and within range\n4. For WiFi/LAN: printer is on the same network\n\nDiscovery runs automatically in the background.'
-      );
+    const printerInfo = await resolveEpsonPrinter(printers);
+    if (!printerInfo) {
+      showNoPrintersAlert();
       return;
     }
 
-      // Try to load the module
-      let Printer: any = null;
-      let PrinterConstants: any = null;
-      try {
-        const mod: any = await import('react-native-esc-pos-printer').catch(() => null);
-        Printer = mod?.Printer;
-        PrinterConstants = mod?.PrinterConstants;
-      } catch (e) {
-        console.error('Failed to import Epson module:', e);
-      }
-
-      if (!Printer) {
-        Alert.alert(
-          'Printer Module Not Found', 
-          'The Epson printer module is not included in this build. Make sure you:\n\n1. Installed react-native-esc-pos-printer\n2. Rebuilt the app with npx expo run:android\n3. Not using Expo Go (use a development build)'
-        );
-        return;
-      }
-
-      if (!PrinterConstants) {
-        Alert.alert(
-          'PrinterConstants Not Found', 
-          'PrinterConstants is not available. Make sure you have the latest version of react-native-esc-pos-printer.'
-        );
-        return;
-      }
-
-      setIsTestPrinting(true);
-      
-      // Ensure deviceName is a valid non-empty string
-      const validDeviceName = deviceName && deviceName.trim() !== '' ? deviceName.trim() : 'Printer';
-      console.log(`[TEST PRINT] Starting test print to printer: ${validDeviceName} (target: ${target})`);
-      console.log('[TEST PRINT] Full printer info:', JSON.stringify(printers?.find(p => p.target === target), null, 2));
-      
-      // Validate target
-      if (!target || target.trim() === '') {
-        throw new Error('Invalid printer target');
-      }
-      
-      let printer: any = null;
-      let step = 'initialization';
-      
-      try {
-        // Step 1: Create printer instance
-        step = 'creating printer instance';
-        console.log(`[TEST PRINT] Step: ${step}`);
-        printer = new Printer({
-          target: target.trim(),
-          deviceName: validDeviceName,
-        });
-        console.log(`[TEST PRINT] Printer instance created successfully`);
-        
-        // Step 2: Connect to printer
-        step = 'connecting to printer';
-        console.log(`[TEST PRINT] Step: ${step}`);
-        try {
-          await printer.connect(5000); // 5 second timeout
-          console.log(`[TEST PRINT] Connected with timeout parameter`);
-        } catch (connectError: any) {
-          console.log(`[TEST PRINT] Connect with timeout failed:`, connectError);
-          // If connect with timeout fails, try without timeout
-          if (connectError?.message?.includes('parameter') || connectError?.message?.includes('invalid')) {
-            console.log('[TEST PRINT] Retrying connect without timeout parameter');
-            await printer.connect();
-            console.log(`[TEST PRINT] Connected without timeout parameter`);
-          } else {
-            throw new Error(`Connection failed: ${connectError?.message || connectError?.toString() || JSON.stringify(connectError)}`);
-          }
-        }
-        
-        // Step 3: Add text alignment (optional - skip if not supported)
-        step = 'adding text alignment';
-        console.log(`[TEST PRINT] Step: ${step}`);
-        try {
-          if (printer.addTextAlign && typeof printer.addTextAlign === 'function') {
-            await printer.addTextAlign(PrinterConstants.ALIGN_CENTER);
-            console.log(`[TEST PRINT] Text alignment set to center`);
-          } else {
-            console.log(`[TEST PRINT] addTextAlign not available, skipping alignment`);
-          }
-        } catch (alignError: any) {
-          console.warn(`[TEST PRINT] Text alignment failed (continuing anyway):`, alignError);
-          // Continue without alignment
-        }
-      
-      // Step 4: Add header text
-      step = 'adding header text';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      await printer.addText('========================\n');
-      await printer.addText('PRINTER TEST\n');
-      await printer.addText('========================\n');
-      await printer.addFeedLine(1);
-      
-      // Step 5: Add debug info
-      step = 'adding debug info';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      try {
-        if (printer.addTextAlign && typeof printer.addTextAlign === 'function') {
-          await printer.addTextAlign(PrinterConstants.ALIGN_LEFT);
-          console.log(`[TEST PRINT] Text alignment set to left`);
-        }
-      } catch (alignError: any) {
-        console.warn(`[TEST PRINT] Text alignment failed (continuing anyway):`, alignError);
-        // Continue without alignment
-      }
-      await printer.addText(`Device: ${validDeviceName}\n`);
-      await printer.addText(`Target: ${target}\n`);
-      const printerInfo = printers?.find(p => p.target === target);
-      if (printerInfo) {
-        if (printerInfo.ipAddress) {
-          await printer.addText(`IP: ${printerInfo.ipAddress}\n`);
-        }
-        if (printerInfo.port) {
-          await printer.addText(`Port: ${printerInfo.port}\n`);
-        }
-        await printer.addText(`Type: ${printerInfo.ipAddress ? 'WiFi/LAN' : 'Bluetooth'}\n`);
-      }
-      const currentDate = new Date();
-      await printer.addText(`Date: ${currentDate.toLocaleString()}\n`);
-      await printer.addFeedLine(1);
-      await printer.addText('This is a test print.\n');
-      await printer.addText('If you see this, the printer is working!\n');
-      await printer.addFeedLine(1);
-      try {
-        if (printer.addTextAlign && typeof printer.addTextAlign === 'function') {
-          await printer.addTextAlign(PrinterConstants.ALIGN_CENTER);
-          console.log(`[TEST PRINT] Text alignment set to center`);
-        }
-      } catch (alignError: any) {
-        console.warn(`[TEST PRINT] Text alignment failed (continuing anyway):`, alignError);
-        // Continue without alignment
-      }
-      await printer.addText('========================\n');
-      
-      // Add bottom margin with multiple feed lines before cutting
-      await printer.addFeedLine(3);
-      
-      // Step 6: Add paper cut command (before sending data)
-      step = 'adding paper cut';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      try {
-        await printer.addCut();
-        console.log(`[TEST PRINT] Paper cut command added`);
-      } catch (cutError: any) {
-        console.warn(`[TEST PRINT] Paper cut command failed (continuing anyway):`, cutError);
-        // Continue even if cut fails - some printers handle it differently
-      }
-      
-      // Step 7: Send data to printer (includes cut command)
-      step = 'sending data to printer';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      await printer.sendData();
-      console.log(`[TEST PRINT] Data sent successfully`);
-      
-      // Step 8: Disconnect
-      step = 'disconnecting from printer';
-      console.log(`[TEST PRINT] Step: ${step}`);
-      await printer.disconnect();
-      console.log(`[TEST PRINT] Disconnected successfully`);
-      
+    setIsTestPrinting(true);
+    try {
+      await runPrintJob(createEpsonDriver(printerInfo), { commands: buildTestPageCommands(printerInfo) });
       Alert.alert('Success', 'Test print sent to printer successfully!');
-      setIsTestPrinting(false);
     } catch (error: any) {
-      console.error(`[TEST PRINT] Error at step: ${step}`);
-      console.error('[TEST PRINT] Error object:', error);
-      console.error('[TEST PRINT] Error type:', typeof error);
-      console.error('[TEST PRINT] Error constructor:', error?.constructor?.name);
-      console.error('[TEST PRINT] Error keys:', Object.keys(error || {}));
-      console.error('[TEST PRINT] Full error details:', {
-        message: error?.message,
-        code: error?.code,
-        name: error?.name,
-        stack: error?.stack,
-        toString: error?.toString?.(),
-        userInfo: error?.userInfo,
-        nativeError: error?.nativeError,
-        target,
-        deviceName,
-        step,
-        printers: printers?.map(p => ({ target: p.target, name: p.name, ipAddress: p.ipAddress, deviceType: p.deviceType })),
-      });
-      
-      // Try to get native error details
-      let nativeErrorDetails = '';
-      try {
-        if (error?.nativeError) {
-          nativeErrorDetails = `\nNative Error: ${JSON.stringify(error.nativeError)}`;
-        }
-        if (error?.userInfo) {
-          nativeErrorDetails += `\nUser Info: ${JSON.stringify(error.userInfo)}`;
-        }
-      } catch (e) {
-        // ignore
-      }
-      
+      showPrintFailure('Test Print Failed', error, printerInfo);
+    } finally {
       setIsTestPrinting(false);
-      
-      // Extract error message from various possible formats
-      let errorMessage = 'Unknown error';
-      if (error?.message) {
-        errorMessage = error.message;
-      } else if (error?.code) {
-        errorMessage = `Error code: ${error.code}`;
-      } else if (error?.name) {
-        errorMessage = `Error: ${error.name}`;
-      } else if (error?.toString) {
-        errorMessage = error.toString();
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      } else if (error) {
-        try {
-          errorMessage = JSON.stringify(error);
-        } catch (e) {
-          errorMessage = String(error);
-        }
-      }
-      
-      const errorTarget = target || 'N/A';
-      const errorDevice = deviceName || 'N/A';
-      const printerInfo = printers?.find(p => p.target === target);
-      const errorIP = printerInfo?.ipAddress || 'N/A';
-      const errorPort = printerInfo?.port || 'N/A';
-      const errorType = printerInfo?.ipAddress ? 'WiFi/LAN' : 'Bluetooth';
-      
-      Alert.alert(
-        'Test Print Failed', 
-        `Failed at step: ${step}\n\nError: ${errorMessage}${nativeErrorDetails}\n\nDebug Info:\nTarget: ${errorTarget}\nDevice: ${errorDevice}\nIP: ${errorIP}\nPort: ${errorPort}\nType: ${errorType}\n\nPlease check console logs for full error details.\n\nTroubleshooting:\n1. Printer is powered on\n2. Printer is connected (Bluetooth/WiFi)\n3. Printer is in range\n4. For WiFi: printer is on same network\n5. Check console logs for more details`
-      );
     }
   };
 
@@ -816,7 +460,8 @@ export default function ReceiptScreen() {
       try {
         const data = JSON.parse(extractedText);
         if (data && typeof data === 'object' && Array.isArray(data.items) && typeof data.total === 'number') {
-          return { receiptData: data as ReceiptData, isJson: true };
+          // Receipts saved by older versions store modifiers as plain strings
+          return { receiptData: upgradeReceiptData(data as ReceiptData), isJson: true };
         }
       } catch (e) {
         console.error('Failed to parse JSON data:', e);
@@ -825,20 +470,120 @@ export default function ReceiptScreen() {
     return { receiptData: null, isJson: false };
   };
 
-  const { receiptData, isJson } = parseReceiptData();
+  const { receiptData: extractedReceiptData, isJson } = parseReceiptData();
+  // Items merged across overlapping pages can be split again by staff
+  const receiptData = extractedReceiptData
+    ? undoneMergeIds.reduce((data, mergeId) => undoReceiptMerge(data, mergeId), extractedReceiptData)
+    : null;
+  const isMultiPageReceipt = !!receiptData && new Set(receiptData.items.map(item => item.boundingBox?.page ?? 0)).size > 1;
   const displayDateTime = formatDateTime();
   const customerInfo = receiptData?.customer;
   const hasCustomerInfo = !!(customerInfo && (customerInfo.name || customerInfo.phone));
-  const itemsTotal = useMemo(() => {
-    if (!receiptData) return 0;
-    return receiptData.items.reduce((sum, item) => {
-      const price = typeof item.price === 'number' ? item.price : 0;
-      return sum + price;
-    }, 0);
-  }, [receiptData]);
-  const totalMismatchThreshold = 0.05;
+  // Item prices plus discounts, surcharges, tips, ... (what the receipt total should equal)
+  const itemsTotal = useMemo(() => (receiptData ? getReceiptItemsTotal(receiptData) : 0), [receiptData]);
   const mismatchDifference = receiptData ? itemsTotal - receiptData.total : 0;
-  const hasTotalMismatch = receiptData ? Math.abs(mismatchDifference) > totalMismatchThreshold : false;
+  const hasTotalMismatch = receiptData ? Math.abs(mismatchDifference) > RECEIPT_TOTAL_TOLERANCE : false;
+  const extractionAttempts = receiptData?.extraction?.attempts ?? 1;
+  const receiptWarnings = receiptData?.warnings ?? [];
+  const generalWarnings = receiptWarnings.filter(warning => warning.itemIndex === undefined);
+
+  // A new extraction has new merges
+  useEffect(() => {
+    setUndoneMergeIds([]);
+  }, [extractedText]);
+
+  // Look for the same docket among recently saved receipts before this one is saved
+  useEffect(() => {
+    if (isExistingReceipt || isStreaming) return;
+    let cancelled = false;
+    const checkForDuplicates = async () => {
+      setDuplicateCheckDone(false);
+      try {
+        const config = await getDuplicateDetectionConfig();
+        if (!config.enabled) return;
+        const hash = imageUri ? await computeImageHash(imageUri) : null;
+        const found = await findDuplicateReceipts(receiptData, extractedText, hash, config);
+        if (!cancelled) {
+          setImageHash(hash);
+          setDuplicates(found);
+        }
+      } catch (e) {
+        console.warn('Duplicate check failed:', e);
+      } finally {
+        if (!cancelled) setDuplicateCheckDone(true);
+      }
+    };
+    checkForDuplicates();
+    return () => {
+      cancelled = true;
+    };
+    // Re-check only for a new extraction, not for merge undos
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [extractedText, imageUri, isExistingReceipt, isStreaming]);
+
+  const possibleDuplicate = !duplicateDismissed && !isSaved ? duplicates[0] : undefined;
+
+  // Open the order this one duplicates instead of saving it again
+  const handleOpenDuplicate = (candidate: DuplicateCandidate) => {
+    try {
+      const data = JSON.parse(candidate.receipt.receipt_data);
+      router.replace({
+        pathname: '/receipt',
+        params: {
+          imageUri: '',
+          extractedText: encodeURIComponent(data.extractedText || ''),
+          extractedDataType: data.isJson ? 'json' : 'text',
+          orderNumber: candidate.receipt.order_number || '',
+          isExistingReceipt: 'true',
+          ...(candidate.receipt.id ? { receiptId: candidate.receipt.id.toString() } : {}),
+        },
+      });
+    } catch (e) {
+      console.error('Error opening receipt:', e);
+    }
+  };
+
+  // Run extraction again, bypassing the cache (used when a cached result looks wrong)
+  const handleReExtract = async () => {
+    const uris = imageUris.length > 0 ? imageUris : imageUri ? [imageUri] : [];
+    if (uris.length === 0 || isReExtracting || isStreaming) return;
+
+    setIsReExtracting(true);
+    try {
+      const images = await Promise.all(
+        uris.map(uri => new File(uri).base64())
+      );
+      const ocrMode = await getOCRMode();
+      const extractedData = await extractTextFromImageWithMode(images, ocrMode, images.length > 1, { skipCache: true });
+      const extractedDataString = typeof extractedData === 'string' ? extractedData : JSON.stringify(extractedData);
+
+      // Drop the finished stream session, whose result would replace the new one,
+      // but keep the order number it was given
+      const { streamId: _streamId, ...otherParams } = params;
+      router.replace({
+        pathname: '/receipt',
+        params: {
+          ...otherParams,
+          ...(orderNumber ? { orderNumber } : {}),
+          extractedText: encodeURIComponent(extractedDataString || 'No text extracted'),
+          extractedDataType: typeof extractedData === 'string' ? 'text' : 'json',
+        },
+      });
+    } catch (error: any) {
+      console.error('Re-extract error:', error);
+      Alert.alert('Re-extract Failed', error?.message || 'Failed to extract the receipt again');
+    } finally {
+      setIsReExtracting(false);
+    }
+  };
+
+  // Show the photo zoomed to the region an item was read from
+  const handleFocusItem = (index: number) => {
+    setShowImage(true);
+    setFocusedItemIndex(index);
+    setImagePage(receiptData?.items[index]?.boundingBox?.page ?? 0);
+    scrollViewRef.current?.scrollTo({ y: 0, animated: true });
+  };
   const mismatchDifferenceDisplay = `${mismatchDifference >= 0 ? '+' : ''}${mismatchDifference.toFixed(2)}`;
 
   const formatReceiptText = (text: string) => {
@@ -936,39 +681,68 @@ export default function ReceiptScreen() {
       if (!mismatchAlertShownRef.current) {
         Alert.alert(
           'Receipt Needs Attention',
-          `Items add up to $${itemsTotal.toFixed(2)}, but the receipt total is $${receiptData.total.toFixed(2)}.\n\nPlease re-check or retake the photo before printing.`
+          `Items${receiptData.adjustments?.length ? ' and adjustments' : ''} add up to $${itemsTotal.toFixed(2)}, but the receipt total is $${receiptData.total.toFixed(2)}.${extractionAttempts > 1 ? `\n\nThe AI re-checked this receipt ${extractionAttempts} times without fixing it.` : ''}\n\nPlease re-check or retake the photo before printing.`
         );
         mismatchAlertShownRef.current = true;
       }
     } else {
       mismatchAlertShownRef.current = false;
     }
-  }, [hasTotalMismatch, receiptData, itemsTotal]);
+  }, [hasTotalMismatch, receiptData, itemsTotal, extractionAttempts]);
 
-  const handleSave = async (silent: boolean = false) => {
+  const handleSave = async (silent: boolean = false, allowDuplicate: boolean = false) => {
     if (isSaving || isSaved || isExistingReceipt) return;
+
+    if (possibleDuplicate && !allowDuplicate) {
+      if (!silent) {
+        Alert.alert(
+          'Possible Duplicate',
+          `This looks like order #${possibleDuplicate.receipt.order_number || '?'}${possibleDuplicate.savedAt ? `, saved at ${possibleDuplicate.savedAt.toLocaleTimeString()}` : ''} (${possibleDuplicate.reasons.join(', ')}).`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Open Existing', onPress: () => handleOpenDuplicate(possibleDuplicate) },
+            {
+              text: 'Save Anyway',
+              onPress: () => {
+                setDuplicateDismissed(true);
+                handleSave(false, true);
+              },
+            },
+          ]
+        );
+      }
+      return;
+    }
     
     try {
       setIsSaving(true);
       
       const today = getLocalDateString();
-      const total = receiptData?.total || 0;
+      // Read the tax settings fresh: auto-save can run before the screen's preferences have loaded
+      const totals = receiptData ? calculateTotals(receiptData.total, await getTaxConfig(), receiptData.items) : null;
       const receiptDataJson = JSON.stringify({
         receiptData: receiptData || null,
         receiptLines: filteredReceiptLines || null,
         isJson: !!receiptData,
         extractedText,
         orderNumber,
+        // Kept at the top level so accuracy can be compared across prompt changes
+        promptId: receiptData?.extraction?.promptId || null,
+        promptVersion: receiptData?.extraction?.promptVersion || null,
       });
       
-      await saveReceipt({
+      const id = await saveReceipt({
         date: today,
-        total_price: total,
+        total_price: totals?.total || 0,
+        tax_amount: totals?.tax,
         receipt_data: receiptDataJson,
         order_number: orderNumber || undefined,
         is_paid: isPaid,
+        ai_model: receiptData?.extraction?.model,
+        image_hash: imageHash || undefined,
       });
       
+      setSavedReceiptId(id);
       setIsSaved(true);
       if (!silent) {
         Alert.alert('Success', 'Receipt saved successfully');
@@ -984,12 +758,15 @@ export default function ReceiptScreen() {
   };
 
   // Auto-save if enabled (after receipt data is parsed)
-  // Skip auto-save for existing receipts
+  // Skip auto-save for existing receipts, and for possible duplicates until the user decides
   useEffect(() => {
     if (isExistingReceipt) {
       // Existing receipt is already saved, skip auto-save
       return;
     }
+    if (!duplicateCheckDone || possibleDuplicate) {
+      return;
+    }
     const autoSaveIfEnabled = async () => {
       try {
         const autoSave = await getAutoSave();
@@ -1005,7 +782,7 @@ export default function ReceiptScreen() {
       autoSaveIfEnabled();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [receiptData, filteredReceiptLines, isSaved, isSaving, isExistingReceipt]);
+  }, [receiptData, filteredReceiptLines, isSaved, isSaving, isExistingReceipt, duplicateCheckDone, possibleDuplicate]);
 
   // Auto-print if enabled (after receipt is processed and saved)
   useEffect(() => {
@@ -1031,10 +808,10 @@ export default function ReceiptScreen() {
           // Small delay to ensure view is rendered
           setTimeout(async () => {
             try {
-              await handleEpsonPrint(true); // Pass true for auto-print
+              await handlePosPrint(true); // Pass true for auto-print
             } catch (e) {
               console.error('Auto-print error:', e);
-              // Error message is already shown in handleEpsonPrint
+              // Error message is already shown by the print handler
             }
           }, 500);
         }
@@ -1053,34 +830,14 @@ export default function ReceiptScreen() {
     try {
       setIsPrinting(true);
       
-      // Generate HTML for the receipt
-      const html = isJson && receiptData 
-        ? generateReceiptHTMLFromJSON(receiptData, orderNumber, isPaid)
-        : filteredReceiptLines 
-          ? generateReceiptHTML(filteredReceiptLines, orderNumber, isPaid)
-          : '<html><body>No receipt data available</body></html>';
-      
-      // Print the receipt
-      await Print.printAsync({
-        html,
-        orientation: Print.Orientation.portrait,
-        margins: {
-          left: printMargin,
-          top: printMargin,
-          right: printMargin,
-          bottom: printMargin,
-        },
+      const receiptTemplate = findReceiptTemplate(template, receiptTemplates);
+      const templateData = getTemplateData();
+      await runPrintJob(createSystemDriver(printMargin), {
+        commands: buildReceiptCommands(receiptTemplate, templateData),
+        html: buildReceiptHtml(receiptTemplate, templateData, { margin: printMargin }),
       });
     } catch (error: any) {
-      // Check if error is due to user cancellation
-      const errorMessage = error?.message || String(error) || '';
-      const isCancellation = 
-        errorMessage.toLowerCase().includes('cancel') ||
-        errorMessage.toLowerCase().includes('did not complete') ||
-        errorMessage.toLowerCase().includes('user cancel') ||
-        errorMessage.toLowerCase().includes('aborted');
-      
-      if (isCancellation) {
+      if (isPrintCancellation(error)) {
         // Silently handle cancellation - user intentionally cancelled
         console.log('Print cancelled by user');
       } else {
@@ -1093,371 +850,6 @@ export default function ReceiptScreen() {
     }
   };
 
-  const escapeHTML = (str: string): string => {
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#039;');
-  };
-
-  const generateReceiptHTMLFromJSON = (receiptData: ReceiptData, orderNum: string | null, paid: boolean): string => {
-    const dateTimeStr = formatDateTime();
-    const totals = calculateTotals(receiptData.total);
-    const customerDetails = receiptData.customer;
-    const hasCustomerDetails = !!(customerDetails && (customerDetails.name || customerDetails.phone));
-    const customerInfoHTML = hasCustomerDetails
-      ? `<div class="customer-info">
-          <div class="customer-label">Customer</div>
-          ${customerDetails?.name ? `<div class="customer-name">${escapeHTML(customerDetails.name)}</div>` : ''}
-          ${customerDetails?.phone ? `<div class="customer-phone">${escapeHTML(customerDetails.phone)}</div>` : ''}
-        </div>`
-      : '';
-
-    let productsHTML = '';
-    receiptData.items.forEach(item => {
-      const quantityHTML = item.quantity > 1 ? `<span style="color: #0a7ea4; font-weight: bold;">${item.quantity}x</span> ` : '';
-      productsHTML += `<div style="display: flex; justify-content: space-between; margin: 3px 0; font-size: 13px;">
-        <span style="font-size: 13px; font-weight: 600;">${quantityHTML}${escapeHTML(item.name)}</span>
-        <span style="font-weight: 500;">$${item.price.toFixed(2)}</span>
-      </div>`;
-      
-      // Add modifiers
-      if (item.modifiers && item.modifiers.length > 0) {
-        item.modifiers.forEach(modifier => {
-          productsHTML += `<div style="padding-left: 15px; font-size: 9px; color: #666; font-style: italic; margin: 2px 0;">${escapeHTML(modifier)}</div>`;
-        });
-      }
-    });
-
-    const totalsHTML = `
-      <div style="display: flex; justify-content: space-between; margin: 3px 0; font-size: 11px; margin-top: 10px; padding-top: 6px; border-top: 1px solid #E5E5E5;">
-        <span>Subtotal:</span>
-        <span>$${totals.subtotal.toFixed(2)}</span>
-      </div>
-      <div style="display: flex; justify-content: space-between; margin: 3px 0; font-size: 11px;">
-        <span>GST:</span>
-        <span>$${totals.gst.toFixed(2)}</span>
-      </div>
-      <div style="display: flex; justify-content: space-between; margin: 3px 0; font-size: 13px; font-weight: bold;">
-        <span>Total:</span>
-        <span>$${totals.total.toFixed(2)}</span>
-      </div>
-    `;
-
-    return `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta charset="utf-8">
-          <style>
-            @page {
-              size: A5 portrait;
-              margin: ${printMargin}mm;
-            }
-            * {
-              margin: 0;
-              padding: 0;
-              box-sizing: border-box;
-            }
-            body {
-              font-family: 'Courier New', monospace;
-              margin: 0;
-              padding: ${printMargin}mm;
-              font-size: 11px;
-              line-height: 1.5;
-              width: 100%;
-            }
-            .receipt-header {
-              text-align: center;
-              margin-bottom: 12px;
-            }
-            .receipt-title {
-              font-size: 16px;
-              font-weight: bold;
-              letter-spacing: 2px;
-              margin-bottom: 8px;
-            }
-            .shop-info {
-              text-align: center;
-              margin-bottom: 12px;
-            }
-            .shop-name {
-              font-size: 14px;
-              font-weight: bold;
-              color: #0a7ea4;
-              margin-bottom: 6px;
-            }
-            .order-number {
-              font-size: 12px;
-              font-weight: 600;
-              margin-bottom: 6px;
-            }
-            .date-time {
-              font-size: 10px;
-              color: #666;
-              margin: 2px 0;
-            }
-            .order-customer-row {
-              display: flex;
-              justify-content: space-between;
-              align-items: flex-start;
-              gap: 16px;
-              margin-top: 8px;
-              text-align: left;
-            }
-            .order-info {
-              flex: 1;
-            }
-            .customer-info {
-              min-width: 140px;
-              text-align: right;
-            }
-            .customer-label {
-              font-size: 10px;
-              letter-spacing: 0.5px;
-              text-transform: uppercase;
-              color: #666;
-              margin-bottom: 2px;
-            }
-            .customer-name {
-              font-size: 12px;
-              font-weight: 600;
-            }
-            .customer-phone {
-              font-size: 11px;
-              color: #666;
-            }
-            .divider {
-              border-top: 1px solid #E5E5E5;
-              margin: 10px 0;
-            }
-            .products-section {
-              margin: 12px 0;
-            }
-            .totals-section {
-              margin-top: 12px;
-              padding-top: 8px;
-              border-top: 1px solid #E5E5E5;
-            }
-            .footer {
-              text-align: center;
-              margin-top: 15px;
-              font-size: 9px;
-              color: #666;
-              font-style: italic;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="receipt-header">
-            <div class="divider"></div>
-          </div>
-          
-          <div class="shop-info">
-            <div class="shop-name">${escapeHTML(shopName || 'Pappas Ocean Catch')}</div>
-            <div class="order-customer-row">
-              <div class="order-info">
-                ${orderNum ? `<div class="order-number">Order #: ${escapeHTML(orderNum)}</div>` : ''}
-                <div class="date-time">${escapeHTML(dateTimeStr)}</div>
-              </div>
-              ${customerInfoHTML}
-            </div>
-            <div style="margin: 8px 0; text-align: center;">
-              <span style="display: inline-block; padding: 4px 12px; border-radius: 4px; font-size: 12px; font-weight: bold; ${paid ? 'background-color: #D1FAE5; color: #065F46;' : 'background-color: #FEE2E2; color: #991B1B;'}">
-                ${paid ? 'PAID' : 'Unpaid'}
-              </span>
-            </div>
-            <div class="divider"></div>
-          </div>
-          
-          <div class="products-section">
-            ${productsHTML}
-          </div>
-          
-          <div class="totals-section">
-            ${totalsHTML}
-          </div>
-          
-          <div class="footer">
-            Thank you for your purchase!
-          </div>
-        </body>
-      </html>
-    `;
-  };
-
-  const generateReceiptHTML = (lines: Array<{ 
-    text: string; 
-    textWithoutPrice: string;
-    price: string | null;
-    quantity: string | null;
-    isIndented: boolean; 
-    isTotalLine: boolean;
-    hasPrice: boolean;
-    key: string;
-  }>, orderNum: string | null, paid: boolean): string => {
-    const dateTimeStr = formatDateTime();
-
-    const productLines = lines.filter(line => !line.isTotalLine);
-    const totalLines = lines.filter(line => line.isTotalLine);
-
-    // Sort total lines: Subtotal first, GST second, Total last
-    const sortedTotalLines = [...totalLines].sort((a, b) => {
-      const aText = a.text.toUpperCase();
-      const bText = b.text.toUpperCase();
-      
-      // Subtotal comes first
-      if (aText.startsWith('SUBTOTAL')) return -1;
-      if (bText.startsWith('SUBTOTAL')) return 1;
-      
-      // GST comes second
-      if (aText.startsWith('GST')) return -1;
-      if (bText.startsWith('GST')) return 1;
-      
-      // Total comes last
-      if (aText.startsWith('TOTAL')) return 1;
-      if (bText.startsWith('TOTAL')) return -1;
-      
-      // Keep original order for other items
-      return 0;
-    });
-
-    let productsHTML = '';
-    productLines.forEach(line => {
-      if (line.isIndented) {
-        productsHTML += `<div style="padding-left: 15px; font-size: 9px; color: #666; font-style: italic; margin: 2px 0;">${escapeHTML(line.text)}</div>`;
-      } else if (line.hasPrice) {
-        const quantityHTML = line.quantity ? `<span style="color: #0a7ea4; font-weight: bold;">${escapeHTML(line.quantity)}x</span> ` : '';
-        productsHTML += `<div style="display: flex; justify-content: space-between; margin: 3px 0; font-size: 11px;">
-          <span>${quantityHTML}${escapeHTML(line.textWithoutPrice)}</span>
-          <span style="font-weight: 500;">${escapeHTML(line.price || '')}</span>
-        </div>`;
-      } else {
-        productsHTML += `<div style="margin: 2px 0; font-size: 11px;">${escapeHTML(line.text)}</div>`;
-      }
-    });
-
-    let totalsHTML = '';
-    sortedTotalLines.forEach(line => {
-      const isTotal = /^TOTAL:/i.test(line.text);
-      const fontSize = isTotal ? '13px' : '11px';
-      const fontWeight = isTotal ? 'bold' : 'normal';
-      
-      if (line.hasPrice) {
-        totalsHTML += `<div style="display: flex; justify-content: space-between; margin: 3px 0; font-size: ${fontSize}; font-weight: ${fontWeight}; ${isTotal ? 'margin-top: 10px; padding-top: 6px; border-top: 1px solid #E5E5E5;' : ''}">
-          <span>${escapeHTML(line.textWithoutPrice)}</span>
-          <span>${escapeHTML(line.price || '')}</span>
-        </div>`;
-      } else {
-        totalsHTML += `<div style="margin: 3px 0; font-size: ${fontSize}; font-weight: ${fontWeight};">${escapeHTML(line.text)}</div>`;
-      }
-    });
-
-    return `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta charset="utf-8">
-          <style>
-            @page {
-              size: A5 portrait;
-              margin: ${printMargin}mm;
-            }
-            * {
-              margin: 0;
-              padding: 0;
-              box-sizing: border-box;
-            }
-            body {
-              font-family: 'Courier New', monospace;
-              margin: 0;
-              padding: ${printMargin}mm;
-              font-size: 11px;
-              line-height: 1.5;
-              width: 100%;
-            }
-            .receipt-header {
-              text-align: center;
-              margin-bottom: 12px;
-            }
-            .receipt-title {
-              font-size: 16px;
-              font-weight: bold;
-              letter-spacing: 2px;
-              margin-bottom: 8px;
-            }
-            .shop-name {
-              font-size: 14px;
-              font-weight: bold;
-              color: #0a7ea4;
-              margin-bottom: 6px;
-            }
-            .order-number {
-              font-size: 12px;
-              font-weight: 600;
-              margin-bottom: 6px;
-            }
-            .date-time {
-              font-size: 10px;
-              color: #666;
-              margin: 2px 0;
-            }
-            .divider {
-              border-top: 1px solid #E5E5E5;
-              margin: 10px 0;
-            }
-            .products-section {
-              margin: 12px 0;
-            }
-            .totals-section {
-              margin-top: 12px;
-              padding-top: 8px;
-              border-top: 1px solid #E5E5E5;
-            }
-            .footer {
-              text-align: center;
-              margin-top: 15px;
-              font-size: 9px;
-              color: #666;
-              font-style: italic;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="receipt-header">
-            <div class="divider"></div>
-          </div>
-          
-          <div style="text-align: center; margin-bottom: 12px;">
-            <div class="shop-name">${escapeHTML(shopName || 'Pappas Ocean Catch')}</div>
-            ${orderNum ? `<div class="order-number">Order #: ${escapeHTML(orderNum)}</div>` : ''}
-            <div class="date-time">${escapeHTML(dateTimeStr)}</div>
-            <div style="margin: 8px 0;">
-              <span style="display: inline-block; padding: 4px 12px; border-radius: 4px; font-size: 12px; font-weight: bold; ${paid ? 'background-color: #D1FAE5; color: #065F46;' : 'background-color: #FEE2E2; color: #991B1B;'}">
-                ${paid ? 'PAID' : 'Unpaid'}
-              </span>
-            </div>
-            <div class="divider"></div>
-          </div>
-          
-          <div class="products-section">
-            ${productsHTML}
-          </div>
-          
-          <div class="totals-section">
-            ${totalsHTML}
-          </div>
-          
-          <div class="footer">
-            Thank you for your purchase!
-          </div>
-        </body>
-      </html>
-    `;
-  };
-
   return (
     <ThemedView style={styles.container}>
       <View style={[
@@ -1506,46 +898,46 @@ export default function ReceiptScreen() {
           <TouchableOpacity 
             onPress={() => handleSave(false)} 
             style={[styles.saveButton, { backgroundColor: (isSaved || isExistingReceipt ? '#4CAF50' : tintColor) + '20' }]}
-            disabled={isSaving || isSaved || isExistingReceipt}
+            disabled={isSaving || isSaved || isExistingReceipt || isStreaming}
             hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
           >
             <IconSymbol 
               name={isSaved || isExistingReceipt ? "checkmark.circle.fill" : "square.and.arrow.down.fill"} 
               size={24} 
-              color={isSaved || isExistingReceipt ? '#4CAF50' : (isSaving ? secondaryText : tintColor)} 
+              color={isSaved || isExistingReceipt ? '#4CAF50' : (isSaving || isStreaming ? secondaryText : tintColor)} 
             />
           </TouchableOpacity>
           {printerType === 'system' ? (
             <TouchableOpacity 
               onPress={handlePrint} 
               style={[styles.printButton, { backgroundColor: tintColor + '20' }]}
-              disabled={isPrinting}
+              disabled={isPrinting || isStreaming}
               hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
             >
               <IconSymbol 
                 name="printer.fill" 
                 size={24} 
-                color={isPrinting ? secondaryText : tintColor} 
+                color={isPrinting || isStreaming ? secondaryText : tintColor} 
               />
             </TouchableOpacity>
           ) : (
             <TouchableOpacity 
-              onPress={() => handleEpsonPrint(false)} 
+              onPress={() => handlePosPrint(false)} 
               style={[styles.printButton, { backgroundColor: tintColor + '20' }]}
-              disabled={isEpsonPrinting}
+              disabled={isEpsonPrinting || isStreaming}
               hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
             >
               <IconSymbol 
                 name="printer.fill" 
                 size={24} 
-                color={isEpsonPrinting ? tintColor + '80' : tintColor} 
+                color={isEpsonPrinting || isStreaming ? tintColor + '80' : tintColor} 
               />
             </TouchableOpacity>
           )}
         </View>
       </View>
 
-      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+      <ScrollView ref={scrollViewRef} style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
         {imageUri && (
           <View style={styles.imageToggleContainer}>
             <TouchableOpacity 
@@ -1561,9 +953,39 @@ export default function ReceiptScreen() {
                 {showImage ? 'Hide Image' : 'Show Image'}
               </ThemedText>
             </TouchableOpacity>
+            {showImage && imageUris.length > 1 && (
+              <View style={styles.imagePageRow}>
+                {imageUris.map((_, page) => (
+                  <TouchableOpacity
+                    key={`page-${page}`}
+                    onPress={() => setImagePage(page)}
+                    style={[
+                      styles.imagePageButton,
+                      { borderColor: tintColor },
+                      page === imagePage && { backgroundColor: tintColor },
+                    ]}
+                  >
+                    <ThemedText style={[styles.imagePageText, { color: page === imagePage ? '#fff' : tintColor }]}>
+                      Page {page + 1}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
             {showImage && (
               <View style={[styles.imageContainer, { backgroundColor: cardBackground }]}>
-                <Image source={{ uri: imageUri }} style={styles.image} contentFit="contain" />
+                {isJson && receiptData ? (
+                  <ReceiptImageRegions
+                    imageUri={imageUris[imagePage] || imageUri}
+                    items={receiptData.items}
+                    focusedIndex={focusedItemIndex}
+                    onSelectItem={setFocusedItemIndex}
+                    tintColor={tintColor}
+                    page={imageUris[imagePage] ? imagePage : 0}
+                  />
+                ) : (
+                  <Image source={{ uri: imageUri }} style={styles.image} contentFit="contain" />
+                )}
               </View>
             )}
           </View>
@@ -1615,18 +1037,108 @@ export default function ReceiptScreen() {
                 <ThemedText style={styles.warningTitle}>Totals don’t match</ThemedText>
                 <ThemedText style={[styles.warningText, { color: '#822727' }]}>
                   Items sum ${itemsTotal.toFixed(2)} vs receipt total ${receiptData.total.toFixed(2)} ({mismatchDifferenceDisplay}).
+                  {extractionAttempts > 1 ? ` Still mismatched after ${extractionAttempts} extraction attempts.` : ''}
                   Please double-check or retake the photo. Auto-print is paused.
                 </ThemedText>
               </View>
             </View>
           )}
 
+          {possibleDuplicate && (
+            <View style={[styles.warningBanner, { borderColor: '#FCD34D', backgroundColor: '#FFFBEB' }]}>
+              <IconSymbol name="doc.on.doc.fill" size={18} color="#B45309" />
+              <View style={{ flex: 1 }}>
+                <ThemedText style={styles.warningTitle}>Possible duplicate</ThemedText>
+                <ThemedText style={[styles.warningText, { color: '#92400E' }]}>
+                  Looks like order #{possibleDuplicate.receipt.order_number || '?'}
+                  {possibleDuplicate.savedAt ? `, saved at ${possibleDuplicate.savedAt.toLocaleTimeString()}` : ''}
+                  {' '}({possibleDuplicate.reasons.join(', ')}). It has not been saved again.
+                </ThemedText>
+                <View style={styles.duplicateActions}>
+                  <TouchableOpacity onPress={() => handleOpenDuplicate(possibleDuplicate)}>
+                    <ThemedText style={[styles.warningText, { color: tintColor, fontWeight: '600' }]}>
+                      Open existing order
+                    </ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setDuplicateDismissed(true)}>
+                    <ThemedText style={[styles.warningText, { color: tintColor, fontWeight: '600' }]}>
+                      Not a duplicate
+                    </ThemedText>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          )}
+
+          {receiptData?.extraction?.fromCache && !isSaved && (
+            <View style={[styles.warningBanner, { borderColor: tintColor + '40', backgroundColor: tintColor + '10' }]}>
+              <IconSymbol name="clock.arrow.circlepath" size={18} color={tintColor} />
+              <View style={{ flex: 1 }}>
+                <ThemedText style={styles.warningTitle}>Loaded from cache</ThemedText>
+                <ThemedText style={[styles.warningText, { color: secondaryText }]}>
+                  This photo was extracted before, so no API call was made.
+                </ThemedText>
+                <TouchableOpacity onPress={handleReExtract} disabled={isReExtracting} style={{ marginTop: 6 }}>
+                  <ThemedText style={[styles.warningText, { color: tintColor, fontWeight: '600' }]}>
+                    {isReExtracting ? 'Re-extracting...' : 'Re-extract anyway'}
+                  </ThemedText>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {generalWarnings.length > 0 && (
+            <View style={[styles.warningBanner, { borderColor: '#FCD34D', backgroundColor: '#FFFBEB' }]}>
+              <IconSymbol name="exclamationmark.triangle.fill" size={18} color="#B45309" />
+              <View style={{ flex: 1 }}>
+                <ThemedText style={styles.warningTitle}>Check extracted data</ThemedText>
+                {generalWarnings.map((warning, index) => (
+                  <ThemedText key={`warning-${index}`} style={[styles.warningText, { color: '#92400E' }]}>
+                    {warning.message}
+                  </ThemedText>
+                ))}
+              </View>
+            </View>
+          )}
+
           <View style={styles.receiptBody}>
-            {isJson && receiptData ? (
+            {isStreaming ? (
+              <>
+                {/* Items read so far; the full receipt replaces them once extraction finishes */}
+                <View style={styles.streamingHeader}>
+                  <ActivityIndicator size="small" color={tintColor} />
+                  <ThemedText style={[styles.streamingText, { color: secondaryText }]}>
+                    {stream?.partial?.items.length ? `Reading receipt… ${stream.partial.items.length} items so far` : 'Reading receipt…'}
+                  </ThemedText>
+                </View>
+                {stream?.partial?.items.map((item, index) => (
+                  <View key={`partial-item-${index}`} style={styles.receiptLineContainer}>
+                    <View style={styles.receiptLineWithPrice}>
+                      <View style={styles.receiptLineTextContainer}>
+                        {item.quantity > 1 && (
+                          <ThemedText style={[styles.receiptQuantity, { color: '#0a7ea4' }]}>{item.quantity}x</ThemedText>
+                        )}
+                        <ThemedText style={styles.receiptItemName}>{item.name}</ThemedText>
+                      </View>
+                      <ThemedText style={styles.receiptLinePrice}>${item.price.toFixed(2)}</ThemedText>
+                    </View>
+                  </View>
+                ))}
+              </>
+            ) : isJson && receiptData ? (
               <>
                 {/* Render items from JSON data */}
                 {receiptData.items.map((item, index) => (
-                  <View key={`item-${index}`}>
+                  <TouchableOpacity
+                    key={`item-${index}`}
+                    activeOpacity={0.6}
+                    disabled={!item.boundingBox || !imageUri}
+                    onPress={() => handleFocusItem(index)}
+                    style={[
+                      item.confidence !== undefined && item.confidence < LOW_CONFIDENCE_THRESHOLD && styles.lowConfidenceItem,
+                      focusedItemIndex === index && showImage && { backgroundColor: tintColor + '15' },
+                    ]}
+                  >
                     <View style={styles.receiptLineContainer}>
                       <View style={styles.receiptLineWithPrice}>
                         <View style={styles.receiptLineTextContainer}>
@@ -1638,20 +1150,67 @@ export default function ReceiptScreen() {
                         <ThemedText style={styles.receiptLinePrice}>${item.price.toFixed(2)}</ThemedText>
                       </View>
                     </View>
+                    {item.confidence !== undefined && item.confidence < LOW_CONFIDENCE_THRESHOLD && (
+                      <View style={styles.itemWarning}>
+                        <IconSymbol name="exclamationmark.triangle.fill" size={12} color="#B45309" />
+                        <ThemedText style={styles.itemWarningText}>
+                          Low confidence ({Math.round(item.confidence * 100)}%){item.boundingBox && imageUri ? ' - tap to see on photo' : ''}
+                        </ThemedText>
+                      </View>
+                    )}
+                    {(isMultiPageReceipt || item.mergeId) && (() => {
+                      const mergedCopies = item.mergeId ? (receiptData.mergedItems || []).filter(copy => copy.mergeId === item.mergeId) : [];
+                      const itemPages = Array.from(new Set([item, ...mergedCopies].map(copy => (copy.boundingBox?.page ?? 0) + 1))).sort((a, b) => a - b);
+                      return (
+                        <View style={styles.itemWarning}>
+                          <ThemedText style={[styles.itemPageText, { color: secondaryText }]}>
+                            {itemPages.length > 1 ? `Pages ${itemPages.join(' & ')} · merged duplicate` : `Page ${itemPages[0]}`}
+                          </ThemedText>
+                          {mergedCopies.length > 0 && (
+                            <TouchableOpacity onPress={() => setUndoneMergeIds(ids => [...ids, item.mergeId!])} hitSlop={6}>
+                              <ThemedText style={[styles.itemPageText, { color: tintColor, fontWeight: '600' }]}>Undo merge</ThemedText>
+                            </TouchableOpacity>
+                          )}
+                        </View>
+                      );
+                    })()}
+                    {/* Render warnings repaired during extraction */}
+                    {receiptWarnings.filter(warning => warning.itemIndex === index).map((warning, warningIndex) => (
+                      <View key={`warning-${index}-${warningIndex}`} style={styles.itemWarning}>
+                        <IconSymbol name="exclamationmark.triangle.fill" size={12} color="#B45309" />
+                        <ThemedText style={styles.itemWarningText}>{warning.message}</ThemedText>
+                      </View>
+                    ))}
                     {/* Render modifiers */}
                     {item.modifiers && item.modifiers.length > 0 && item.modifiers.map((modifier, modIndex) => (
                       <View key={`modifier-${index}-${modIndex}`} style={[styles.receiptLineContainer, styles.receiptLineIndented]}>
-                        <ThemedText style={[styles.receiptLine, styles.receiptLineIndentedText, { color: secondaryText }]}>
-                          {modifier}
-                        </ThemedText>
+                        <View style={styles.receiptLineWithPrice}>
+                          <ThemedText style={[styles.receiptLine, styles.receiptLineIndentedText, { color: secondaryText }]}>
+                            {formatModifierLabel(modifier)}
+                          </ThemedText>
+                          {!!modifier.price && (
+                            <ThemedText style={[styles.receiptLineIndentedText, { color: secondaryText }]}>
+                              {formatModifierPrice(modifier)}
+                            </ThemedText>
+                          )}
+                        </View>
                       </View>
                     ))}
-                  </View>
+                  </TouchableOpacity>
                 ))}
                 <View style={[styles.divider, { backgroundColor: borderColor }]} />
+                {/* Render adjustments (discounts, surcharges, tips, ...) */}
+                {receiptData.adjustments && receiptData.adjustments.map((adjustment, adjustmentIndex) => (
+                  <View key={`adjustment-${adjustmentIndex}`} style={styles.receiptLineContainer}>
+                    <View style={styles.receiptLineWithPrice}>
+                      <ThemedText style={[styles.receiptLineText, { color: tertiaryText }]}>{adjustment.label}</ThemedText>
+                      <ThemedText style={[styles.receiptLinePrice, { color: tertiaryText }]}>{formatSignedAmount(adjustment.amount)}</ThemedText>
+                    </View>
+                  </View>
+                ))}
                 {/* Render totals */}
                 {(() => {
-                  const totals = calculateTotals(receiptData.total);
+                  const totals = calculateTotals(receiptData.total, taxConfig, receiptData.items);
                   return (
                     <>
                       <View style={[styles.receiptLineContainer, styles.receiptTotalLine, { borderTopColor: borderColor }]}>
@@ -1662,8 +1221,8 @@ export default function ReceiptScreen() {
                       </View>
                       <View style={styles.receiptLineContainer}>
                         <View style={styles.receiptLineWithPrice}>
-                          <ThemedText style={[styles.receiptLineText, styles.receiptTotalLabel]}>GST:</ThemedText>
-                          <ThemedText style={[styles.receiptLinePrice, styles.receiptTotalPrice]}>${totals.gst.toFixed(2)}</ThemedText>
+                          <ThemedText style={[styles.receiptLineText, styles.receiptTotalLabel]}>{totals.taxLabel}:</ThemedText>
+                          <ThemedText style={[styles.receiptLinePrice, styles.receiptTotalPrice]}>${totals.tax.toFixed(2)}</ThemedText>
                         </View>
                       </View>
                       <View style={styles.receiptLineContainer}>
@@ -1672,6 +1231,15 @@ export default function ReceiptScreen() {
                           <ThemedText style={[styles.receiptLinePrice, styles.receiptTotalPrice]}>${totals.total.toFixed(2)}</ThemedText>
                         </View>
                       </View>
+                      {/* Render payments */}
+                      {receiptData.payments && receiptData.payments.map((payment, paymentIndex) => (
+                        <View key={`payment-${paymentIndex}`} style={styles.receiptLineContainer}>
+                          <View style={styles.receiptLineWithPrice}>
+                            <ThemedText style={[styles.receiptLineText, { color: secondaryText }]}>{payment.method}</ThemedText>
+                            <ThemedText style={[styles.receiptLinePrice, { color: secondaryText }]}>${payment.amount.toFixed(2)}</ThemedText>
+                          </View>
+                        </View>
+                      ))}
                     </>
                   );
                 })()}
@@ -1856,8 +1424,8 @@ export default function ReceiptScreen() {
           </View>
         )}
 
-        {/* Print to All Printers Button - Show when multiple printers are found */}
-        {printers && printers.length > 1 && (
+        {/* Print to All Printers Button - Show when multiple printers are found and no printer profiles route the tickets */}
+        {printers && printers.length > 1 && printerProfiles.length === 0 && (
           <TouchableOpacity
             onPress={handlePrintToAllPrinters}
             style={[styles.printToAllButton, { backgroundColor: tintColor, borderColor: tintColor }]}
@@ -1956,6 +1524,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  imagePageRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  imagePageButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  imagePageText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
   imageContainer: {
     width: '100%',
     height: 200,
@@ -2074,6 +1657,28 @@ const styles = StyleSheet.create({
     fontSize: 12,
     lineHeight: 18,
   },
+  duplicateActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 6,
+  },
+  lowConfidenceItem: {
+    backgroundColor: '#FEF3C7',
+    borderRadius: 4,
+  },
+  itemWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 4,
+  },
+  itemWarningText: {
+    fontSize: 12,
+    color: '#B45309',
+  },
+  itemPageText: {
+    fontSize: 12,
+  },
   divider: {
     width: '100%',
     height: 1,
@@ -2152,6 +1757,16 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontStyle: 'italic',
   },
+  streamingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  streamingText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
   receiptFooter: {
     alignItems: 'center',
     marginTop: 8,
@@ -0,0 +1,269 @@
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { type CapturedPage } from '@/utils/capturedPages';
+import { Image } from 'expo-image';
+import { useMemo, useRef, useState } from 'react';
+import { Animated, PanResponder, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+interface PageTrayProps {
+  pages: CapturedPage[];
+  retakingPageId: string | null;
+  onDelete: (id: string) => void;
+  onRetake: (id: string) => void;
+  onReorder: (from: number, to: number) => void;
+  onProcess: () => void;
+  disabled?: boolean;
+}
+
+interface PageThumbnailProps {
+  page: CapturedPage;
+  index: number;
+  retaking: boolean;
+  onDelete: (id: string) => void;
+  onRetake: (id: string) => void;
+  onReorder: (from: number, to: number) => void;
+  onDragChange: (dragging: boolean) => void;
+}
+
+const THUMB_WIDTH = 64;
+const THUMB_GAP = 10;
+const SLOT_WIDTH = THUMB_WIDTH + THUMB_GAP;
+const DRAG_DELAY_MS = 250; // Hold this long before a page can be dragged, so swipes still scroll the tray
+const TINT = '#0a7ea4';
+
+/**
+ * One page in the tray: hold and drag sideways to move it, or use its retake/delete buttons
+ */
+function PageThumbnail({ page, index, retaking, onDelete, onRetake, onReorder, onDragChange }: PageThumbnailProps) {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const [dragging, setDragging] = useState(false);
+  const armedRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // The responder is created once, so it reads the latest position and callback through a ref
+  const latestRef = useRef({ index, onReorder, onDragChange });
+  latestRef.current = { index, onReorder, onDragChange };
+
+  const panResponder = useMemo(() => {
+    const clearTimer = () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+    };
+    const finish = (dx: number) => {
+      clearTimer();
+      if (!armedRef.current) return;
+      armedRef.current = false;
+      setDragging(false);
+      latestRef.current.onDragChange(false);
+      translateX.setValue(0);
+      const offset = Math.round(dx / SLOT_WIDTH);
+      if (offset !== 0) {
+        latestRef.current.onReorder(latestRef.current.index, latestRef.current.index + offset);
+      }
+    };
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        timerRef.current = setTimeout(() => {
+          armedRef.current = true;
+          setDragging(true);
+          latestRef.current.onDragChange(true);
+        }, DRAG_DELAY_MS);
+      },
+      onPanResponderMove: (_, gesture) => {
+        if (armedRef.current) {
+          translateX.setValue(gesture.dx);
+        } else if (Math.abs(gesture.dx) > 8) {
+          clearTimer(); // Moved before the hold completed: it's a scroll, not a drag
+        }
+      },
+      onPanResponderTerminationRequest: () => !armedRef.current,
+      onPanResponderRelease: (_, gesture) => finish(gesture.dx),
+      onPanResponderTerminate: () => finish(0),
+    });
+  }, [translateX]);
+
+  return (
+    <Animated.View
+      {...panResponder.panHandlers}
+      style={[
+        styles.thumbnail,
+        retaking && styles.thumbnailRetaking,
+        dragging && styles.thumbnailDragging,
+        { transform: [{ translateX }] },
+      ]}
+    >
+      <Image
+        source={{ uri: page.uri ?? `data:image/jpeg;base64,${page.base64}` }}
+        style={styles.thumbnailImage}
+        contentFit="cover"
+      />
+      <View style={styles.pageNumber}>
+        <ThemedText style={styles.pageNumberText}>{index + 1}</ThemedText>
+      </View>
+      <TouchableOpacity style={[styles.thumbnailAction, styles.deleteAction]} onPress={() => onDelete(page.id)} hitSlop={6}>
+        <IconSymbol name="xmark" size={12} color="#fff" />
+      </TouchableOpacity>
+      <TouchableOpacity style={[styles.thumbnailAction, styles.retakeAction]} onPress={() => onRetake(page.id)} hitSlop={6}>
+        <IconSymbol name="arrow.triangle.2.circlepath.camera.fill" size={12} color="#fff" />
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+/**
+ * Review tray for multi-page capture
+ * Shows the captured pages in order with delete, retake-this-page and drag to reorder,
+ * plus a button that sends all pages for extraction
+ */
+export function PageTray({ pages, retakingPageId, onDelete, onRetake, onReorder, onProcess, disabled }: PageTrayProps) {
+  const [dragging, setDragging] = useState(false);
+  const retakingIndex = pages.findIndex(page => page.id === retakingPageId);
+
+  return (
+    <View style={styles.tray}>
+      <ThemedText style={styles.hint}>
+        {retakingIndex >= 0
+          ? `Retaking page ${retakingIndex + 1} - take the photo or tap retake again to cancel`
+          : `${pages.length} page${pages.length === 1 ? '' : 's'} · hold and drag to reorder`}
+      </ThemedText>
+      <View style={styles.row}>
+        <ScrollView
+          horizontal
+          scrollEnabled={!dragging}
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.list}
+          style={styles.scroll}
+        >
+          {pages.map((page, index) => (
+            <PageThumbnail
+              key={page.id}
+              page={page}
+              index={index}
+              retaking={page.id === retakingPageId}
+              onDelete={onDelete}
+              onRetake={onRetake}
+              onReorder={onReorder}
+              onDragChange={setDragging}
+            />
+          ))}
+        </ScrollView>
+        <TouchableOpacity
+          style={[styles.processButton, disabled && styles.processButtonDisabled]}
+          onPress={onProcess}
+          disabled={disabled}
+          activeOpacity={0.8}
+        >
+          <IconSymbol name="sparkles" size={18} color="#fff" />
+          <ThemedText style={styles.processButtonText}>Process</ThemedText>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tray: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 16,
+    padding: 10,
+    gap: 8,
+  },
+  hint: {
+    color: '#fff',
+    fontSize: 12,
+    opacity: 0.8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  scroll: {
+    flex: 1,
+  },
+  list: {
+    gap: THUMB_GAP,
+    paddingTop: 6,
+    paddingRight: 6,
+  },
+  thumbnail: {
+    width: THUMB_WIDTH,
+    height: THUMB_WIDTH * 1.35,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  thumbnailRetaking: {
+    borderColor: '#F59E0B',
+  },
+  thumbnailDragging: {
+    borderColor: TINT,
+    opacity: 0.85,
+    zIndex: 10,
+    elevation: 10,
+  },
+  thumbnailImage: {
+    flex: 1,
+    borderRadius: 6,
+  },
+  pageNumber: {
+    position: 'absolute',
+    left: 4,
+    bottom: 4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: TINT,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+  },
+  pageNumberText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '700',
+    lineHeight: 14,
+  },
+  thumbnailAction: {
+    position: 'absolute',
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#fff',
+  },
+  deleteAction: {
+    top: -6,
+    right: -6,
+    backgroundColor: '#DC2626',
+  },
+  retakeAction: {
+    bottom: -6,
+    right: -6,
+    backgroundColor: '#F59E0B',
+  },
+  processButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 24,
+    backgroundColor: TINT,
+  },
+  processButtonDisabled: {
+    opacity: 0.5,
+  },
+  processButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
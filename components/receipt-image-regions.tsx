@@ -0,0 +1,150 @@
+import { ThemedText } from '@/components/themed-text';
+import { LOW_CONFIDENCE_THRESHOLD, type ReceiptItem } from '@/utils/ocr';
+import { Image } from 'expo-image';
+import { useMemo, useState } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+interface ReceiptImageRegionsProps {
+  imageUri: string;
+  items: ReceiptItem[];
+  focusedIndex: number | null;
+  onSelectItem: (index: number | null) => void;
+  tintColor: string;
+  page?: number; // Which image of a multi-page receipt this is (0-based)
+}
+
+const MAX_ZOOM = 4;
+const LOW_CONFIDENCE_COLOR = '#DC2626';
+
+/**
+ * Receipt photo with each item's source region drawn on top
+ * Low-confidence items are highlighted; the focused item is zoomed into view
+ */
+export function ReceiptImageRegions({
+  imageUri,
+  items,
+  focusedIndex,
+  onSelectItem,
+  tintColor,
+  page = 0,
+}: ReceiptImageRegionsProps) {
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  // Where the photo is drawn inside the container (contentFit="contain" letterboxes it)
+  const imageRect = useMemo(() => {
+    if (!imageSize || !containerSize.width || !containerSize.height) return null;
+    const scale = Math.min(containerSize.width / imageSize.width, containerSize.height / imageSize.height);
+    const width = imageSize.width * scale;
+    const height = imageSize.height * scale;
+    return {
+      x: (containerSize.width - width) / 2,
+      y: (containerSize.height - height) / 2,
+      width,
+      height,
+    };
+  }, [imageSize, containerSize]);
+
+  const regions = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.boundingBox && (item.boundingBox.page ?? 0) === page);
+
+  // Scale and offset that centre the focused region and fill most of the view with it
+  const zoom = useMemo(() => {
+    const box = focusedIndex !== null ? items[focusedIndex]?.boundingBox : undefined;
+    if (!box || !imageRect || (box.page ?? 0) !== page) {
+      return { scale: 1, translateX: 0, translateY: 0 };
+    }
+    const boxWidth = Math.max(1, box.width * imageRect.width);
+    const boxHeight = Math.max(1, box.height * imageRect.height);
+    const scale = Math.max(1, Math.min(
+      MAX_ZOOM,
+      (containerSize.width * 0.9) / boxWidth,
+      (containerSize.height * 0.9) / boxHeight
+    ));
+    const centerX = imageRect.x + (box.x + box.width / 2) * imageRect.width;
+    const centerY = imageRect.y + (box.y + box.height / 2) * imageRect.height;
+    return {
+      scale,
+      translateX: containerSize.width / 2 - centerX,
+      translateY: containerSize.height / 2 - centerY,
+    };
+  }, [focusedIndex, items, imageRect, containerSize, page]);
+
+  return (
+    <View
+      style={styles.container}
+      onLayout={(e) => setContainerSize({ width: e.nativeEvent.layout.width, height: e.nativeEvent.layout.height })}
+    >
+      <View
+        style={[
+          StyleSheet.absoluteFill,
+          // Transforms apply right to left: move the region to the centre, then scale around it
+          { transform: [{ scale: zoom.scale }, { translateX: zoom.translateX }, { translateY: zoom.translateY }] },
+        ]}
+      >
+        <Image
+          source={{ uri: imageUri }}
+          style={StyleSheet.absoluteFill}
+          contentFit="contain"
+          onLoad={(e) => setImageSize({ width: e.source.width, height: e.source.height })}
+        />
+        {imageRect && regions.map(({ item, index }) => {
+          const box = item.boundingBox!;
+          const isLowConfidence = item.confidence !== undefined && item.confidence < LOW_CONFIDENCE_THRESHOLD;
+          const isFocused = index === focusedIndex;
+          const color = isLowConfidence ? LOW_CONFIDENCE_COLOR : tintColor;
+          return (
+            <TouchableOpacity
+              key={`region-${index}`}
+              onPress={() => onSelectItem(isFocused ? null : index)}
+              style={[
+                styles.region,
+                {
+                  left: imageRect.x + box.x * imageRect.width,
+                  top: imageRect.y + box.y * imageRect.height,
+                  width: box.width * imageRect.width,
+                  height: box.height * imageRect.height,
+                  borderColor: color,
+                  // Keep the outline thin on screen regardless of zoom
+                  borderWidth: (isFocused ? 2.5 : 1.5) / zoom.scale,
+                  backgroundColor: isLowConfidence || isFocused ? color + '26' : 'transparent',
+                },
+              ]}
+            />
+          );
+        })}
+      </View>
+      {focusedIndex !== null && (
+        <TouchableOpacity style={styles.resetButton} onPress={() => onSelectItem(null)}>
+          <ThemedText style={styles.resetButtonText}>Show full photo</ThemedText>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    height: '100%',
+    overflow: 'hidden',
+  },
+  region: {
+    position: 'absolute',
+    borderRadius: 2,
+  },
+  resetButton: {
+    position: 'absolute',
+    right: 8,
+    bottom: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  resetButtonText: {
+    color: '#fff',
+    fontSize: 12,
+  },
+});
@@ -45,6 +45,11 @@ const MAPPING = {
   'doc.on.doc.fill': 'description',
   'chart.bar.fill': 'bar-chart',
   'xmark': 'close',
+  'server.rack': 'dns',
+  'clock.arrow.circlepath': 'history',
+  'exclamationmark.triangle.fill': 'warning',
+  'crop': 'crop',
+  'icloud.slash': 'cloud-off',
 } as IconMapping;
 
 /**
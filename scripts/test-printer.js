@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+/**
+ * Runs the printer drivers without printer hardware:
+ * - the network driver prints to a local TCP listener, and the bytes it records
+ *   are checked against the ESC/POS encoder's output
+ * - the in-memory driver records the text of each copy
+ *
+ * The TypeScript sources are compiled on the fly; native modules (React Native,
+ * Expo) are replaced with empty objects since Node cannot load them.
+ *
+ * Usage: npm test
+ */
+
+const assert = require("assert");
+const { Buffer } = require("buffer");
+const fs = require("fs");
+const Module = require("module");
+const net = require("net");
+const ts = require("typescript");
+
+const NATIVE_MODULE = /^(react-native|expo|@react-native|@expo)([/-]|$)/;
+
+require.extensions[".ts"] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, "utf8"), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const originalLoad = Module._load;
+Module._load = function (request, parent, isMain) {
+  if (NATIVE_MODULE.test(request)) return {};
+  return originalLoad.call(this, request, parent, isMain);
+};
+
+const { EscPosEncoder, encodePrintCommands } = require("../utils/escpos.ts");
+const { createMemoryDriver, createNetworkDriver, runPrintJob } = require("../utils/printer.ts");
+
+const commands = [
+  { type: "align", align: "center" },
+  { type: "style", bold: true, doubleSize: true },
+  { type: "text", text: "Order #42\n" },
+  { type: "style", bold: false, doubleSize: false },
+  { type: "align", align: "left" },
+  { type: "text", text: "1x Phở bò                  12.50\n" },
+  { type: "feed", lines: 2 },
+];
+
+/**
+ * Start a TCP listener on a free local port that records every connection's bytes
+ */
+function startListener() {
+  const connections = [];
+  const server = net.createServer(socket => {
+    const chunks = [];
+    connections.push(chunks);
+    socket.on("data", chunk => chunks.push(chunk));
+    // Like a printer, close our side once the client is done sending
+    socket.on("end", () => socket.end());
+  });
+  return new Promise(resolve => {
+    server.listen(0, "127.0.0.1", () => resolve({ server, port: server.address().port, connections }));
+  });
+}
+
+async function testNetworkDriver() {
+  const { server, port, connections } = await startListener();
+  try {
+    const config = { host: "127.0.0.1", port, codePage: "cp858" };
+    await runPrintJob(createNetworkDriver(config, { net }), { commands }, 2);
+
+    const copy = Buffer.concat([
+      Buffer.from(encodePrintCommands(commands, config.codePage)),
+      Buffer.from(new EscPosEncoder(config.codePage).cut().encode()),
+    ]);
+    assert.strictEqual(connections.length, 1, "expected one connection for the whole job");
+    assert.deepStrictEqual(Buffer.concat(connections[0]), Buffer.concat([copy, copy]), "recorded bytes differ from the encoder output");
+  } finally {
+    server.close();
+  }
+  console.log("ok - network driver sends the encoded job to the listener");
+}
+
+async function testUnreachablePrinter() {
+  const { server, port } = await startListener();
+  await new Promise(resolve => server.close(resolve));
+  await assert.rejects(
+    runPrintJob(createNetworkDriver({ host: "127.0.0.1", port, codePage: "cp437" }, { net }), { commands }),
+    error => error.name === "PrintJobError" && error.step === "connecting to printer"
+  );
+  console.log("ok - network driver reports a refused connection as a connect failure");
+}
+
+async function testMemoryDriver() {
+  const driver = createMemoryDriver();
+  await runPrintJob(driver, { commands }, 2);
+  assert.strictEqual(driver.jobs.length, 2, "expected one job per copy");
+  assert.ok(driver.jobs[0].includes("Order #42"), "job text is missing the order number");
+  assert.strictEqual(driver.connected, false, "driver should be disconnected after the job");
+  console.log("ok - memory driver records each copy");
+}
+
+(async () => {
+  await testNetworkDriver();
+  await testUnreachablePrinter();
+  await testMemoryDriver();
+})().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
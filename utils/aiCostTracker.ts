@@ -286,6 +286,33 @@ export async function recordAPIUsage(
   }
 }
 
+/**
+ * Record a hop along the generative model fallback chain
+ */
+export async function recordModelFallback(
+  fromModel: string,
+  toModel: string,
+  reason: string
+): Promise<void> {
+  console.warn(`Model fallback: ${fromModel} -> ${toModel} (${reason})`);
+  if (!isDatabaseConfigured()) {
+    return;
+  }
+
+  try {
+    const client = getClient();
+    await client.execute({
+      sql: `
+        INSERT INTO ai_model_fallbacks (timestamp, date, from_model, to_model, reason)
+        VALUES (?, ?, ?, ?, ?)
+      `,
+      args: [Date.now(), getLocalDateString(), fromModel, toModel, reason],
+    });
+  } catch (error) {
+    console.error('Error recording model fallback:', error);
+  }
+}
+
 /**
  * Get daily usage for today
  */
@@ -408,12 +435,14 @@ export async function getTodayCostSummary(): Promise<{
   requests: number;
   tokens: number;
   cost: number;
+  fallbacks: number;
 }> {
   if (!isDatabaseConfigured()) {
     return {
       requests: 0,
       tokens: 0,
       cost: 0,
+      fallbacks: 0,
     };
   }
 
@@ -432,11 +461,21 @@ export async function getTodayCostSummary(): Promise<{
       args: [today],
     });
 
+    const fallbackResult = await client.execute({
+      sql: `
+        SELECT COUNT(*) as fallbacks
+        FROM ai_model_fallbacks
+        WHERE date = ?
+      `,
+      args: [today],
+    });
+
     const row = result.rows[0];
     return {
       requests: Number(row.requests) || 0,
       tokens: Number(row.tokens) || 0,
       cost: Number(row.cost) || 0,
+      fallbacks: Number(fallbackResult.rows[0]?.fallbacks) || 0,
     };
   } catch (error) {
     console.error('Error getting today cost summary:', error);
@@ -444,6 +483,7 @@ export async function getTodayCostSummary(): Promise<{
       requests: 0,
       tokens: 0,
       cost: 0,
+      fallbacks: 0,
     };
   }
 }
@@ -462,6 +502,9 @@ export async function clearUsageData(): Promise<void> {
     await client.execute({
       sql: 'DELETE FROM ai_usage',
     });
+    await client.execute({
+      sql: 'DELETE FROM ai_model_fallbacks',
+    });
     console.log('AI usage data cleared successfully');
   } catch (error) {
     console.error('Error clearing usage data:', error);
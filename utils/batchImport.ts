@@ -0,0 +1,176 @@
+/**
+ * Batch Import Queue
+ *
+ * Turns a stack of gallery photos into separate orders: each photo gets its own
+ * order number, is extracted in turn in the background and saved to the database.
+ * Screens subscribe to the queue for progress; the queue lives for the app session
+ * so leaving the summary screen does not stop the import.
+ */
+
+import { File } from 'expo-file-system';
+import { computeImageHash } from './duplicateDetection';
+import { preprocessReceiptImage } from './imagePreprocessing';
+import { extractTextFromImageWithMode } from './ocr';
+import { getNextOrderNumber } from './orderNumber';
+import { saveExtractedOrder } from './orderRecords';
+import { getImageOptimization, getImageOptimizationQuality, getImageOptimizationResizeWidth, getImagePreprocessingConfig, getOCRMode } from './settings';
+
+// Lazy load ImageManipulator - it's a native module that requires a development build
+let ImageManipulator: any = null;
+try {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  ImageManipulator = require('expo-image-manipulator');
+} catch (e) {
+  ImageManipulator = null;
+}
+
+export type BatchImportStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export interface BatchImportJob {
+  id: string;
+  uri: string;
+  isPaid: boolean;
+  status: BatchImportStatus;
+  orderNumber?: number; // Taken when the photo is first processed and kept across retries
+  receiptId?: number; // Set when the order was saved to the database
+  extractedText?: string; // Extraction result as passed to the receipt screen
+  extractedDataType?: 'json' | 'text';
+  total?: number;
+  itemCount?: number;
+  totalMismatch?: boolean;
+  error?: string;
+}
+
+export interface BatchImportState {
+  jobs: BatchImportJob[];
+  running: boolean;
+}
+
+type BatchImportListener = (state: BatchImportState) => void;
+
+let jobs: BatchImportJob[] = [];
+let running = false;
+const listeners = new Set<BatchImportListener>();
+
+function notify(): void {
+  const state = getBatchImportState();
+  listeners.forEach(listener => listener(state));
+}
+
+function updateJob(id: string, changes: Partial<BatchImportJob>): void {
+  jobs = jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+  notify();
+}
+
+/**
+ * Current queue snapshot
+ */
+export function getBatchImportState(): BatchImportState {
+  return { jobs, running };
+}
+
+/**
+ * Listen for queue changes; returns the unsubscribe function
+ */
+export function subscribeToBatchImport(listener: BatchImportListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Load a photo as base64 with the same resize/quality settings as a single capture
+ */
+async function loadImage(uri: string): Promise<{ base64: string; uri: string; quality: number }> {
+  const optimizeImage = await getImageOptimization();
+  const quality = optimizeImage ? (await getImageOptimizationQuality()) / 100 : 0.9;
+
+  if (ImageManipulator) {
+    const actions = optimizeImage ? [{ resize: { width: await getImageOptimizationResizeWidth() } }] : [];
+    const manipulated = await ImageManipulator.manipulateAsync(
+      uri,
+      actions,
+      { compress: quality, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+    );
+    if (manipulated.base64) {
+      return { base64: manipulated.base64, uri: manipulated.uri, quality };
+    }
+  }
+  return { base64: await new File(uri).base64(), uri, quality };
+}
+
+async function processJob(job: BatchImportJob): Promise<void> {
+  updateJob(job.id, { status: 'processing', error: undefined });
+
+  const orderNumber = job.orderNumber ?? await getNextOrderNumber();
+  updateJob(job.id, { orderNumber });
+
+  try {
+    let image = await loadImage(job.uri);
+    const preprocessed = await preprocessReceiptImage(image.uri, image.base64, await getImagePreprocessingConfig(), image.quality);
+    if (preprocessed) {
+      image = { ...image, base64: preprocessed.base64, uri: preprocessed.uri };
+    }
+
+    const ocrMode = await getOCRMode();
+    const extractedData = await extractTextFromImageWithMode(image.base64, ocrMode, false);
+    const saved = await saveExtractedOrder(extractedData, orderNumber, job.isPaid, await computeImageHash(image.uri));
+    updateJob(job.id, { status: 'done', ...saved });
+  } catch (error: any) {
+    console.error('Batch import error:', error);
+    updateJob(job.id, { status: 'failed', error: error?.message || 'Failed to process image' });
+  }
+}
+
+async function runQueue(): Promise<void> {
+  if (running) return;
+  running = true;
+  notify();
+  try {
+    let next = jobs.find(job => job.status === 'pending');
+    while (next) {
+      await processJob(next);
+      next = jobs.find(job => job.status === 'pending');
+    }
+  } finally {
+    running = false;
+    notify();
+  }
+}
+
+/**
+ * Queue photos for import, one order per photo, and start processing
+ */
+export function startBatchImport(uris: string[], options: { isPaid?: boolean } = {}): void {
+  const createdAt = Date.now();
+  jobs = [
+    ...jobs,
+    ...uris.map((uri, index) => ({
+      id: `${createdAt}-${index}`,
+      uri,
+      isPaid: !!options.isPaid,
+      status: 'pending' as const,
+    })),
+  ];
+  notify();
+  runQueue();
+}
+
+/**
+ * Queue a failed photo again (it keeps its order number)
+ */
+export function retryBatchImportJob(id: string): void {
+  const job = jobs.find(item => item.id === id);
+  if (!job || job.status !== 'failed') return;
+  updateJob(id, { status: 'pending', error: undefined });
+  runQueue();
+}
+
+/**
+ * Remove finished photos from the summary (pending and in-progress ones stay)
+ */
+export function clearFinishedBatchImports(): void {
+  jobs = jobs.filter(job => job.status === 'pending' || job.status === 'processing');
+  notify();
+}
@@ -0,0 +1,80 @@
+/**
+ * Captured Pages Store
+ *
+ * Persists the multi-page capture tray so pages survive leaving the capture
+ * screen or an app restart. Only page ids and file URIs are stored; the base64
+ * payload is re-read from disk on restore, keeping AsyncStorage small.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { File } from 'expo-file-system';
+
+const CAPTURED_PAGES_KEY = '@snap_receipt:captured_pages';
+
+export interface CapturedPage {
+  id: string;
+  base64: string;
+  uri?: string;
+}
+
+/**
+ * Create a unique id for a new page
+ */
+export function createPageId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Move a page to a new position, returning a new array
+ */
+export function movePage(pages: CapturedPage[], from: number, to: number): CapturedPage[] {
+  const target = Math.max(0, Math.min(pages.length - 1, to));
+  if (from === target || from < 0 || from >= pages.length) return pages;
+  const next = [...pages];
+  const [page] = next.splice(from, 1);
+  next.splice(target, 0, page);
+  return next;
+}
+
+/**
+ * Save the tray (pages without a file URI cannot be restored and are skipped)
+ */
+export async function saveCapturedPages(pages: CapturedPage[]): Promise<void> {
+  try {
+    const stored = pages.filter(page => page.uri).map(page => ({ id: page.id, uri: page.uri }));
+    if (stored.length === 0) {
+      await AsyncStorage.removeItem(CAPTURED_PAGES_KEY);
+      return;
+    }
+    await AsyncStorage.setItem(CAPTURED_PAGES_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Error saving captured pages:', error);
+  }
+}
+
+/**
+ * Restore the saved tray, dropping pages whose file no longer exists
+ */
+export async function getSavedCapturedPages(): Promise<CapturedPage[]> {
+  try {
+    const value = await AsyncStorage.getItem(CAPTURED_PAGES_KEY);
+    if (!value) return [];
+
+    const stored: Array<{ id: string; uri: string }> = JSON.parse(value);
+    const pages: CapturedPage[] = [];
+    for (const { id, uri } of stored) {
+      try {
+        const file = new File(uri);
+        if (file.exists) {
+          pages.push({ id, uri, base64: await file.base64() });
+        }
+      } catch (error) {
+        console.warn('Could not restore captured page:', uri, error);
+      }
+    }
+    return pages;
+  } catch (error) {
+    console.error('Error getting captured pages:', error);
+    return [];
+  }
+}
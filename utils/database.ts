@@ -75,6 +75,42 @@ export async function initDatabase(): Promise<void> {
       }
     }
     
+    // Add ai_model column if it doesn't exist (model that produced the receipt data)
+    try {
+      await client.execute(`
+        ALTER TABLE receipts ADD COLUMN ai_model TEXT
+      `);
+    } catch (e: any) {
+      // Column already exists, ignore error
+      if (!e?.message?.includes('duplicate column')) {
+        console.warn('Error adding ai_model column (may already exist):', e);
+      }
+    }
+    
+    // Add tax_amount column if it doesn't exist (tax included in total_price at save time)
+    try {
+      await client.execute(`
+        ALTER TABLE receipts ADD COLUMN tax_amount REAL
+      `);
+    } catch (e: any) {
+      // Column already exists, ignore error
+      if (!e?.message?.includes('duplicate column')) {
+        console.warn('Error adding tax_amount column (may already exist):', e);
+      }
+    }
+    
+    // Add image_hash column if it doesn't exist (perceptual hash of the photo, for duplicate checks)
+    try {
+      await client.execute(`
+        ALTER TABLE receipts ADD COLUMN image_hash TEXT
+      `);
+    } catch (e: any) {
+      // Column already exists, ignore error
+      if (!e?.message?.includes('duplicate column')) {
+        console.warn('Error adding image_hash column (may already exist):', e);
+      }
+    }
+    
     // Create ai_usage table for cost tracking
     await client.execute(`
       CREATE TABLE IF NOT EXISTS ai_usage (
@@ -97,6 +133,19 @@ export async function initDatabase(): Promise<void> {
       CREATE INDEX IF NOT EXISTS idx_ai_usage_date ON ai_usage(date)
     `);
     
+    // Create ai_model_fallbacks table (one row per hop along the model fallback chain)
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ai_model_fallbacks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        date TEXT NOT NULL,
+        from_model TEXT NOT NULL,
+        to_model TEXT NOT NULL,
+        reason TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      )
+    `);
+    
     // Create index on timestamp for faster queries
     await client.execute(`
       CREATE INDEX IF NOT EXISTS idx_ai_usage_timestamp ON ai_usage(timestamp)
@@ -119,6 +168,9 @@ export interface ReceiptRecord {
   receipt_data: string; // JSON stringified receipt data
   order_number?: string;
   is_paid?: boolean;
+  ai_model?: string; // Generative model that produced the receipt data
+  tax_amount?: number; // Tax included in total_price (unset for receipts saved before tax settings)
+  image_hash?: string; // Perceptual hash of the receipt photo (hex)
   created_at?: string;
 }
 
@@ -134,8 +186,8 @@ export async function saveReceipt(receipt: Omit<ReceiptRecord, 'id' | 'created_a
     const client = getClient();
     const result = await client.execute({
       sql: `
-        INSERT INTO receipts (date, total_price, receipt_data, order_number, is_paid)
-        VALUES (?, ?, ?, ?, ?)
+        INSERT INTO receipts (date, total_price, receipt_data, order_number, is_paid, ai_model, tax_amount, image_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `,
       args: [
         receipt.date,
@@ -143,6 +195,9 @@ export async function saveReceipt(receipt: Omit<ReceiptRecord, 'id' | 'created_a
         receipt.receipt_data,
         receipt.order_number || null,
         receipt.is_paid ? 1 : 0,
+        receipt.ai_model || null,
+        receipt.tax_amount ?? null,
+        receipt.image_hash || null,
       ],
     });
     
@@ -179,6 +234,9 @@ export async function getReceiptsByDate(date: string): Promise<ReceiptRecord[]>
       receipt_data: String(row.receipt_data),
       order_number: row.order_number ? String(row.order_number) : undefined,
       is_paid: row.is_paid ? Boolean(row.is_paid) : false,
+      ai_model: row.ai_model ? String(row.ai_model) : undefined,
+      tax_amount: row.tax_amount !== null && row.tax_amount !== undefined ? Number(row.tax_amount) : undefined,
+      image_hash: row.image_hash ? String(row.image_hash) : undefined,
       created_at: row.created_at ? String(row.created_at) : undefined,
     }));
   } catch (error) {
@@ -215,6 +273,9 @@ export async function getTodayReceipts(limit: number = 5): Promise<ReceiptRecord
       receipt_data: String(row.receipt_data),
       order_number: row.order_number ? String(row.order_number) : undefined,
       is_paid: row.is_paid ? Boolean(row.is_paid) : false,
+      ai_model: row.ai_model ? String(row.ai_model) : undefined,
+      tax_amount: row.tax_amount !== null && row.tax_amount !== undefined ? Number(row.tax_amount) : undefined,
+      image_hash: row.image_hash ? String(row.image_hash) : undefined,
       created_at: row.created_at ? String(row.created_at) : undefined,
     }));
   } catch (error) {
@@ -249,6 +310,9 @@ export async function getRecentReceipts(limit: number = 5): Promise<ReceiptRecor
       receipt_data: String(row.receipt_data),
       order_number: row.order_number ? String(row.order_number) : undefined,
       is_paid: row.is_paid ? Boolean(row.is_paid) : false,
+      ai_model: row.ai_model ? String(row.ai_model) : undefined,
+      tax_amount: row.tax_amount !== null && row.tax_amount !== undefined ? Number(row.tax_amount) : undefined,
+      image_hash: row.image_hash ? String(row.image_hash) : undefined,
       created_at: row.created_at ? String(row.created_at) : undefined,
     }));
   } catch (error) {
@@ -257,6 +321,45 @@ export async function getRecentReceipts(limit: number = 5): Promise<ReceiptRecor
   }
 }
 
+/**
+ * Get receipts saved since the given time, most recent first
+ */
+export async function getReceiptsSince(since: Date): Promise<ReceiptRecord[]> {
+  if (!isDatabaseConfigured()) {
+    return [];
+  }
+
+  try {
+    const client = getClient();
+    // created_at is stored by SQLite's datetime('now'): UTC as "YYYY-MM-DD HH:MM:SS"
+    const sinceUtc = since.toISOString().replace('T', ' ').slice(0, 19);
+    const result = await client.execute({
+      sql: `
+        SELECT * FROM receipts 
+        WHERE created_at >= ?
+        ORDER BY created_at DESC
+      `,
+      args: [sinceUtc],
+    });
+
+    return result.rows.map(row => ({
+      id: Number(row.id),
+      date: String(row.date),
+      total_price: Number(row.total_price),
+      receipt_data: String(row.receipt_data),
+      order_number: row.order_number ? String(row.order_number) : undefined,
+      is_paid: row.is_paid ? Boolean(row.is_paid) : false,
+      ai_model: row.ai_model ? String(row.ai_model) : undefined,
+      tax_amount: row.tax_amount !== null && row.tax_amount !== undefined ? Number(row.tax_amount) : undefined,
+      image_hash: row.image_hash ? String(row.image_hash) : undefined,
+      created_at: row.created_at ? String(row.created_at) : undefined,
+    }));
+  } catch (error) {
+    console.error('Error getting receipts since date:', error);
+    return [];
+  }
+}
+
 /**
  * Get all receipts ordered by date descending
  */
@@ -281,6 +384,9 @@ export async function getAllReceipts(): Promise<ReceiptRecord[]> {
       receipt_data: String(row.receipt_data),
       order_number: row.order_number ? String(row.order_number) : undefined,
       is_paid: row.is_paid ? Boolean(row.is_paid) : false,
+      ai_model: row.ai_model ? String(row.ai_model) : undefined,
+      tax_amount: row.tax_amount !== null && row.tax_amount !== undefined ? Number(row.tax_amount) : undefined,
+      image_hash: row.image_hash ? String(row.image_hash) : undefined,
       created_at: row.created_at ? String(row.created_at) : undefined,
     }));
   } catch (error) {
@@ -344,6 +450,9 @@ export async function getReceiptById(receiptId: number): Promise<ReceiptRecord |
       receipt_data: String(row.receipt_data),
       order_number: row.order_number ? String(row.order_number) : undefined,
       is_paid: row.is_paid ? Boolean(row.is_paid) : false,
+      ai_model: row.ai_model ? String(row.ai_model) : undefined,
+      tax_amount: row.tax_amount !== null && row.tax_amount !== undefined ? Number(row.tax_amount) : undefined,
+      image_hash: row.image_hash ? String(row.image_hash) : undefined,
       created_at: row.created_at ? String(row.created_at) : undefined,
     };
   } catch (error) {
@@ -0,0 +1,217 @@
+/**
+ * Duplicate Receipt Detection
+ *
+ * Catches the same docket being scanned twice. A new extraction is compared
+ * against receipts saved within a recent time window using:
+ * - a perceptual hash of the photo (difference hash, 64 bits), so re-photographing
+ *   the same docket gives a near-identical hash
+ * - item similarity (name and quantity) and a matching total
+ *
+ * Receipts look alike as photos (a white strip of paper), so a similar photo alone
+ * is not treated as a duplicate: the contents have to agree as well.
+ */
+
+import { decode as decodeJpeg } from 'jpeg-js';
+import { getReceiptsSince, type ReceiptRecord } from './database';
+import { base64ToBytes } from './imageQuality';
+import { RECEIPT_TOTAL_TOLERANCE, type ReceiptData } from './ocr';
+import type { DuplicateDetectionConfig } from './settings';
+
+// Lazy load ImageManipulator - it's a native module that requires a development build
+let ImageManipulator: any = null;
+try {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  ImageManipulator = require('expo-image-manipulator');
+} catch (e) {
+  ImageManipulator = null;
+}
+
+const HASH_WIDTH = 9; // One more column than bits per row: each bit compares neighbours
+const HASH_HEIGHT = 8;
+const HASH_SAMPLE_SCALE = 8; // Decode at 8x the hash size and average down, which is steadier than a tiny JPEG
+const IMAGE_MATCH_MAX_DISTANCE = 10; // Bits out of 64 that may differ for "same photo"
+const ITEM_MATCH_THRESHOLD = 0.8; // Item similarity that counts as the same order on its own (with the total)
+const ITEM_MATCH_WITH_IMAGE_THRESHOLD = 0.5; // Lower bar when the photo also matches
+
+export interface DuplicateCandidate {
+  receipt: ReceiptRecord;
+  savedAt: Date | null;
+  reasons: string[]; // Human-readable, e.g. ['same photo', 'same total']
+  score: number; // Higher is more likely the same docket
+}
+
+/**
+ * Difference hash of an RGBA image as a 16-character hex string
+ */
+export function computeDifferenceHash(data: Uint8Array, width: number, height: number): string {
+  // Average the image down to a HASH_WIDTH x HASH_HEIGHT grayscale grid
+  const grid: number[] = [];
+  for (let gy = 0; gy < HASH_HEIGHT; gy++) {
+    const y0 = Math.floor((gy * height) / HASH_HEIGHT);
+    const y1 = Math.max(y0 + 1, Math.floor(((gy + 1) * height) / HASH_HEIGHT));
+    for (let gx = 0; gx < HASH_WIDTH; gx++) {
+      const x0 = Math.floor((gx * width) / HASH_WIDTH);
+      const x1 = Math.max(x0 + 1, Math.floor(((gx + 1) * width) / HASH_WIDTH));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        }
+      }
+      grid.push(sum / ((y1 - y0) * (x1 - x0)));
+    }
+  }
+
+  let hash = '';
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    for (let nibble = 0; nibble < 2; nibble++) {
+      let value = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const x = nibble * 4 + bit;
+        const left = grid[row * HASH_WIDTH + x];
+        const right = grid[row * HASH_WIDTH + x + 1];
+        value = (value << 1) | (left < right ? 1 : 0);
+      }
+      hash += value.toString(16);
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hashes (64 when they cannot be compared)
+ */
+export function getHashDistance(a: string, b: string): number {
+  if (a.length !== b.length) return 64;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Perceptual hash of a photo on disk, or null when it cannot be decoded
+ * (e.g. expo-image-manipulator is unavailable in Expo Go)
+ */
+export async function computeImageHash(imageUri: string): Promise<string | null> {
+  if (!ImageManipulator) {
+    return null;
+  }
+  try {
+    const resized = await ImageManipulator.manipulateAsync(
+      imageUri,
+      [{ resize: { width: HASH_WIDTH * HASH_SAMPLE_SCALE, height: HASH_HEIGHT * HASH_SAMPLE_SCALE } }],
+      { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+    );
+    if (!resized.base64) return null;
+    const image = decodeJpeg(base64ToBytes(resized.base64), { useTArray: true, formatAsRGBA: true });
+    return computeDifferenceHash(image.data, image.width, image.height);
+  } catch (error) {
+    console.warn('Image hash failed:', error);
+    return null;
+  }
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Share of items (by name and quantity) the two receipts have in common, 0-1
+ */
+export function getItemSimilarity(a: ReceiptData, b: ReceiptData): number {
+  if (a.items.length === 0 && b.items.length === 0) return 0;
+  const remaining = b.items.map(item => `${normalizeText(item.name)}|${item.quantity}`);
+  let matches = 0;
+  for (const item of a.items) {
+    const index = remaining.indexOf(`${normalizeText(item.name)}|${item.quantity}`);
+    if (index >= 0) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * matches) / (a.items.length + b.items.length);
+}
+
+/**
+ * Parse SQLite's UTC created_at ("YYYY-MM-DD HH:MM:SS")
+ */
+function parseCreatedAt(createdAt?: string): Date | null {
+  if (!createdAt) return null;
+  const date = new Date(createdAt.replace(' ', 'T') + 'Z');
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Compare a new extraction against one saved receipt, returning null when it is not a likely duplicate
+ */
+function compareWithReceipt(
+  receiptData: ReceiptData | null,
+  extractedText: string,
+  imageHash: string | null,
+  receipt: ReceiptRecord
+): DuplicateCandidate | null {
+  let saved: { receiptData?: ReceiptData | null; extractedText?: string };
+  try {
+    saved = JSON.parse(receipt.receipt_data);
+  } catch {
+    return null;
+  }
+
+  const reasons: string[] = [];
+  const imageMatch = !!imageHash && !!receipt.image_hash && getHashDistance(imageHash, receipt.image_hash) <= IMAGE_MATCH_MAX_DISTANCE;
+  if (imageMatch) reasons.push('same photo');
+
+  let contentScore = 0;
+  let contentMatch = false;
+  if (receiptData && saved.receiptData) {
+    const itemSimilarity = getItemSimilarity(receiptData, saved.receiptData);
+    const totalMatch = Math.abs(receiptData.total - saved.receiptData.total) <= RECEIPT_TOTAL_TOLERANCE;
+    if (itemSimilarity >= ITEM_MATCH_WITH_IMAGE_THRESHOLD) {
+      reasons.push(itemSimilarity === 1 ? 'same items' : `${Math.round(itemSimilarity * 100)}% of items match`);
+    }
+    if (totalMatch) reasons.push('same total');
+    contentScore = itemSimilarity + (totalMatch ? 0.5 : 0);
+    contentMatch = totalMatch && itemSimilarity >= ITEM_MATCH_THRESHOLD;
+    if (imageMatch) {
+      // Two orders with the same price are common, so the items still have to match
+      contentMatch = contentMatch || itemSimilarity >= ITEM_MATCH_WITH_IMAGE_THRESHOLD;
+    }
+  } else if (!receiptData && !saved.receiptData && extractedText && saved.extractedText) {
+    contentMatch = normalizeText(extractedText) === normalizeText(saved.extractedText);
+    if (contentMatch) reasons.push('same text');
+    contentScore = contentMatch ? 1.5 : 0;
+  }
+
+  if (!contentMatch) return null;
+  return {
+    receipt,
+    savedAt: parseCreatedAt(receipt.created_at),
+    reasons,
+    score: contentScore + (imageMatch ? 1 : 0),
+  };
+}
+
+/**
+ * Find saved receipts within the configured window that look like the same docket, best match first
+ */
+export async function findDuplicateReceipts(
+  receiptData: ReceiptData | null,
+  extractedText: string,
+  imageHash: string | null,
+  config: DuplicateDetectionConfig
+): Promise<DuplicateCandidate[]> {
+  if (!config.enabled) return [];
+  const since = new Date(Date.now() - config.windowMinutes * 60 * 1000);
+  const recent = await getReceiptsSince(since);
+  return recent
+    .map(receipt => compareWithReceipt(receiptData, extractedText, imageHash, receipt))
+    .filter((candidate): candidate is DuplicateCandidate => candidate !== null)
+    .sort((a, b) => b.score - a.score);
+}
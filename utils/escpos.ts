@@ -0,0 +1,217 @@
+/**
+ * ESC/POS Printing
+ *
+ * A small encoder for the ESC/POS command set most thermal receipt printers
+ * understand (Epson, Xprinter, Rongta, ...), and a raw TCP transport for
+ * printers listening on the network (port 9100). Needs no printer SDK, only a
+ * TCP socket (react-native-tcp-socket in the app; any module with the same
+ * createConnection API as Node's `net`, so it can be pointed at a local listener).
+ */
+
+import type { PrintAlign, PrintCommand } from './printer';
+import type { EscPosCodePage } from './settings';
+
+// Lazy load react-native-tcp-socket - it's a native module that requires a development build
+let TcpSocket: any = null;
+try {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  TcpSocket = require('react-native-tcp-socket');
+} catch (e) {
+  TcpSocket = null;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const DEFAULT_CONNECT_TIMEOUT_MS = 5000;
+
+// Upper half (0x80-0xFF) of each character table; ASCII is shared
+const CP437_HIGH = 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0';
+const CP850_HIGH = 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0';
+const CP1252_HIGH = '€\ufffd‚ƒ„…†‡ˆ‰Š‹Œ\ufffdŽ\ufffd\ufffd‘’“”•–—˜™š›œ\ufffdžŸ' + Array.from({ length: 96 }, (_, i) => String.fromCharCode(0xa0 + i)).join('');
+
+// ESC t table numbers as assigned by Epson (followed by most clones)
+const CODE_PAGES: Record<EscPosCodePage, { table: number; high: string }> = {
+  cp437: { table: 0, high: CP437_HIGH },
+  cp850: { table: 2, high: CP850_HIGH },
+  cp858: { table: 19, high: CP850_HIGH.replace('ı', '€') }, // cp850 with the euro sign
+  cp1252: { table: 16, high: CP1252_HIGH },
+};
+
+const ALIGN_VALUES: Record<PrintAlign, number> = { left: 0, center: 1, right: 2 };
+
+/**
+ * Convert text to bytes in a code page; characters it lacks print as '?'
+ */
+export function encodeText(text: string, codePage: EscPosCodePage = 'cp437'): number[] {
+  const { high } = CODE_PAGES[codePage];
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) {
+      bytes.push(code);
+      continue;
+    }
+    const index = high.indexOf(char);
+    bytes.push(index >= 0 ? 0x80 + index : 0x3f);
+  }
+  return bytes;
+}
+
+/**
+ * Builds an ESC/POS byte stream, e.g.
+ * new EscPosEncoder('cp858').initialize().align('center').bold(true).line('TOTAL').cut().encode()
+ */
+export class EscPosEncoder {
+  private bytes: number[] = [];
+  private codePageName: EscPosCodePage;
+
+  constructor(codePage: EscPosCodePage = 'cp437') {
+    this.codePageName = codePage;
+  }
+
+  private push(...values: number[]): this {
+    this.bytes.push(...values);
+    return this;
+  }
+
+  /** Reset the printer to its defaults (ESC @) and select the code page */
+  initialize(): this {
+    return this.push(ESC, 0x40).codePage(this.codePageName);
+  }
+
+  /** Select the character table (ESC t) */
+  codePage(codePage: EscPosCodePage): this {
+    this.codePageName = codePage;
+    return this.push(ESC, 0x74, CODE_PAGES[codePage].table);
+  }
+
+  text(text: string): this {
+    return this.push(...encodeText(text, this.codePageName));
+  }
+
+  line(text: string = ''): this {
+    return this.text(text).push(LF);
+  }
+
+  /** ESC a */
+  align(align: PrintAlign): this {
+    return this.push(ESC, 0x61, ALIGN_VALUES[align]);
+  }
+
+  /** Emphasized text (ESC E) */
+  bold(enabled: boolean): this {
+    return this.push(ESC, 0x45, enabled ? 1 : 0);
+  }
+
+  /** Double width and height (GS !) */
+  doubleSize(enabled: boolean): this {
+    return this.push(GS, 0x21, enabled ? 0x11 : 0x00);
+  }
+
+  /** Print and feed n lines (ESC d) */
+  feed(lines: number = 1): this {
+    return this.push(ESC, 0x64, Math.max(0, Math.min(255, Math.round(lines))));
+  }
+
+  /** Feed to the cutter and partial cut (GS V B) */
+  cut(): this {
+    return this.push(GS, 0x56, 0x42, 0x00);
+  }
+
+  /** Append already-encoded bytes */
+  raw(bytes: ArrayLike<number>): this {
+    for (let i = 0; i < bytes.length; i++) this.bytes.push(bytes[i]);
+    return this;
+  }
+
+  encode(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Encode print commands as they would appear on an Epson printer
+ */
+export function encodePrintCommands(commands: PrintCommand[], codePage: EscPosCodePage = 'cp437'): Uint8Array {
+  const encoder = new EscPosEncoder(codePage).initialize();
+  for (const command of commands) {
+    if (command.type === 'text') {
+      encoder.text(command.text);
+    } else if (command.type === 'feed') {
+      if (command.lines > 0) encoder.feed(command.lines);
+    } else if (command.type === 'align') {
+      encoder.align(command.align);
+    } else {
+      if (command.bold !== undefined) encoder.bold(command.bold);
+      if (command.doubleSize !== undefined) encoder.doubleSize(command.doubleSize);
+    }
+  }
+  return encoder.encode();
+}
+
+export interface RawTcpConnection {
+  write(bytes: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Open a raw TCP connection to a printer (port 9100 by convention)
+ * `net` defaults to react-native-tcp-socket; pass Node's `net` to print to a local listener.
+ */
+export function openRawTcpConnection(
+  host: string,
+  port: number = 9100,
+  options: { timeoutMs?: number; net?: any } = {}
+): Promise<RawTcpConnection> {
+  const { timeoutMs = DEFAULT_CONNECT_TIMEOUT_MS, net = TcpSocket } = options;
+  if (!net?.createConnection) {
+    return Promise.reject(new Error('TCP sockets are not available in this build (react-native-tcp-socket is missing)'));
+  }
+  if (!host) {
+    return Promise.reject(new Error('No printer address set'));
+  }
+
+  return new Promise((resolve, reject) => {
+    let lastError: Error | null = null;
+    const socket = net.createConnection({ host, port }, () => {
+      clearTimeout(timer);
+      socket.removeListener?.('error', onConnectError);
+      socket.on('error', (error: Error) => {
+        lastError = error;
+      });
+      resolve({
+        write: bytes => new Promise((resolveWrite, rejectWrite) => {
+          if (lastError) {
+            rejectWrite(lastError);
+            return;
+          }
+          socket.write(bytes, undefined, (error?: Error | null) => (error ? rejectWrite(error) : resolveWrite()));
+        }),
+        close: () => new Promise(resolveClose => {
+          // Printers close their side once the data is printed; don't wait on slow ones
+          const closeTimer = setTimeout(() => {
+            socket.destroy();
+            resolveClose();
+          }, timeoutMs);
+          socket.once('close', () => {
+            clearTimeout(closeTimer);
+            resolveClose();
+          });
+          socket.end();
+        }),
+      });
+    });
+    const onConnectError = (error: Error) => {
+      clearTimeout(timer);
+      socket.destroy();
+      reject(error);
+    };
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error(`Could not reach printer at ${host}:${port} (timed out after ${Math.round(timeoutMs / 1000)}s)`));
+    }, timeoutMs);
+    socket.on('error', onConnectError);
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * Extraction Result Cache
+ *
+ * Caches structured extraction results locally, keyed by a hash of the image
+ * payload plus the model and prompt version, so re-picking the same photo or
+ * retrying after a navigation mishap doesn't pay for another API call.
+ * Uses AsyncStorage for storage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ReceiptData } from './ocr';
+
+const EXTRACTION_CACHE_KEY = '@snap_receipt:extraction_cache';
+const EXTRACTION_CACHE_STATS_KEY = '@snap_receipt:extraction_cache_stats';
+const MAX_CACHE_ENTRIES = 50;
+
+interface CacheEntry {
+  result: ReceiptData;
+  createdAt: number;
+}
+
+export interface ExtractionCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
+/**
+ * Hash a string to 16 hex characters (53-bit cyrb53 variant)
+ * Not cryptographic - only used to recognise identical image payloads
+ */
+function hashString(value: string, seed: number = 0): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Build the cache key for a set of images, model and prompt version
+ */
+export function getExtractionCacheKey(images: string[], model: string, promptVersion: string): string {
+  const imageHashes = images.map(img => `${hashString(img)}:${img.length}`).join(',');
+  return `${model}|${promptVersion}|${imageHashes}`;
+}
+
+async function readCache(): Promise<Record<string, CacheEntry>> {
+  const value = await AsyncStorage.getItem(EXTRACTION_CACHE_KEY);
+  return value ? JSON.parse(value) : {};
+}
+
+async function updateStats(change: { hits?: number; misses?: number }): Promise<void> {
+  try {
+    const value = await AsyncStorage.getItem(EXTRACTION_CACHE_STATS_KEY);
+    const stats = value ? JSON.parse(value) : { hits: 0, misses: 0 };
+    await AsyncStorage.setItem(EXTRACTION_CACHE_STATS_KEY, JSON.stringify({
+      hits: (stats.hits || 0) + (change.hits || 0),
+      misses: (stats.misses || 0) + (change.misses || 0),
+    }));
+  } catch (error) {
+    console.error('Error updating extraction cache stats:', error);
+  }
+}
+
+/**
+ * Get a cached extraction result (records a hit or miss)
+ */
+export async function getCachedExtraction(key: string): Promise<ReceiptData | null> {
+  try {
+    const cache = await readCache();
+    const entry = cache[key];
+    await updateStats(entry ? { hits: 1 } : { misses: 1 });
+    return entry ? entry.result : null;
+  } catch (error) {
+    console.error('Error reading extraction cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Store an extraction result, evicting the oldest entries beyond the cache size
+ */
+export async function setCachedExtraction(key: string, result: ReceiptData): Promise<void> {
+  try {
+    const cache = await readCache();
+    cache[key] = { result, createdAt: Date.now() };
+
+    const keys = Object.keys(cache).sort((a, b) => cache[b].createdAt - cache[a].createdAt);
+    keys.slice(MAX_CACHE_ENTRIES).forEach(oldKey => delete cache[oldKey]);
+
+    await AsyncStorage.setItem(EXTRACTION_CACHE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error('Error writing extraction cache:', error);
+  }
+}
+
+/**
+ * Get cache hit/miss statistics
+ */
+export async function getExtractionCacheStats(): Promise<ExtractionCacheStats> {
+  try {
+    const [statsValue, cache] = await Promise.all([
+      AsyncStorage.getItem(EXTRACTION_CACHE_STATS_KEY),
+      readCache(),
+    ]);
+    const stats = statsValue ? JSON.parse(statsValue) : {};
+    return {
+      hits: stats.hits || 0,
+      misses: stats.misses || 0,
+      entries: Object.keys(cache).length,
+    };
+  } catch (error) {
+    console.error('Error getting extraction cache stats:', error);
+    return { hits: 0, misses: 0, entries: 0 };
+  }
+}
+
+/**
+ * Clear all cached results and statistics
+ */
+export async function clearExtractionCache(): Promise<void> {
+  try {
+    await AsyncStorage.multiRemove([EXTRACTION_CACHE_KEY, EXTRACTION_CACHE_STATS_KEY]);
+  } catch (error) {
+    console.error('Error clearing extraction cache:', error);
+  }
+}
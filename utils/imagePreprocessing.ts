@@ -0,0 +1,331 @@
+/**
+ * Image Preprocessing Pipeline
+ *
+ * Runs on a photo after the quality gate and before extraction, so the model
+ * only sees the receipt paper:
+ * - deskew: rotate so the receipt's long edge is upright
+ * - crop: cut away the table/background around the detected receipt edges
+ * - enhance: grayscale and stretch contrast so faded thermal print stands out
+ *
+ * Edge and skew detection run on a small decoded copy (the same Otsu paper mask
+ * as utils/imageQuality); the crop and rotation are applied at full resolution
+ * with expo-image-manipulator, and the enhance step is done in JS with jpeg-js
+ * on a copy no wider than the image optimization resize width.
+ */
+
+import { Buffer } from 'buffer';
+import { File, Paths } from 'expo-file-system';
+import { decode as decodeJpeg, encode as encodeJpeg } from 'jpeg-js';
+import { estimateTokensFromSize } from './aiCostTracker';
+import { base64ToBytes, getOtsuThreshold } from './imageQuality';
+import { getImageOptimizationResizeWidth, type ImagePreprocessingConfig } from './settings';
+
+// Lazy load ImageManipulator - it's a native module that requires a development build
+let ImageManipulator: any = null;
+try {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  ImageManipulator = require('expo-image-manipulator');
+} catch (e) {
+  ImageManipulator = null;
+}
+
+// jpeg-js's encoder returns a Node Buffer, which React Native does not provide
+if (typeof (globalThis as any).Buffer === 'undefined') {
+  (globalThis as any).Buffer = Buffer;
+}
+
+const ANALYSIS_WIDTH = 320;
+const MIN_SKEW_DEGREES = 0.5; // Smaller tilts are not worth a re-encode
+const MAX_SKEW_DEGREES = 20; // Larger angles are more likely a misdetection than a tilted receipt
+const MIN_ELONGATION = 2; // Paper must be clearly longer than wide for its axis to mean anything
+const CROP_MARGIN = 0.02; // Keep a little background so edge text is not clipped
+
+/**
+ * Receipt bounds as fractions (0-1) of the image size
+ */
+export interface ReceiptBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessResult {
+  uri: string;
+  base64: string;
+  width: number;
+  height: number;
+  steps: string[]; // Human-readable list of what was applied, e.g. ['deskew 3.2°', 'crop']
+  bytesBefore: number;
+  bytesAfter: number;
+  tokensBefore: number; // Estimated with the same heuristic as the AI cost tracker
+  tokensAfter: number;
+}
+
+interface PaperMask {
+  mask: Uint8Array; // 1 = receipt paper
+  width: number;
+  height: number;
+}
+
+function getBase64Bytes(base64: string): number {
+  return Math.round((base64.length * 3) / 4);
+}
+
+/**
+ * Split decoded RGBA pixels into paper (bright side of Otsu) and background
+ */
+function getPaperMask(data: Uint8Array, width: number, height: number): PaperMask {
+  const pixelCount = width * height;
+  const luminance = new Uint8Array(pixelCount);
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < pixelCount; i++) {
+    const value = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    luminance[i] = value;
+    histogram[value]++;
+  }
+
+  const threshold = getOtsuThreshold(histogram, pixelCount);
+  const mask = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    mask[i] = luminance[i] > threshold ? 1 : 0;
+  }
+  return { mask, width, height };
+}
+
+/**
+ * Estimate how far the receipt is tilted from upright, in degrees
+ * Uses the principal axis of the paper mask; positive means the top leans right.
+ * Returns 0 when the paper is not elongated enough or the angle is implausible.
+ */
+export function detectSkewAngle({ mask, width, height }: PaperMask): number {
+  let count = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) {
+        count++;
+        sumX += x;
+        sumY += y;
+      }
+    }
+  }
+  if (count === 0) return 0;
+
+  const meanX = sumX / count;
+  const meanY = sumY / count;
+  let mu20 = 0;
+  let mu02 = 0;
+  let mu11 = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) {
+        const dx = x - meanX;
+        const dy = y - meanY;
+        mu20 += dx * dx;
+        mu02 += dy * dy;
+        mu11 += dx * dy;
+      }
+    }
+  }
+
+  // Eigenvalues of the covariance matrix: how long vs. wide the paper is
+  const spread = Math.sqrt(((mu20 - mu02) / 2) ** 2 + mu11 * mu11);
+  const major = (mu20 + mu02) / 2 + spread;
+  const minor = (mu20 + mu02) / 2 - spread;
+  if (minor <= 0 || major / minor < MIN_ELONGATION) return 0;
+
+  // Angle of the long axis from the x axis (y points down), then its deviation from vertical
+  const axisDegrees = (0.5 * Math.atan2(2 * mu11, mu20 - mu02) * 180) / Math.PI;
+  const skew = axisDegrees > 0 ? axisDegrees - 90 : axisDegrees + 90;
+  if (Math.abs(skew) > MAX_SKEW_DEGREES) return 0;
+  return Math.round(skew * 10) / 10;
+}
+
+/**
+ * Find the receipt's bounding box from column and row projections of the paper mask
+ * Returns null when the receipt already fills the frame or could not be found.
+ */
+export function detectReceiptBounds({ mask, width, height }: PaperMask): ReceiptBounds | null {
+  const columnFill = new Array(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      columnFill[x] += mask[y * width + x];
+    }
+  }
+  const columnThreshold = Math.max(...columnFill) / 2;
+  const left = columnFill.findIndex(fill => fill >= columnThreshold);
+  const right = width - 1 - [...columnFill].reverse().findIndex(fill => fill >= columnThreshold);
+  if (columnThreshold === 0 || left < 0 || right <= left) return null;
+
+  // Rows are measured only inside the receipt's columns so background beside it does not count
+  const rowFill = new Array(height).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = left; x <= right; x++) {
+      rowFill[y] += mask[y * width + x];
+    }
+  }
+  const rowThreshold = Math.max(...rowFill) / 2;
+  const top = rowFill.findIndex(fill => fill >= rowThreshold);
+  const bottom = height - 1 - [...rowFill].reverse().findIndex(fill => fill >= rowThreshold);
+  if (rowThreshold === 0 || top < 0 || bottom <= top) return null;
+
+  const x = Math.max(0, left / width - CROP_MARGIN);
+  const y = Math.max(0, top / height - CROP_MARGIN);
+  const bounds = {
+    x,
+    y,
+    width: Math.min(1, (right + 1) / width + CROP_MARGIN) - x,
+    height: Math.min(1, (bottom + 1) / height + CROP_MARGIN) - y,
+  };
+
+  const area = bounds.width * bounds.height;
+  if (area > 0.9 || area < 0.05) return null;
+  return bounds;
+}
+
+/**
+ * Convert RGBA pixels to grayscale in place, stretching the 1st-99th luminance percentile to full range
+ */
+export function enhanceContrast(data: Uint8Array, width: number, height: number): void {
+  const pixelCount = width * height;
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < pixelCount; i++) {
+    const value = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    data[i * 4] = value;
+    histogram[value]++;
+  }
+
+  const clip = pixelCount * 0.01;
+  let low = 0;
+  for (let seen = 0; low < 255 && seen + histogram[low] <= clip; low++) seen += histogram[low];
+  let high = 255;
+  for (let seen = 0; high > 0 && seen + histogram[high] <= clip; high--) seen += histogram[high];
+  const range = Math.max(1, high - low);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const value = Math.max(0, Math.min(255, Math.round(((data[i * 4] - low) * 255) / range)));
+    data[i * 4] = value;
+    data[i * 4 + 1] = value;
+    data[i * 4 + 2] = value;
+    data[i * 4 + 3] = 255;
+  }
+}
+
+async function getPaperMaskForUri(imageUri: string): Promise<PaperMask | null> {
+  const resized = await ImageManipulator.manipulateAsync(
+    imageUri,
+    [{ resize: { width: ANALYSIS_WIDTH } }],
+    { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+  );
+  if (!resized.base64) return null;
+  const image = decodeJpeg(base64ToBytes(resized.base64), { useTArray: true, formatAsRGBA: true });
+  return getPaperMask(image.data, image.width, image.height);
+}
+
+/**
+ * Run the enabled preprocessing steps on a photo
+ * Returns null when preprocessing is disabled, unavailable (Expo Go), changed nothing, or failed,
+ * in which case the original photo should be used as-is.
+ *
+ * @param imageUri - Photo on disk
+ * @param base64 - The same photo as base64, used to report the bytes/tokens saved
+ * @param quality - JPEG quality for the output (0-1)
+ */
+export async function preprocessReceiptImage(
+  imageUri: string,
+  base64: string,
+  config: ImagePreprocessingConfig,
+  quality: number = 0.9
+): Promise<PreprocessResult | null> {
+  if (!config.enabled || !ImageManipulator) {
+    return null;
+  }
+
+  try {
+    const steps: string[] = [];
+    let uri = imageUri;
+
+    if (config.deskew) {
+      const paper = await getPaperMaskForUri(uri);
+      const skew = paper ? detectSkewAngle(paper) : 0;
+      if (Math.abs(skew) >= MIN_SKEW_DEGREES) {
+        // Manipulator rotation is clockwise for positive degrees; a top leaning right needs counter-clockwise
+        const rotated = await ImageManipulator.manipulateAsync(
+          uri,
+          [{ rotate: -skew }],
+          { compress: 1, format: ImageManipulator.SaveFormat.JPEG }
+        );
+        uri = rotated.uri;
+        steps.push(`deskew ${skew}°`);
+      }
+    }
+
+    // Measure the (possibly rotated) photo so the crop is scaled to its real size
+    const source = await ImageManipulator.manipulateAsync(uri, [], { format: ImageManipulator.SaveFormat.JPEG });
+    const actions: any[] = [];
+    if (config.crop) {
+      const paper = await getPaperMaskForUri(uri);
+      const bounds = paper ? detectReceiptBounds(paper) : null;
+      if (bounds) {
+        actions.push({
+          crop: {
+            originX: Math.round(bounds.x * source.width),
+            originY: Math.round(bounds.y * source.height),
+            width: Math.round(bounds.width * source.width),
+            height: Math.round(bounds.height * source.height),
+          },
+        });
+        steps.push('crop');
+      }
+    }
+
+    if (steps.length === 0 && !config.enhance) {
+      return null;
+    }
+
+    // Enhancing decodes every pixel on the JS thread, so a full-resolution photo is scaled down first
+    if (config.enhance) {
+      const maxWidth = await getImageOptimizationResizeWidth();
+      const croppedWidth = actions.length > 0 ? actions[0].crop.width : source.width;
+      if (croppedWidth > maxWidth) {
+        actions.push({ resize: { width: maxWidth } });
+        steps.push(`resize ${maxWidth}px`);
+      }
+    }
+
+    const output = await ImageManipulator.manipulateAsync(
+      uri,
+      actions,
+      { compress: quality, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+    );
+    if (!output.base64) return null;
+
+    let result = { uri: output.uri as string, base64: output.base64 as string, width: output.width as number, height: output.height as number };
+
+    if (config.enhance) {
+      const image = decodeJpeg(base64ToBytes(result.base64), { useTArray: true, formatAsRGBA: true });
+      enhanceContrast(image.data, image.width, image.height);
+      const encoded = encodeJpeg({ data: image.data, width: image.width, height: image.height }, Math.round(quality * 100));
+      const file = new File(Paths.cache, `receipt-preprocessed-${Date.now()}.jpg`);
+      file.write(new Uint8Array(encoded.data));
+      result = { uri: file.uri, base64: Buffer.from(encoded.data).toString('base64'), width: image.width, height: image.height };
+      steps.push('enhance');
+    }
+
+    const preprocessed: PreprocessResult = {
+      ...result,
+      steps,
+      bytesBefore: getBase64Bytes(base64),
+      bytesAfter: getBase64Bytes(result.base64),
+      tokensBefore: estimateTokensFromSize('', base64).inputTokens,
+      tokensAfter: estimateTokensFromSize('', result.base64).inputTokens,
+    };
+    console.log('Image preprocessing:', steps.join(', '), `${preprocessed.bytesBefore} -> ${preprocessed.bytesAfter} bytes`);
+    return preprocessed;
+  } catch (error) {
+    console.warn('Image preprocessing failed, using the original photo:', error);
+    return null;
+  }
+}
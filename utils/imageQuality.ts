@@ -0,0 +1,178 @@
+/**
+ * Image Quality Gate
+ *
+ * Cheap on-device checks run on a captured or picked photo before it is sent
+ * for extraction, so blurry, dark or badly framed shots can be retaken instead
+ * of paying for an API call that returns garbage.
+ *
+ * The photo is downscaled with expo-image-manipulator and decoded with jpeg-js,
+ * then measured for:
+ * - sharpness: variance of the Laplacian of the grayscale image (low = blurry)
+ * - brightness: mean luminance (0-255)
+ * - coverage: share of the frame taken up by the (bright) receipt paper
+ */
+
+import { decode as decodeJpeg } from 'jpeg-js';
+import type { ImageQualityConfig } from './settings';
+
+// Lazy load ImageManipulator - it's a native module that requires a development build
+let ImageManipulator: any = null;
+try {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  ImageManipulator = require('expo-image-manipulator');
+} catch (e) {
+  ImageManipulator = null;
+}
+
+// Analysis size: small enough to decode quickly in JS, large enough to see text edges
+const ANALYSIS_WIDTH = 320;
+
+export interface ImageQualityMetrics {
+  sharpness: number;
+  brightness: number;
+  coverage: number; // 0-1
+}
+
+export interface ImageQualityResult {
+  passed: boolean;
+  issues: string[]; // Human-readable reasons the photo failed
+  metrics: ImageQualityMetrics | null; // null when the photo could not be analysed
+}
+
+/**
+ * Decode base64 into bytes (atob is available in Hermes and browsers)
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Otsu's threshold: the luminance that best separates paper from background
+ */
+export function getOtsuThreshold(histogram: number[], total: number): number {
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 128;
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = i;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Measure sharpness, brightness and receipt coverage of decoded RGBA pixels
+ */
+export function measureImageQuality(data: Uint8Array, width: number, height: number): ImageQualityMetrics {
+  const pixelCount = width * height;
+  const gray = new Float32Array(pixelCount);
+  const histogram = new Array(256).fill(0);
+  let luminanceSum = 0;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = luminance;
+    luminanceSum += luminance;
+    histogram[Math.min(255, Math.round(luminance))]++;
+  }
+
+  // Variance of the 4-neighbour Laplacian
+  let laplacianSum = 0;
+  let laplacianSquaredSum = 0;
+  let laplacianCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      laplacianSum += laplacian;
+      laplacianSquaredSum += laplacian * laplacian;
+      laplacianCount++;
+    }
+  }
+  const laplacianMean = laplacianCount > 0 ? laplacianSum / laplacianCount : 0;
+  const sharpness = laplacianCount > 0 ? laplacianSquaredSum / laplacianCount - laplacianMean * laplacianMean : 0;
+
+  // Receipt paper is the bright side of the Otsu split
+  const threshold = getOtsuThreshold(histogram, pixelCount);
+  let paperPixels = 0;
+  for (let i = threshold + 1; i < 256; i++) paperPixels += histogram[i];
+
+  return {
+    sharpness: Math.round(sharpness),
+    brightness: Math.round(luminanceSum / pixelCount),
+    coverage: Math.round((paperPixels / pixelCount) * 100) / 100,
+  };
+}
+
+/**
+ * Analyse a photo on disk, returning null when the image cannot be decoded
+ * (e.g. expo-image-manipulator is unavailable in Expo Go)
+ */
+export async function analyzeImageQuality(imageUri: string): Promise<ImageQualityMetrics | null> {
+  if (!ImageManipulator) {
+    return null;
+  }
+  try {
+    const resized = await ImageManipulator.manipulateAsync(
+      imageUri,
+      [{ resize: { width: ANALYSIS_WIDTH } }],
+      { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+    );
+    if (!resized.base64) return null;
+    const image = decodeJpeg(base64ToBytes(resized.base64), { useTArray: true, formatAsRGBA: true });
+    return measureImageQuality(image.data, image.width, image.height);
+  } catch (error) {
+    console.warn('Image quality analysis failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Check a photo against the configured thresholds
+ * Photos that cannot be analysed pass, so the gate never blocks capture on its own failure
+ */
+export async function checkImageQuality(imageUri: string, config: ImageQualityConfig): Promise<ImageQualityResult> {
+  if (!config.enabled) {
+    return { passed: true, issues: [], metrics: null };
+  }
+
+  const metrics = await analyzeImageQuality(imageUri);
+  if (!metrics) {
+    return { passed: true, issues: [], metrics: null };
+  }
+
+  const issues: string[] = [];
+  if (metrics.sharpness < config.minSharpness) {
+    issues.push('The photo looks blurry. Hold the phone steady and let the camera focus.');
+  }
+  if (metrics.brightness < config.minBrightness) {
+    issues.push('The photo is too dark. Move to better light or turn on the flash.');
+  } else if (metrics.brightness > config.maxBrightness) {
+    issues.push('The photo is overexposed. Avoid direct light or glare on the receipt.');
+  }
+  if (metrics.coverage < config.minCoverage) {
+    issues.push('The receipt is too small in the frame. Move closer so it fills most of the photo.');
+  }
+
+  console.log('Image quality:', metrics, issues.length > 0 ? 'failed' : 'passed');
+  return { passed: issues.length === 0, issues, metrics };
+}
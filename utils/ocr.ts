@@ -9,79 +9,1186 @@
  * To use Google Generative AI (Recommended - more efficient):
  * 1. Get an API key from Google AI Studio
  * 2. Set EXPO_PUBLIC_GOOGLE_AI_KEY in environment variables
- * 3. Optionally set EXPO_PUBLIC_MODEL_ID (default: gemini-pro)
+ * 3. Optionally set EXPO_PUBLIC_MODEL_ID (first model of the fallback chain, default: gemini-1.5-flash)
  *    Available models: gemini-pro, gemini-1.5-pro, gemini-1.5-flash, etc.
+ *    The full fallback chain (e.g. flash, then pro) is configured in Settings
  *    Note: Generative AI can now receive images directly - no Vision API needed!
+ *
+ * To use an OpenAI-compatible endpoint (OpenAI, Ollama, llama.cpp server, etc.):
+ * 1. Select "OpenAI Compatible" as the OCR mode in Settings
+ * 2. Enter the base URL (e.g. http://192.168.1.10:11434/v1 for Ollama), model and API key
+ *    The model must accept image input (e.g. llava, llama3.2-vision, gpt-4o-mini)
  */
 
-import { extractTokenUsage, recordAPIUsage } from './aiCostTracker';
+import { extractTokenUsage, recordAPIUsage, recordModelFallback } from './aiCostTracker';
+import { getCachedExtraction, getExtractionCacheKey, setCachedExtraction } from './extractionCache';
+import { parsePartialJSON } from './partialJson';
+import { buildReceiptPrompt, type ReceiptPrompt } from './prompts';
+import { fetchWithRetry, isNetworkError, isRequestCancelled, streamWithRetry } from './request';
+import { getExtractionMaxAttempts, getGenerativeModelChain, getOpenAICompatibleConfig, getPromptProfileSettings, type OCRMode, type OpenAICompatibleConfig } from './settings';
 
 const GOOGLE_VISION_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_VISION_API_KEY || '';
 const GOOGLE_AI_KEY = process.env.EXPO_PUBLIC_GOOGLE_AI_KEY || '';
-const MODEL_ID = process.env.EXPO_PUBLIC_MODEL_ID || 'gemini-pro';
+
+/**
+ * Google Vision fullTextAnnotation structure (only the fields the parser uses)
+ */
+interface VisionVertex {
+  x?: number;
+  y?: number;
+}
+
+interface VisionBoundingPoly {
+  vertices?: VisionVertex[];
+}
+
+interface VisionSymbol {
+  text?: string;
+}
+
+interface VisionWord {
+  boundingBox?: VisionBoundingPoly;
+  symbols?: VisionSymbol[];
+  confidence?: number;
+}
+
+interface VisionParagraph {
+  words?: VisionWord[];
+}
+
+interface VisionBlock {
+  boundingBox?: VisionBoundingPoly;
+  paragraphs?: VisionParagraph[];
+}
+
+interface VisionPage {
+  width?: number;
+  height?: number;
+  blocks?: VisionBlock[];
+}
+
+export interface VisionTextAnnotation {
+  text?: string;
+  pages?: VisionPage[];
+}
+
+/**
+ * Get the full text annotation (text plus block/word geometry) using Google Cloud Vision API
+ */
+export async function extractAnnotationWithGoogleVision(base64Image: string, signal?: AbortSignal): Promise<VisionTextAnnotation> {
+  if (!GOOGLE_VISION_API_KEY || GOOGLE_VISION_API_KEY === '') {
+    throw new Error('Google Vision API key not configured. Please set EXPO_PUBLIC_GOOGLE_VISION_API_KEY');
+  }
+
+  try {
+    const response = await fetchWithRetry(
+      `https://vision.googleapis.com/v1/images:annotate?key=${GOOGLE_VISION_API_KEY}`,
+      {
+        signal,
+        timeoutMs: 30000,
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: [{
+            image: { content: base64Image },
+            features: [{ type: 'DOCUMENT_TEXT_DETECTION', maxResults: 1 }]
+          }]
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(`Google Vision API error: ${JSON.stringify(errorData)}`);
+    }
+
+    const data = await response.json();
+    const annotation: VisionTextAnnotation = data.responses[0]?.fullTextAnnotation || {};
+    
+    if (!annotation.text && data.responses[0]?.error) {
+      throw new Error(`OCR Error: ${JSON.stringify(data.responses[0].error)}`);
+    }
+
+    return annotation;
+  } catch (error) {
+    console.error('Google Vision API Error:', error);
+    throw error;
+  }
+}
 
 /**
  * Extract text from image using Google Cloud Vision API
  */
-export async function extractTextWithGoogleVision(base64Image: string): Promise<string> {
-  if (!GOOGLE_VISION_API_KEY || GOOGLE_VISION_API_KEY === '') {
-    throw new Error('Google Vision API key not configured. Please set EXPO_PUBLIC_GOOGLE_VISION_API_KEY');
+export async function extractTextWithGoogleVision(base64Image: string, signal?: AbortSignal): Promise<string> {
+  const annotation = await extractAnnotationWithGoogleVision(base64Image, signal);
+  return annotation.text || '';
+}
+
+/**
+ * Receipt data structure returned by AI
+ */
+export interface ReceiptItem {
+  name: string;
+  quantity: number;
+  price: number; // Price as a number (without $ sign)
+  modifiers?: ReceiptModifier[]; // Optional modifiers (legacy receipts stored plain strings, see upgradeReceiptData)
+  confidence?: number; // Optional extraction confidence (0-1)
+  boundingBox?: ReceiptBoundingBox; // Optional source region of the item on the receipt image
+  mergeId?: string; // Set when copies of this item on overlapping pages were merged into it (see mergePageOverlaps)
+}
+
+/**
+ * A modifier of an item, e.g. "No onions" or "Add bacon +$2.00"
+ */
+export interface ReceiptModifier {
+  name: string;
+  quantity?: number; // e.g. 2 for "2 X Grilled Flake"
+  price?: number; // Extra charge printed on the modifier line, added to the item price (negative for reductions)
+}
+
+/**
+ * Region of the receipt image an item was read from
+ * Coordinates are fractions (0-1) of the image width/height, so they
+ * apply to the photo at any display size
+ */
+export interface ReceiptBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  page?: number; // Image index for multi-page receipts (0-based)
+}
+
+/**
+ * Items below this confidence are highlighted for review
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export interface ReceiptCustomer {
+  name?: string;
+  phone?: string;
+}
+
+export type ReceiptAdjustmentType = 'discount' | 'surcharge' | 'tip' | 'delivery_fee' | 'rounding';
+
+export const RECEIPT_ADJUSTMENT_TYPES: ReceiptAdjustmentType[] = ['discount', 'surcharge', 'tip', 'delivery_fee', 'rounding'];
+
+/**
+ * A line that changes the total without being a product (discount, card surcharge, tip, ...)
+ * amount is signed: negative for discounts, positive for surcharges and fees
+ */
+export interface ReceiptAdjustment {
+  type: ReceiptAdjustmentType;
+  label: string; // Text as printed, e.g. "Staff discount 10%"
+  amount: number;
+}
+
+/**
+ * How (part of) the receipt was paid
+ */
+export interface ReceiptPayment {
+  method: string; // e.g. Cash, EFTPOS, Visa
+  amount: number;
+}
+
+/**
+ * A problem found (and repaired) while validating a model response
+ * itemIndex is the index in ReceiptData.items, or undefined for receipt-level warnings
+ */
+export interface ReceiptWarning {
+  itemIndex?: number;
+  message: string;
+}
+
+/**
+ * How an extraction result was produced
+ */
+export interface ReceiptExtractionInfo {
+  attempts: number; // Number of model requests made (1 = first answer accepted)
+  converged: boolean; // Whether the item prices matched the total on the final attempt
+  model?: string; // Model that produced the result
+  modelsTried?: string[]; // Models tried along the fallback chain, in order
+  fromCache?: boolean; // Served from the local extraction cache (no API call)
+  promptId?: string; // Prompt profile used (see utils/prompts)
+  promptVersion?: string;
+}
+
+export interface ReceiptData {
+  items: ReceiptItem[];
+  total: number; // Total price (GST inclusive)
+  customer?: ReceiptCustomer; // Optional customer info
+  adjustments?: ReceiptAdjustment[]; // Discounts, surcharges, tips, fees and rounding
+  payments?: ReceiptPayment[]; // Payment lines (informational, not part of the total check)
+  extraction?: ReceiptExtractionInfo; // Optional extraction metadata
+  warnings?: ReceiptWarning[]; // Problems repaired while validating the model response
+  mergedItems?: ReceiptItem[]; // Duplicates removed by mergePageOverlaps, kept so a merge can be undone
+}
+
+/**
+ * Allowed difference between the item prices and the receipt total before
+ * the receipt is treated as mismatched
+ */
+export const RECEIPT_TOTAL_TOLERANCE = 0.05;
+
+/**
+ * Price of an item including its priced modifiers
+ */
+export function getReceiptItemTotal(item: ReceiptItem): number {
+  const price = typeof item.price === 'number' ? item.price : 0;
+  const modifiersTotal = (item.modifiers || []).reduce((sum, modifier) => (
+    sum + (typeof modifier.price === 'number' ? modifier.price : 0)
+  ), 0);
+  return price + modifiersTotal;
+}
+
+/**
+ * Sum of the item prices (with priced modifiers) plus adjustments (discounts, surcharges, tips, ...)
+ * This is what the receipt total should equal
+ */
+export function getReceiptItemsTotal(receiptData: ReceiptData): number {
+  const itemsTotal = receiptData.items.reduce((sum, item) => sum + getReceiptItemTotal(item), 0);
+  const adjustmentsTotal = (receiptData.adjustments || []).reduce((sum, adjustment) => sum + adjustment.amount, 0);
+  return Math.round((itemsTotal + adjustmentsTotal) * 100) / 100;
+}
+
+/**
+ * Difference between the items plus adjustments and the receipt total (items - total)
+ */
+export function getReceiptTotalDifference(receiptData: ReceiptData): number {
+  return Math.round((getReceiptItemsTotal(receiptData) - receiptData.total) * 100) / 100;
+}
+
+// Longest run of lines a page can repeat from the end of the previous page
+const MAX_OVERLAP_LINES = 6;
+
+function getItemPage(item: ReceiptItem): number {
+  return item.boundingBox?.page ?? 0;
+}
+
+function isSameReceiptLine(a: ReceiptItem, b: ReceiptItem): boolean {
+  const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  return normalizeName(a.name) === normalizeName(b.name)
+    && a.quantity === b.quantity
+    && Math.abs(getReceiptItemTotal(a) - getReceiptItemTotal(b)) < 0.005;
+}
+
+/**
+ * Merge items that were read twice because consecutive photos of a long docket overlap
+ *
+ * For each pair of consecutive pages, the longest run of lines at the end of the first page
+ * that repeats (same name, quantity and price, in the same order) at the start of the next
+ * page is treated as the overlap. A single repeated line must also sit in the bottom half of
+ * one page and the top half of the next. Merges are only applied when the items don't already
+ * match the total and removing the duplicates brings them closer to it.
+ *
+ * Kept items get a mergeId; the removed copies go to mergedItems so undoReceiptMerge can restore them.
+ */
+export function mergePageOverlaps(receiptData: ReceiptData): ReceiptData {
+  const { items } = receiptData;
+  const pages = Array.from(new Set(items.map(getItemPage))).sort((a, b) => a - b);
+  if (pages.length < 2) return receiptData;
+
+  const difference = getReceiptTotalDifference(receiptData);
+  if (Math.abs(difference) <= RECEIPT_TOTAL_TOLERANCE) return receiptData;
+
+  // duplicates[index of removed copy] = index of the item it repeats
+  const duplicates = new Map<number, number>();
+  for (let p = 0; p < pages.length - 1; p++) {
+    const tail = items.map((item, index) => index).filter(index => getItemPage(items[index]) === pages[p]);
+    const head = items.map((item, index) => index).filter(index => getItemPage(items[index]) === pages[p + 1]);
+
+    for (let length = Math.min(tail.length, head.length, MAX_OVERLAP_LINES); length > 0; length--) {
+      const kept = tail.slice(tail.length - length);
+      const repeated = head.slice(0, length);
+      if (!kept.every((index, i) => isSameReceiptLine(items[index], items[repeated[i]]))) continue;
+
+      if (length === 1) {
+        const keptBox = items[kept[0]].boundingBox;
+        const repeatedBox = items[repeated[0]].boundingBox;
+        if (!keptBox || !repeatedBox || keptBox.y < 0.5 || repeatedBox.y > 0.5) break;
+      }
+      repeated.forEach((index, i) => duplicates.set(index, kept[i]));
+      break;
+    }
+  }
+  if (duplicates.size === 0) return receiptData;
+
+  const duplicatesTotal = Array.from(duplicates.keys()).reduce((sum, index) => sum + getReceiptItemTotal(items[index]), 0);
+  if (Math.abs(difference - duplicatesTotal) >= Math.abs(difference)) return receiptData;
+
+  const mergeIds = new Map<number, string>();
+  const mergedItems: ReceiptItem[] = [...(receiptData.mergedItems || [])];
+  duplicates.forEach((keptIndex, index) => {
+    const mergeId = items[keptIndex].mergeId ?? mergeIds.get(keptIndex) ?? `merge-${Date.now().toString(36)}-${keptIndex}`;
+    mergeIds.set(keptIndex, mergeId);
+    mergedItems.push({ ...items[index], mergeId });
+  });
+
+  // Item warnings follow their item; warnings on a removed copy move to the item it was merged into
+  const newIndexes: number[] = [];
+  const mergedList: ReceiptItem[] = [];
+  items.forEach((item, index) => {
+    if (duplicates.has(index)) return;
+    newIndexes[index] = mergedList.length;
+    const mergeId = mergeIds.get(index);
+    mergedList.push(mergeId ? { ...item, mergeId } : item);
+  });
+  const warnings: ReceiptWarning[] = (receiptData.warnings || []).map(warning => {
+    if (warning.itemIndex === undefined) return warning;
+    const index = duplicates.get(warning.itemIndex) ?? warning.itemIndex;
+    return { ...warning, itemIndex: newIndexes[index] };
+  });
+  warnings.push({
+    message: `Merged ${duplicates.size} item${duplicates.size === 1 ? '' : 's'} repeated where the photos overlap`,
+  });
+
+  return { ...receiptData, items: mergedList, mergedItems, warnings };
+}
+
+/**
+ * Split a merge made by mergePageOverlaps: the removed copies go back into the items,
+ * right after the item they were merged into (or at the end if it is gone)
+ */
+export function undoReceiptMerge(receiptData: ReceiptData, mergeId: string): ReceiptData {
+  const restored = (receiptData.mergedItems || []).filter(item => item.mergeId === mergeId);
+  if (restored.length === 0) return receiptData;
+
+  const keptIndex = receiptData.items.findIndex(item => item.mergeId === mergeId);
+  const insertAt = keptIndex >= 0 ? keptIndex + 1 : receiptData.items.length;
+  const items = receiptData.items.map(item => {
+    if (item.mergeId !== mergeId) return item;
+    const { mergeId: _mergeId, ...rest } = item;
+    return rest;
+  });
+  items.splice(insertAt, 0, ...restored.map(({ mergeId: _mergeId, ...rest }) => rest));
+
+  const warnings = receiptData.warnings?.map(warning => (
+    warning.itemIndex !== undefined && warning.itemIndex >= insertAt
+      ? { ...warning, itemIndex: warning.itemIndex + restored.length }
+      : warning
+  ));
+  const mergedItems = (receiptData.mergedItems || []).filter(item => item.mergeId !== mergeId);
+
+  const result: ReceiptData = { ...receiptData, items, warnings };
+  if (mergedItems.length > 0) {
+    result.mergedItems = mergedItems;
+  } else {
+    delete result.mergedItems;
+  }
+  return result;
+}
+
+/**
+ * Gemini response schema (OpenAPI subset used by generationConfig.responseSchema)
+ */
+interface GeminiSchema {
+  type: 'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN';
+  description?: string;
+  properties?: Record<string, GeminiSchema>;
+  items?: GeminiSchema;
+  required?: string[];
+}
+
+/**
+ * Schema properties for every field of T, so the schema fails to compile
+ * when ReceiptData gains or loses a model-provided field
+ */
+type GeminiSchemaProperties<T> = { [K in keyof T]-?: GeminiSchema };
+
+/**
+ * Fields the model returns (metadata added by the app is excluded)
+ */
+type ModelReceiptData = Omit<ReceiptData, 'extraction' | 'warnings' | 'mergedItems'>;
+type ModelReceiptItem = Omit<ReceiptItem, 'mergeId'>;
+
+const RECEIPT_BOUNDING_BOX_SCHEMA_PROPERTIES: GeminiSchemaProperties<ReceiptBoundingBox> = {
+  x: { type: 'NUMBER' },
+  y: { type: 'NUMBER' },
+  width: { type: 'NUMBER' },
+  height: { type: 'NUMBER' },
+  page: { type: 'INTEGER', description: 'Index of the image the item appears in (0-based)' },
+};
+
+const RECEIPT_MODIFIER_SCHEMA_PROPERTIES: GeminiSchemaProperties<ReceiptModifier> = {
+  name: { type: 'STRING', description: 'Modifier text as printed, without quantity prefix or price' },
+  quantity: { type: 'INTEGER', description: 'Quantity when printed (e.g. 2 for "2 X Grilled Flake"); omit otherwise' },
+  price: { type: 'NUMBER', description: 'Extra charge printed on the modifier line; omit when no price is printed' },
+};
+
+const RECEIPT_ITEM_SCHEMA_PROPERTIES: GeminiSchemaProperties<ModelReceiptItem> = {
+  name: { type: 'STRING', description: 'Product name exactly as printed, without quantity prefix' },
+  quantity: { type: 'INTEGER', description: 'Quantity, 1 if not shown' },
+  price: { type: 'NUMBER', description: 'Line total exactly as printed, without $ sign' },
+  modifiers: {
+    type: 'ARRAY',
+    items: { type: 'OBJECT', properties: RECEIPT_MODIFIER_SCHEMA_PROPERTIES, required: ['name'] },
+    description: 'Modifiers visible on the receipt; omit if none',
+  },
+  confidence: { type: 'NUMBER', description: 'How certain the item was read correctly, 0 to 1' },
+  boundingBox: {
+    type: 'OBJECT',
+    properties: RECEIPT_BOUNDING_BOX_SCHEMA_PROPERTIES,
+    required: ['x', 'y', 'width', 'height'],
+    description: 'Region of the item line and its modifiers, as fractions (0-1) of the image size',
+  },
+};
+
+const RECEIPT_CUSTOMER_SCHEMA_PROPERTIES: GeminiSchemaProperties<ReceiptCustomer> = {
+  name: { type: 'STRING' },
+  phone: { type: 'STRING' },
+};
+
+const RECEIPT_ADJUSTMENT_SCHEMA_PROPERTIES: GeminiSchemaProperties<ReceiptAdjustment> = {
+  type: { type: 'STRING', description: `One of: ${RECEIPT_ADJUSTMENT_TYPES.join(', ')}` },
+  label: { type: 'STRING', description: 'Line text as printed' },
+  amount: { type: 'NUMBER', description: 'Negative for discounts, positive for surcharges, tips and fees' },
+};
+
+const RECEIPT_PAYMENT_SCHEMA_PROPERTIES: GeminiSchemaProperties<ReceiptPayment> = {
+  method: { type: 'STRING', description: 'Payment method as printed, e.g. Cash, EFTPOS, Visa' },
+  amount: { type: 'NUMBER' },
+};
+
+const RECEIPT_DATA_SCHEMA_PROPERTIES: GeminiSchemaProperties<ModelReceiptData> = {
+  items: {
+    type: 'ARRAY',
+    items: {
+      type: 'OBJECT',
+      properties: RECEIPT_ITEM_SCHEMA_PROPERTIES,
+      required: ['name', 'quantity', 'price'],
+    },
+  },
+  total: { type: 'NUMBER', description: 'Receipt total (GST inclusive)' },
+  customer: {
+    type: 'OBJECT',
+    properties: RECEIPT_CUSTOMER_SCHEMA_PROPERTIES,
+    description: 'Only when customer details are printed on the receipt',
+  },
+  adjustments: {
+    type: 'ARRAY',
+    items: {
+      type: 'OBJECT',
+      properties: RECEIPT_ADJUSTMENT_SCHEMA_PROPERTIES,
+      required: ['type', 'label', 'amount'],
+    },
+    description: 'Discount, surcharge, tip, delivery fee and rounding lines; omit if none',
+  },
+  payments: {
+    type: 'ARRAY',
+    items: {
+      type: 'OBJECT',
+      properties: RECEIPT_PAYMENT_SCHEMA_PROPERTIES,
+      required: ['method', 'amount'],
+    },
+    description: 'Payment lines; omit if none',
+  },
+};
+
+/**
+ * Response schema for structured-output (JSON mode) Gemini requests
+ */
+const RECEIPT_RESPONSE_SCHEMA: GeminiSchema = {
+  type: 'OBJECT',
+  properties: RECEIPT_DATA_SCHEMA_PROPERTIES,
+  required: ['items', 'total'],
+};
+
+/**
+ * Result of an extraction: structured ReceiptData, or raw text for
+ * providers that cannot produce structured output
+ */
+export type ReceiptExtractionResult = string | ReceiptData;
+
+/**
+ * Receives the receipt read so far while a streamed extraction is in progress
+ */
+export type PartialReceiptListener = (partial: ReceiptData) => void;
+
+/**
+ * Receipt extraction provider
+ * Each OCRMode maps to one registered extractor, so new vendors or
+ * self-hosted models can be added without changing the capture screen
+ */
+export interface ReceiptExtractor {
+  id: OCRMode;
+  name: string;
+  description: string;
+  supportsMultiPage: boolean;
+  supportsStreaming?: boolean; // Calls onPartialResult with items as they arrive
+  extract(images: string[], isMultiPage: boolean, signal?: AbortSignal, onPartialResult?: PartialReceiptListener): Promise<ReceiptExtractionResult>;
+  getModelId(): Promise<string>; // Identifies the model for the extraction cache key
+  getPromptVersion?(): Promise<string>; // Identifies the prompt for the cache key (omit if no prompt is used)
+}
+
+/**
+ * Options for extractTextFromImageWithMode
+ */
+export interface ExtractionOptions {
+  signal?: AbortSignal; // Abort to cancel the extraction
+  skipCache?: boolean; // Always call the API (the fresh result still replaces the cached one)
+  onPartialResult?: PartialReceiptListener; // Stream the extraction (extractors with supportsStreaming only)
+}
+
+const receiptExtractors = new Map<OCRMode, ReceiptExtractor>();
+
+/**
+ * Register a receipt extractor (replaces any extractor with the same id)
+ */
+export function registerReceiptExtractor(extractor: ReceiptExtractor): void {
+  receiptExtractors.set(extractor.id, extractor);
+}
+
+/**
+ * Get the extractor registered for an OCR mode
+ */
+export function getReceiptExtractor(mode: OCRMode): ReceiptExtractor {
+  const extractor = receiptExtractors.get(mode);
+  if (!extractor) {
+    throw new Error(`No receipt extractor registered for OCR mode: ${mode}`);
+  }
+  return extractor;
+}
+
+/**
+ * Get all registered extractors (in registration order)
+ */
+export function getReceiptExtractors(): ReceiptExtractor[] {
+  return Array.from(receiptExtractors.values());
+}
+    
+/**
+ * Build the extraction prompt from the configured prompt profile
+ */
+async function resolveReceiptPrompt(): Promise<ReceiptPrompt> {
+  const { profileId, customInstructions } = await getPromptProfileSettings();
+  return buildReceiptPrompt(profileId, customInstructions);
+}
+
+/**
+ * Split an image string into mime type and raw base64 data
+ * Accepts plain base64 (assumed JPEG) or a data URL
+ */
+function parseImageData(img: string): { mimeType: string; data: string } {
+  if (img.startsWith('data:')) {
+    const mimeMatch = img.match(/data:([^;]+);base64,/);
+    if (mimeMatch) {
+      return { mimeType: mimeMatch[1], data: img.split(',')[1] };
+    }
+  }
+  return { mimeType: 'image/jpeg', data: img };
+}
+
+/**
+ * Parse a number that may have been returned as text (e.g. "$10.50", "1,210.00", "2x")
+ * Returns null when no number can be read
+ */
+function coerceNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string') {
+    const match = value.replace(/[,\s]/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+  }
+  return null;
+}
+
+/**
+ * Validate a model-provided bounding box, returning null when it is unusable
+ * Accepts fractions (0-1) or Gemini's native 0-1000 scale
+ */
+function normalizeBoundingBox(value: unknown): ReceiptBoundingBox | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  const coords = [raw.x, raw.y, raw.width, raw.height].map(coerceNumber);
+  if (coords.some(n => n === null || n < 0)) return null;
+  const scale = coords.some(n => n! > 1) ? 1000 : 1;
+  const [x, y, width, height] = coords.map(n => Math.min(1, n! / scale));
+  if (width === 0 || height === 0) return null;
+
+  const boundingBox: ReceiptBoundingBox = { x, y, width, height };
+  const page = coerceNumber(raw.page);
+  if (page !== null && page >= 0) {
+    boundingBox.page = Math.floor(page);
+  }
+  return boundingBox;
+}
+
+/**
+ * Convert a modifier from a model response or a saved receipt into a ReceiptModifier
+ * Plain strings (the legacy format) become name-only modifiers; returns null when unusable
+ */
+function toReceiptModifier(value: unknown): ReceiptModifier | null {
+  if (typeof value === 'string' || typeof value === 'number') {
+    const name = String(value).trim();
+    return name ? { name } : null;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const raw = value as Record<string, unknown>;
+  const name = typeof raw.name === 'string' || typeof raw.name === 'number' ? String(raw.name).trim() : '';
+  if (!name) return null;
+  const modifier: ReceiptModifier = { name };
+  const quantity = coerceNumber(raw.quantity);
+  if (quantity !== null && quantity >= 1) {
+    modifier.quantity = Math.floor(quantity);
+  }
+  const price = coerceNumber(raw.price);
+  if (price !== null && price !== 0) {
+    modifier.price = price;
+  }
+  return modifier;
+}
+
+/**
+ * Bring receipt data saved by an older version up to the current shape
+ * (modifiers used to be plain strings). Safe to call on current data.
+ */
+export function upgradeReceiptData(receiptData: ReceiptData): ReceiptData {
+  return {
+    ...receiptData,
+    items: receiptData.items.map(item => {
+      if (!Array.isArray(item.modifiers)) return item;
+      const modifiers = (item.modifiers as unknown[])
+        .map(modifier => toReceiptModifier(modifier))
+        .filter((modifier): modifier is ReceiptModifier => modifier !== null);
+      return { ...item, modifiers };
+    }),
+  };
+}
+
+/**
+ * Map a free-form adjustment type ("Discount", "card surcharge", "delivery") to a known type
+ */
+function normalizeAdjustmentType(value: unknown, label: string): ReceiptAdjustmentType | null {
+  const text = `${typeof value === 'string' ? value : ''} ${label}`.toLowerCase();
+  if (/discount|promo|voucher|coupon|off\b/.test(text)) return 'discount';
+  if (/tip|gratuity/.test(text)) return 'tip';
+  if (/deliver/.test(text)) return 'delivery_fee';
+  if (/round/.test(text)) return 'rounding';
+  if (/surcharge|\bfee\b|service/.test(text)) return 'surcharge';
+  return null;
+}
+
+/**
+ * Validate adjustment lines; discounts are always negative, other types keep their sign
+ */
+function normalizeAdjustments(value: unknown, warnings: ReceiptWarning[]): ReceiptAdjustment[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    warnings.push({ message: 'Adjustments were unreadable and were dropped' });
+    return [];
+  }
+
+  const adjustments: ReceiptAdjustment[] = [];
+  value.forEach((raw: any, index: number) => {
+    const amount = raw && typeof raw === 'object' ? coerceNumber(raw.amount) : null;
+    if (amount === null) {
+      warnings.push({ message: `Skipped adjustment ${index + 1}: amount was missing or unreadable` });
+      return;
+    }
+    const label = typeof raw.label === 'string' && raw.label.trim() ? raw.label.trim() : String(raw.type || 'Adjustment');
+    const type = RECEIPT_ADJUSTMENT_TYPES.includes(raw.type) ? raw.type as ReceiptAdjustmentType : normalizeAdjustmentType(raw.type, label);
+    if (!type) {
+      warnings.push({ message: `Adjustment "${label}" had an unknown type "${raw.type}", treated as a surcharge` });
+    }
+    adjustments.push({
+      type: type || 'surcharge',
+      label,
+      amount: type === 'discount' ? -Math.abs(amount) : amount,
+    });
+  });
+  return adjustments;
+}
+
+/**
+ * Validate payment lines, dropping any without a readable amount
+ */
+function normalizePayments(value: unknown, warnings: ReceiptWarning[]): ReceiptPayment[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    warnings.push({ message: 'Payments were unreadable and were dropped' });
+    return [];
+  }
+
+  const payments: ReceiptPayment[] = [];
+  value.forEach((raw: any, index: number) => {
+    const amount = raw && typeof raw === 'object' ? coerceNumber(raw.amount) : null;
+    if (amount === null) {
+      warnings.push({ message: `Skipped payment ${index + 1}: amount was missing or unreadable` });
+      return;
+    }
+    const method = typeof raw.method === 'string' && raw.method.trim() ? raw.method.trim() : 'Payment';
+    payments.push({ method, amount });
+  });
+  return payments;
+}
+
+/**
+ * Validate and repair a parsed model response into ReceiptData
+ * Fixable problems (string prices/quantities, null or malformed modifiers,
+ * missing total, ...) are coerced and reported in `warnings` instead of
+ * failing, so one bad field doesn't lose the whole receipt.
+ * Throws only when the response has no usable items array.
+ */
+export function normalizeReceiptData(raw: unknown): ReceiptData {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Invalid JSON structure: root is not an object');
+  }
+  const data = raw as Record<string, any>;
+  if (!Array.isArray(data.items)) {
+    throw new Error('Invalid JSON structure: items is not an array');
+  }
+
+  const warnings: ReceiptWarning[] = [];
+  const items: ReceiptItem[] = [];
+
+  data.items.forEach((rawItem: any, rawIndex: number) => {
+    if (!rawItem || typeof rawItem !== 'object') {
+      warnings.push({ message: `Skipped item ${rawIndex + 1}: not a valid item` });
+      return;
+    }
+    const itemIndex = items.length;
+    const warn = (message: string) => warnings.push({ itemIndex, message });
+
+    let name = typeof rawItem.name === 'number' ? String(rawItem.name) : rawItem.name;
+    if (typeof name !== 'string' || name.trim() === '') {
+      name = 'Unknown item';
+      warn('Item name was missing');
+    }
+
+    let quantity = coerceNumber(rawItem.quantity);
+    if (rawItem.quantity === undefined || rawItem.quantity === null) {
+      quantity = 1;
+    } else if (quantity === null || quantity < 1) {
+      warn(`Quantity "${rawItem.quantity}" was invalid, using 1`);
+      quantity = 1;
+    } else if (typeof rawItem.quantity !== 'number') {
+      warn(`Quantity read from text "${rawItem.quantity}"`);
+    }
+
+    let price = coerceNumber(rawItem.price);
+    if (price === null) {
+      warn('Price was missing or unreadable, using $0.00');
+      price = 0;
+    } else if (typeof rawItem.price !== 'number') {
+      warn(`Price read from text "${rawItem.price}"`);
+    }
+    if (price < 0) {
+      warn(`Price is negative ($${price.toFixed(2)})`);
+    }
+
+    let modifiers: ReceiptModifier[] | undefined;
+    if (typeof rawItem.modifiers === 'string') {
+      modifiers = rawItem.modifiers.trim() ? [{ name: rawItem.modifiers.trim() }] : undefined;
+    } else if (Array.isArray(rawItem.modifiers)) {
+      modifiers = rawItem.modifiers
+        .map((modifier: unknown) => toReceiptModifier(modifier))
+        .filter((modifier: ReceiptModifier | null): modifier is ReceiptModifier => modifier !== null);
+      if (modifiers!.length < rawItem.modifiers.length) {
+        warn('Some modifiers were unreadable and were dropped');
+      }
+    } else if (rawItem.modifiers !== undefined && rawItem.modifiers !== null) {
+      warn('Modifiers were unreadable and were dropped');
+    }
+
+    const item: ReceiptItem = { name: name.trim(), quantity, price };
+    if (modifiers && modifiers.length > 0) {
+      item.modifiers = modifiers;
+    }
+
+    // Confidence and region are optional hints: drop them silently when unusable
+    let confidence = coerceNumber(rawItem.confidence);
+    if (confidence !== null && confidence > 1 && confidence <= 100) {
+      confidence = confidence / 100; // Percentage
+    }
+    if (confidence !== null && confidence >= 0 && confidence <= 1) {
+      item.confidence = confidence;
+    }
+    const boundingBox = normalizeBoundingBox(rawItem.boundingBox);
+    if (boundingBox) {
+      item.boundingBox = boundingBox;
+    }
+    items.push(item);
+  });
+
+  const adjustments = normalizeAdjustments(data.adjustments, warnings);
+  const payments = normalizePayments(data.payments, warnings);
+
+  let total = coerceNumber(data.total);
+  const totalPrinted = total !== null;
+  if (total === null) {
+    total = getReceiptItemsTotal({ items, total: 0, adjustments });
+    warnings.push({ message: `Receipt total was missing, using the sum of items ($${total.toFixed(2)})` });
+  } else if (typeof data.total !== 'number') {
+    warnings.push({ message: `Receipt total read from text "${data.total}"` });
+  }
+
+  const receiptData: ReceiptData = { items, total };
+  if (adjustments.length > 0) {
+    receiptData.adjustments = adjustments;
+  }
+  if (payments.length > 0) {
+    receiptData.payments = payments;
+  }
+
+  if (data.customer !== undefined && data.customer !== null) {
+    if (typeof data.customer !== 'object' || Array.isArray(data.customer)) {
+      warnings.push({ message: 'Customer details were unreadable and were dropped' });
+    } else {
+      const customer: ReceiptCustomer = {};
+      const { name, phone } = data.customer;
+      if (typeof name === 'string' && name.trim()) customer.name = name.trim();
+      if ((typeof phone === 'string' && phone.trim()) || typeof phone === 'number') customer.phone = String(phone).trim();
+      if (customer.name || customer.phone) {
+        receiptData.customer = customer;
+      }
+    }
+  }
+
+  if (warnings.length > 0) {
+    receiptData.warnings = warnings;
+  }
+  // Only a total read from the receipt can tell real repeats from overlap duplicates
+  return totalPrinted ? mergePageOverlaps(receiptData) : receiptData;
+}
+
+/**
+ * Parse and validate the receipt JSON text returned by a model
+ */
+function parseReceiptJSON(aiResponseText: string): ReceiptData {
+  try {
+    // Clean the response text - remove any markdown code blocks if present
+    let cleanedText = aiResponseText.trim();
+    // Remove markdown code blocks if present
+    if (cleanedText.startsWith('```')) {
+      cleanedText = cleanedText.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+    }
+
+    const receiptData = normalizeReceiptData(JSON.parse(cleanedText));
+    if (receiptData.warnings) {
+      console.warn('Repaired AI JSON response:', receiptData.warnings);
+    }
+    return receiptData;
+  } catch (parseError) {
+    console.error('Failed to parse AI JSON response:', aiResponseText);
+    throw new Error(`Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Parse a streamed, still incomplete receipt JSON for display
+ * Only items whose price has arrived are kept; returns null until the first one has
+ */
+export function parsePartialReceiptJSON(aiResponseText: string): ReceiptData | null {
+  const raw = parsePartialJSON(aiResponseText) as Record<string, any> | undefined;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.items)) return null;
+  const items = raw.items.filter((item: any) => item && typeof item.name === 'string' && coerceNumber(item.price) !== null);
+  if (items.length === 0) return null;
+  try {
+    const receiptData = normalizeReceiptData({ ...raw, items });
+    return { ...receiptData, warnings: undefined, mergedItems: undefined };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the follow-up prompt sent when the extracted items do not add up to the total
+ */
+function buildTotalMismatchPrompt(receiptData: ReceiptData, difference: number): string {
+  const itemsTotal = receiptData.total + difference;
+  return `The JSON you returned does not add up: the item prices plus adjustments sum to ${itemsTotal.toFixed(2)} but the total is ${receiptData.total.toFixed(2)} (difference ${difference >= 0 ? '+' : ''}${difference.toFixed(2)}).
+
+Look at the receipt image(s) again and correct the mistake. Common causes:
+- An item was missed, or the same line was extracted twice
+- A modifier line was extracted as a separate item (or an item as a modifier)
+- A price or the total was misread (check each digit)
+- The wrong line was used as the total
+- A discount, surcharge, tip, fee or rounding line was missed, extracted as an item, or has the wrong sign
+
+Do NOT change any value just to make the numbers match - only fix what differs from the receipt.
+Return ONLY the corrected JSON using the same structure.
+
+JSON response:`;
+}
+
+/**
+ * Record token usage and cost for a Generative AI request
+ * usageData is the response object carrying usageMetadata (the last chunk when streaming)
+ */
+async function recordGenerativeAIUsage(
+  model: string,
+  contents: any[],
+  usageData: any,
+  responseSize: number,
+  totalImageSize: number
+): Promise<void> {
+  // Extract token usage from API response
+  const tokenUsage = extractTokenUsage(usageData);
+  if (tokenUsage) {
+    console.log('AI API Token Usage:', {
+      promptTokens: tokenUsage.promptTokens,
+      candidatesTokens: tokenUsage.candidatesTokens,
+      totalTokens: tokenUsage.totalTokens,
+    });
+  }
+
+  // Record API usage and cost
+  try {
+    // Replace image data with a placeholder so the size reflects the text payload
+    const textParts = contents.flatMap(content => content.parts);
+    const requestSize = JSON.stringify({
+      contents: contents.map(content => ({
+        ...content,
+        parts: content.parts.map((p: any) =>
+          p.inline_data ? { inline_data: { mime_type: p.inline_data.mime_type, data: '...' } } : p
+        )
+      }))
+    }).length;
+    const promptTextLength = textParts.reduce((sum: number, p: any) => sum + (p.text?.length || 0), 0);
+    
+    const usage = await recordAPIUsage(
+      model,
+      tokenUsage,
+      requestSize,
+      responseSize,
+      promptTextLength, // Pass prompt text length (all turns)
+      totalImageSize // Pass total image size for better estimation
+    );
+    
+    console.log('AI API Cost:', {
+      model: usage.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      totalTokens: usage.totalTokens,
+      estimatedCost: `$${usage.estimatedCost.toFixed(6)}`,
+    });
+  } catch (costError) {
+    console.warn('Failed to record API usage:', costError);
+    // Don't fail the request if cost tracking fails
+  }
+}
+
+/**
+ * Build the error thrown for a failed Google AI response
+ */
+function buildGenerativeAIError(status: number, statusText: string, responseText: string): Error {
+  // Try to parse error data, but handle if it's not valid JSON
+  let errorData;
+  try {
+    errorData = responseText ? JSON.parse(responseText) : { error: 'Unknown error' };
+  } catch (parseError) {
+    errorData = { 
+      error: `HTTP ${status}: ${statusText}`,
+      message: responseText || 'No error details available'
+    };
+  }
+  return new Error(`Google AI API error (${status}): ${JSON.stringify(errorData)}`);
+}
+
+function getGenerativeAIRequestBody(contents: any[]): string {
+  return JSON.stringify({
+    contents: contents,
+    generationConfig: {
+      responseMimeType: 'application/json',
+      responseSchema: RECEIPT_RESPONSE_SCHEMA,
+    }
+  });
+}
+
+/**
+ * Send a generateContent request to Google Generative AI and return the response text
+ * Records token usage and cost for the request
+ */
+async function requestGenerativeAIContent(
+  model: string,
+  contents: any[],
+  totalImageSize: number,
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await fetchWithRetry(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${GOOGLE_AI_KEY}`,
+    {
+      signal,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: getGenerativeAIRequestBody(contents),
+    }
+  );
+
+  // Get response text first to check if it's empty
+  const responseText = await response.text();
+  console.log('AI API response status:', response.status, response.statusText);
+  console.log('AI API response length:', responseText?.length || 0);
+  
+  if (!response.ok) {
+    throw buildGenerativeAIError(response.status, response.statusText, responseText);
+  }
+
+  // Check if response is empty
+  if (!responseText || responseText.trim() === '') {
+    throw new Error('Empty response from Google AI API');
   }
 
+  // Parse JSON response
+  let data;
   try {
-    const response = await fetch(
-      `https://vision.googleapis.com/v1/images:annotate?key=${GOOGLE_VISION_API_KEY}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          requests: [{
-            image: { content: base64Image },
-            features: [{ type: 'TEXT_DETECTION', maxResults: 1 }]
-          }]
-        })
-      }
-    );
+    data = JSON.parse(responseText);
+  } catch (parseError) {
+    console.error('Failed to parse AI response:', responseText);
+    throw new Error(`Invalid JSON response from AI API: ${parseError}`);
+  }
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`Google Vision API error: ${JSON.stringify(errorData)}`);
+  // Check for errors in response
+  if (data.error) {
+    throw new Error(`Google AI API error: ${JSON.stringify(data.error)}`);
+  }
+
+  await recordGenerativeAIUsage(model, contents, data, responseText.length, totalImageSize);
+
+  const aiResponseText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  
+  if (!aiResponseText) {
+    // Check if there's an error in the response
+    if (data.candidates?.[0]?.finishReason === 'SAFETY' || data.candidates?.[0]?.finishReason === 'RECITATION') {
+      throw new Error(`Content blocked by safety filter (finishReason: ${data.candidates[0].finishReason})`);
     }
+    throw new Error('No response text returned from AI. Response: ' + JSON.stringify(data));
+  }
 
-    const data = await response.json();
-    const extractedText = data.responses[0]?.fullTextAnnotation?.text || '';
-    
-    if (!extractedText && data.responses[0]?.error) {
-      throw new Error(`OCR Error: ${JSON.stringify(data.responses[0].error)}`);
+  return aiResponseText;
+}
+
+/**
+ * Send a streamGenerateContent request (server-sent events) and return the full response text
+ * onText receives the answer accumulated so far each time a chunk arrives.
+ * Records token usage and cost like requestGenerativeAIContent.
+ */
+async function requestGenerativeAIContentStream(
+  model: string,
+  contents: any[],
+  totalImageSize: number,
+  onText: (textSoFar: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  let pending = ''; // Incomplete SSE line carried over to the next chunk
+  let aiResponseText = '';
+  let lastChunk: any = null;
+  let streamError: Error | null = null; // Reported inside the stream, thrown once it ends
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    const payload = line.slice(5).trim();
+    if (!payload) return;
+    let chunk;
+    try {
+      chunk = JSON.parse(payload);
+    } catch {
+      console.warn('Skipping unreadable stream chunk:', payload.slice(0, 200));
+      return;
     }
+    if (chunk.error) {
+      streamError = new Error(`Google AI API error: ${JSON.stringify(chunk.error)}`);
+      return;
+    }
+    lastChunk = chunk;
+    const text = (chunk.candidates?.[0]?.content?.parts || []).map((part: any) => part.text || '').join('');
+    if (text) {
+      aiResponseText += text;
+      onText(aiResponseText);
+    }
+  };
 
-    return extractedText;
-  } catch (error) {
-    console.error('Google Vision API Error:', error);
-    throw error;
+  const response = await streamWithRetry(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${GOOGLE_AI_KEY}`,
+    {
+      signal,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: getGenerativeAIRequestBody(contents),
+    },
+    chunk => {
+      const lines = (pending + chunk).split('\n');
+      pending = lines.pop() || '';
+      lines.forEach(line => handleLine(line.trim()));
+    }
+  );
+  console.log('AI API stream status:', response.status);
+
+  if (!response.ok) {
+    throw buildGenerativeAIError(response.status, '', response.text);
+  }
+  handleLine(pending.trim());
+  if (streamError) {
+    throw streamError;
   }
-}
 
+  await recordGenerativeAIUsage(model, contents, lastChunk, response.text.length, totalImageSize);
+
+  if (!aiResponseText) {
+    const finishReason = lastChunk?.candidates?.[0]?.finishReason;
+    if (finishReason === 'SAFETY' || finishReason === 'RECITATION') {
+      throw new Error(`Content blocked by safety filter (finishReason: ${finishReason})`);
+    }
+    throw new Error('No response text returned from AI stream');
+  }
+
+  return aiResponseText;
+}
 
 /**
- * Receipt data structure returned by AI
+ * Run extraction against one model, re-prompting on total mismatch
+ * Throws if the first request fails; a failed correction keeps the previous answer
  */
-export interface ReceiptItem {
-  name: string;
-  quantity: number;
-  price: number; // Price as a number (without $ sign)
-  modifiers?: string[]; // Optional array of modifier strings
-}
+async function runGenerativeExtraction(
+  model: string,
+  parts: any[],
+  totalImageSize: number,
+  maxAttempts: number,
+  signal?: AbortSignal,
+  onPartialResult?: PartialReceiptListener
+): Promise<ReceiptData> {
+  // Conversation grows with each correction: previous answer + mismatch feedback
+  const contents: any[] = [{ role: 'user', parts: parts }];
+  let receiptData: ReceiptData | null = null;
+  let attempts = 0;
+  let converged = false;
 
-export interface ReceiptCustomer {
-  name?: string;
-  phone?: string;
-}
+  while (attempts < maxAttempts) {
+    let aiResponseText: string;
+    let attemptData: ReceiptData;
+    try {
+      aiResponseText = onPartialResult
+        ? await requestGenerativeAIContentStream(model, contents, totalImageSize, textSoFar => {
+          const partial = parsePartialReceiptJSON(textSoFar);
+          if (partial) onPartialResult(partial);
+        }, signal)
+        : await requestGenerativeAIContent(model, contents, totalImageSize, signal);
+      attemptData = parseReceiptJSON(aiResponseText);
+    } catch (attemptError) {
+      // Keep the previous answer if a correction attempt fails (but never swallow a cancel)
+      if (!receiptData || isRequestCancelled(attemptError)) throw attemptError;
+      console.warn(`Correction attempt ${attempts + 1} failed, keeping previous result:`, attemptError);
+      break;
+    }
+    attempts++;
+    receiptData = attemptData;
 
-export interface ReceiptData {
-  items: ReceiptItem[];
-  total: number; // Total price (GST inclusive)
-  customer?: ReceiptCustomer; // Optional customer info
+    const difference = getReceiptTotalDifference(receiptData);
+    if (Math.abs(difference) <= RECEIPT_TOTAL_TOLERANCE) {
+      converged = true;
+      break;
+    }
+
+    console.warn(`Receipt total mismatch on attempt ${attempts}/${maxAttempts} (${model}): difference ${difference.toFixed(2)}`);
+    contents.push(
+      { role: 'model', parts: [{ text: aiResponseText }] },
+      { role: 'user', parts: [{ text: buildTotalMismatchPrompt(receiptData, difference) }] }
+    );
+  }
+
+  return { ...receiptData!, extraction: { attempts, converged, model } };
 }
 
 /**
@@ -89,176 +1196,41 @@ export interface ReceiptData {
  * Sends image(s) directly to Gemini (no Vision API needed)
  * This is more efficient than the two-step process
  * Supports single image or multiple images for multi-page receipts
+ *
+ * If the item prices do not add up to the total, the model is re-prompted with
+ * its previous JSON and the difference, up to the configured number of attempts.
+ * If a model fails (rate limit, safety block, invalid JSON) or never converges,
+ * the next model in the configured fallback chain is tried and the hop is logged.
+ * The result's `extraction` field records the model used, attempts made and whether it converged.
+ * Pass onPartialResult to stream each request and receive the items read so far.
  */
 export async function extractReceiptFromImageWithGenerativeAI(
   base64Image: string | string[],
-  isMultiPage: boolean = false
+  isMultiPage: boolean = false,
+  signal?: AbortSignal,
+  onPartialResult?: PartialReceiptListener
 ): Promise<ReceiptData> {
   if (!GOOGLE_AI_KEY || GOOGLE_AI_KEY === '') {
     throw new Error('Google AI key not configured. Please set EXPO_PUBLIC_GOOGLE_AI_KEY');
   }
 
   try {
-    console.log('Extracting receipt directly from image with Generative AI, model:', MODEL_ID);
-    
-    const prompt = `You are a receipt parsing assistant. Analyze this receipt image and extract structured data, returning it as JSON.
-
-CRITICAL EXTRACTION RULES - STRICT PARSING ONLY:
-- ONLY extract information that is EXPLICITLY visible in the receipt image
-- DO NOT add, infer, or assume any information that is not in the receipt
-- DO NOT modify items or add modifiers that are not visible
-- Parse exactly what you see, nothing more, nothing less
-
-1. Store Information: DO NOT include store name, address, date, or time - ignore these completely.
-
-2. Total Identification:
-   - The "Total" label and amount appears at the TOP of the receipt (before product items)
-   - This Total line is NOT a product item - it is a summary line with the final total price
-   - CRITICAL: Identify and extract the Total amount from the top of the receipt
-   - This Total price already INCLUDES GST (10% GST is included in the total)
-   - Extract the numeric value of the total (e.g., if you see "$110.00" or "Total: $110.00", extract 110.00)
-
-3. Product Items:
-   - Extract each product/item as a separate entry
-   - ALWAYS extract quantity if present (e.g., "1x", "2x", "3x" before the product name)
-   - If no quantity is shown, assume quantity is 1
-   - Extract the product name EXACTLY as it appears in the receipt (without quantity prefix)
-   - DO NOT modify product names or add information that is not visible
-   - Extract the price shown on the line EXACTLY as printed (this is the line total, already including quantity when quantity is shown)
-   - NEVER attempt to calculate or divide a unit price—just copy the printed line amount
-   - If the same product name appears multiple times with different modifiers or prices, each is a SEPARATE item
-   - Example: If you see "Burger" with "no onions" and "$10.00", and "Burger" with "extra cheese" and "$12.00", list them as two separate items
-   - IMPORTANT: Only extract what you see - do not add or modify anything
-
-4. Modifiers - CRITICAL RULES:
-   - ONLY extract modifiers that are EXPLICITLY visible in the receipt image
-   - DO NOT add modifiers that are not visible in the receipt
-   - DO NOT infer or assume modifiers based on product names
-   - DO NOT add modifiers just because a product might commonly have them
-   - Modifiers can appear in different formats:
-     * On the same line as the product (e.g., "Burger - no onions")
-     * On a separate line below the product (e.g., "Family Pack"  with "2 X Grilled Flake" below it)
-     * Indented or visually associated with the product above
-   - IMPORTANT: If text appears below a product item WITHOUT its own price, it is likely a modifier of that product
-   - Quantity-based modifiers (like "2x Grilled Flake", "2 X Grilled Flake", "3x Large") should be extracted as-is, including the quantity
-   - Modifiers should be text-only (no prices, no dollar amounts)
-   - The price belongs to the main product, NOT to individual modifiers
-   - If a product has NO modifiers visible in the receipt image, you MUST omit the modifiers field completely (do not include an empty array)
-   - Only include modifiers if they are clearly written/printed on the receipt
-   - Distinguish modifiers from separate items: If text has its own price on the same line, it's a separate item, not a modifier
-
-5. Menu Accuracy & Validation:
-   - Some POS layouts show reference menus or modifiers on side panels—IGNORE these unless they are clearly part of the purchased items list.
-   - NEVER invent random menu entries; only capture lines that belong to the actual purchased items.
-   - After extracting all items, calculate the sum of the item prices (each price already includes its quantity).
-   - That calculated sum MUST match the Total amount identified in section 2 (allow a tolerance of ±$0.01 for rounding).
-   - If the numbers do not match, re-check the items and fix mistakes before returning the JSON.
-
-6. Customer Information (OPTIONAL):
-   - If the receipt clearly shows a customer name and/or phone number (e.g., loyalty info), capture it.
-   - Only record details that are explicitly printed on the receipt (e.g., "Customer: Jane Doe", "Phone: 0400 123 456").
-   - Do NOT invent or infer customer details that are not visible.
-   - Return customer info under a "customer" object with "name" and/or "phone" keys.
-   - If only one field is present, include just that field. If no customer info exists, omit the "customer" object entirely.
-
-7. Return Format:
-   - Return ONLY valid JSON, no explanations or comments
-   - Use this exact structure:
-     {
-       "items": [
-         {
-           "name": "Product Name",
-           "quantity": 1,
-           "price": 10.99,
-           "modifiers": ["No onions", "Extra cheese"]
-         }
-       ],
-       "total": 110.00,
-       "customer": {
-         "name": "Jane Doe",
-         "phone": "0400 123 456"
-       }
-     }
-   - All prices should be numbers (not strings)
-   - All quantities should be numbers (not strings)
-   - Product names should be strings
-   - Modifiers should be an array of strings (or omit if empty)
-   - The "customer" object is optional and should only be present when at least one customer field exists
-
-Example JSON output (only include modifiers if they are visible in the receipt, and only include customer info when it exists on the receipt):
-{
-  "items": [
-    {
-      "name": "BURGER",
-      "quantity": 1,
-      "price": 10.99,
-      "modifiers": ["No onions", "Extra cheese"]
-    },
-    {
-      "name": "BURGER",
-      "quantity": 2,
-      "price": 12.50,
-      "modifiers": ["Add bacon", "Extra cheese"]
-    },
-    {
-      "name": "Family Flake Pack",
-      "quantity": 1,
-      "price": 55.20,
-      "modifiers": ["2 X Grilled Flake"]
-    },
-    {
-      "name": "FRIES",
-      "quantity": 3,
-      "price": 15.50
-    }
-  ],
-  "total": 110.00,
-  "customer": {
-    "name": "Jane Doe",
-    "phone": "0400 123 456"
-  }
-}
-
-Note: In the example above, modifiers are only shown IF they are visible in the receipt. If FRIES had no modifiers visible, do not add any modifiers field for it.
-Note: The "Family Flake Pack" example shows how to handle modifiers that appear on separate lines below the main item (like "2 X Grilled Flake"). These should be extracted as modifiers, not as separate items.
-
-KEY POINTS:
-- Extract the Total from the TOP of the receipt (it's the final total price)
-- The Total already includes GST (10% inclusive)
-- Extract quantity as a number (1 if not shown)
-- Extract price as a number without $ sign
-- CRITICAL: Only extract modifiers that are ACTUALLY VISIBLE in the receipt image
-- CRITICAL: Pay special attention to text that appears below a product item - if it has no price, it's likely a modifier
-- CRITICAL: Quantity-based modifiers (like "2x Grilled Flake", "2 X Grilled Flake") should be captured as modifiers, not separate items
-- DO NOT add modifiers that are not in the receipt - if you don't see them, don't include them
-- If a product has no visible modifiers, omit the modifiers field completely
-- Each product with different modifiers or price is a separate item
-- Return ONLY the JSON, no other text
-- Be strict: only parse what you see, don't add anything
-- Customer info is optional; include it ONLY when name and/or phone are clearly printed
-- Verify that the sum of item prices equals the receipt total before responding
-
-JSON response:`;
+    const [models, maxAttempts, prompt] = await Promise.all([
+      getGenerativeModelChain(),
+      getExtractionMaxAttempts(),
+      resolveReceiptPrompt(),
+    ]);
+    console.log('Extracting receipt directly from image with Generative AI, models:', models, 'prompt:', `${prompt.id}@${prompt.version}`);
 
     // Handle single or multiple images
     const images = Array.isArray(base64Image) ? base64Image : [base64Image];
     
     // Build parts array with prompt and all images
-    const parts: any[] = [{ text: prompt }];
+    const parts: any[] = [{ text: prompt.text }];
     
     // Add all images to the parts array
     for (const img of images) {
-      let imageData = img;
-      let mimeType = 'image/jpeg'; // default
-      
-      // Check if image is a data URL
-      if (img.startsWith('data:')) {
-        const mimeMatch = img.match(/data:([^;]+);base64,/);
-        if (mimeMatch) {
-          mimeType = mimeMatch[1];
-          imageData = img.split(',')[1];
-        }
-      }
+      const { mimeType, data: imageData } = parseImageData(img);
       
       parts.push({
         inline_data: {
@@ -268,235 +1240,621 @@ JSON response:`;
       });
     }
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_ID}:generateContent?key=${GOOGLE_AI_KEY}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{
-            parts: parts
-          }]
-        })
+    // Calculate total image size for better estimation if token usage is not available
+    const totalImageSize = images.reduce((sum, img) => sum + parseImageData(img).data.length, 0);
+
+    // Best unconverged result so far, returned if no model converges
+    let bestResult: ReceiptData | null = null;
+    let lastError: unknown = null;
+
+    for (let i = 0; i < models.length; i++) {
+      const model = models[i];
+      let fallbackReason: string;
+      try {
+        const result = await runGenerativeExtraction(model, parts, totalImageSize, maxAttempts, signal, onPartialResult);
+        const extraction = { ...result.extraction!, modelsTried: models.slice(0, i + 1), promptId: prompt.id, promptVersion: prompt.version };
+        if (extraction.converged) {
+          return { ...result, extraction };
+        }
+        if (!bestResult || Math.abs(getReceiptTotalDifference(result)) < Math.abs(getReceiptTotalDifference(bestResult))) {
+          bestResult = { ...result, extraction };
+        }
+        fallbackReason = `Totals did not match after ${result.extraction?.attempts} attempt(s)`;
+      } catch (modelError) {
+        // Another model won't help while offline
+        if (isRequestCancelled(modelError) || isNetworkError(modelError)) throw modelError;
+        lastError = modelError;
+        fallbackReason = modelError instanceof Error ? modelError.message : String(modelError);
       }
-    );
 
-    // Get response text first to check if it's empty
+      const nextModel = models[i + 1];
+      if (nextModel) {
+        await recordModelFallback(model, nextModel, fallbackReason.slice(0, 500));
+      }
+    }
+
+    if (bestResult) {
+      return bestResult;
+    }
+    throw lastError;
+  } catch (error) {
+    console.error('Google Generative AI Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Extract and format receipt using Google Generative AI
+ * Sends image(s) directly to Generative AI (no Vision API needed)
+ * Supports single or multiple images for multi-page receipts
+ */
+export async function extractAndFormatWithGenerativeAI(
+  base64Image: string | string[],
+  isMultiPage: boolean = false,
+  signal?: AbortSignal,
+  onPartialResult?: PartialReceiptListener
+): Promise<ReceiptData> {
+  return await extractReceiptFromImageWithGenerativeAI(base64Image, isMultiPage, signal, onPartialResult);
+}
+
+/**
+ * Extract receipt from image(s) using any OpenAI-compatible chat completions endpoint
+ * Works with OpenAI, Ollama (/v1), llama.cpp server, vLLM, LM Studio, etc.
+ * The configured model must support image input
+ */
+export async function extractReceiptWithOpenAICompatible(
+  base64Image: string | string[],
+  config: OpenAICompatibleConfig,
+  signal?: AbortSignal
+): Promise<ReceiptData> {
+  if (!config.baseUrl || config.baseUrl.trim() === '') {
+    throw new Error('OpenAI-compatible endpoint not configured. Please set the base URL in Settings');
+  }
+  if (!config.model || config.model.trim() === '') {
+    throw new Error('OpenAI-compatible model not configured. Please set the model in Settings');
+  }
+
+  const baseUrl = config.baseUrl.trim().replace(/\/+$/, '');
+  const model = config.model.trim();
+
+  try {
+    console.log('Extracting receipt with OpenAI-compatible endpoint:', baseUrl, 'model:', model);
+
+    const prompt = await resolveReceiptPrompt();
+    const images = Array.isArray(base64Image) ? base64Image : [base64Image];
+
+    // Build message content with prompt and all images as data URLs
+    const content: any[] = [{ type: 'text', text: prompt.text }];
+    for (const img of images) {
+      const { mimeType, data: imageData } = parseImageData(img);
+      content.push({
+        type: 'image_url',
+        image_url: { url: `data:${mimeType};base64,${imageData}` },
+      });
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey && config.apiKey.trim() !== '') {
+      headers['Authorization'] = `Bearer ${config.apiKey.trim()}`;
+    }
+
+    const response = await fetchWithRetry(`${baseUrl}/chat/completions`, {
+      signal,
+      // Self-hosted models on modest hardware can be slow with images
+      timeoutMs: 120000,
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        messages: [{ role: 'user', content }],
+      }),
+    });
+
     const responseText = await response.text();
-    console.log('AI API response status:', response.status, response.statusText);
-    console.log('AI API response length:', responseText?.length || 0);
-    
+    console.log('OpenAI-compatible API response status:', response.status, response.statusText);
+
     if (!response.ok) {
-      // Try to parse error data, but handle if it's not valid JSON
-      let errorData;
-      try {
-        errorData = responseText ? JSON.parse(responseText) : { error: 'Unknown error' };
-      } catch (parseError) {
-        errorData = { 
-          error: `HTTP ${response.status}: ${response.statusText}`,
-          message: responseText || 'No error details available'
-        };
-      }
-      throw new Error(`Google AI API error (${response.status}): ${JSON.stringify(errorData)}`);
+      throw new Error(`OpenAI-compatible API error (${response.status}): ${responseText || response.statusText}`);
     }
 
-    // Check if response is empty
     if (!responseText || responseText.trim() === '') {
-      throw new Error('Empty response from Google AI API');
+      throw new Error('Empty response from OpenAI-compatible API');
     }
 
-    // Parse JSON response
     let data;
     try {
       data = JSON.parse(responseText);
     } catch (parseError) {
-      console.error('Failed to parse AI response:', responseText);
-      throw new Error(`Invalid JSON response from AI API: ${parseError}`);
+      console.error('Failed to parse OpenAI-compatible response:', responseText);
+      throw new Error(`Invalid JSON response from OpenAI-compatible API: ${parseError}`);
     }
 
-    // Check for errors in response
     if (data.error) {
-      throw new Error(`Google AI API error: ${JSON.stringify(data.error)}`);
-    }
-
-    // Extract token usage from API response
-    const tokenUsage = extractTokenUsage(data);
-    if (tokenUsage) {
-      console.log('AI API Token Usage:', {
-        promptTokens: tokenUsage.promptTokens,
-        candidatesTokens: tokenUsage.candidatesTokens,
-        totalTokens: tokenUsage.totalTokens,
-      });
+      throw new Error(`OpenAI-compatible API error: ${JSON.stringify(data.error)}`);
     }
 
-    // Record API usage and cost
+    // Record API usage (OpenAI-style "usage" block is handled by extractTokenUsage)
     try {
-      const requestSize = JSON.stringify({
-        contents: [{
-          parts: parts.map((p, i) => 
-            i === 0 ? p : { inline_data: { mime_type: 'image/jpeg', data: '...' } }
-          )
-        }]
-      }).length;
-      const responseSize = responseText.length;
-      
-      // Calculate total image size for better estimation if token usage is not available
-      const totalImageSize = images.reduce((sum, img) => {
-        const imgData = img.startsWith('data:') ? img.split(',')[1] : img;
-        return sum + imgData.length;
-      }, 0);
-      
-      const usage = await recordAPIUsage(
-        MODEL_ID,
-        tokenUsage,
-        requestSize,
-        responseSize,
-        prompt.length, // Pass prompt text length
-        totalImageSize // Pass total image size for better estimation
+      const totalImageSize = images.reduce((sum, img) => sum + parseImageData(img).data.length, 0);
+      await recordAPIUsage(
+        model,
+        extractTokenUsage(data),
+        prompt.text.length,
+        responseText.length,
+        prompt.text.length,
+        totalImageSize
       );
-      
-      console.log('AI API Cost:', {
-        model: usage.model,
-        inputTokens: usage.inputTokens,
-        outputTokens: usage.outputTokens,
-        totalTokens: usage.totalTokens,
-        estimatedCost: `$${usage.estimatedCost.toFixed(6)}`,
-      });
     } catch (costError) {
       console.warn('Failed to record API usage:', costError);
-      // Don't fail the request if cost tracking fails
     }
 
-    const aiResponseText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    
+    const aiResponseText = data.choices?.[0]?.message?.content || '';
     if (!aiResponseText) {
-      // Check if there's an error in the response
-      if (data.candidates?.[0]?.finishReason === 'SAFETY' || data.candidates?.[0]?.finishReason === 'RECITATION') {
-        throw new Error(`Content blocked by safety filter (finishReason: ${data.candidates[0].finishReason})`);
-      }
-      throw new Error('No response text returned from AI. Response: ' + JSON.stringify(data));
+      throw new Error('No response text returned from OpenAI-compatible API. Response: ' + JSON.stringify(data));
     }
 
-    // Parse the JSON response
-    let receiptData: ReceiptData;
-    try {
-      // Clean the response text - remove any markdown code blocks if present
-      let cleanedText = aiResponseText.trim();
-      // Remove markdown code blocks if present
-      if (cleanedText.startsWith('```')) {
-        cleanedText = cleanedText.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+    const receiptData = parseReceiptJSON(aiResponseText);
+    return {
+      ...receiptData,
+      extraction: {
+        attempts: 1,
+        converged: Math.abs(getReceiptTotalDifference(receiptData)) <= RECEIPT_TOTAL_TOLERANCE,
+        model,
+        promptId: prompt.id,
+        promptVersion: prompt.version,
+      },
+    };
+  } catch (error) {
+    console.error('OpenAI-compatible API Error:', error);
+    throw error;
+  }
+}
+
+/**
+ * A word from the Vision annotation with its axis-aligned bounding box
+ */
+interface VisionWordBox {
+  text: string;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  confidence: number;
+}
+
+/**
+ * A visual row of words on the receipt (words sharing the same baseline)
+ */
+interface VisionRow {
+  text: string;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  centerY: number;
+  height: number;
+  confidence: number; // Lowest word confidence in the row
+}
+
+const VISION_PRICE_PATTERN = /(-?\$?\s?\d[\d,]*\.\d{2})\s*$/;
+const VISION_QUANTITY_PATTERN = /^(\d+)\s*[xX×]\s*/;
+const VISION_TOTAL_PATTERN = /^(grand\s+)?total\b|^amount\s+(due|payable)\b|^balance\s+due\b|^to\s+pay\b/i;
+const VISION_SUMMARY_PATTERN = /^(sub\s*-?\s*total|gst|tax|vat|incl|includes|change|tendered)\b/i;
+const VISION_ADJUSTMENT_PATTERN = /^(\d+(\.\d+)?%\s*)?(staff\s+|member\s+|card\s+)?(discount|promo|voucher|coupon|surcharge|service\s+(fee|charge)|tip|gratuity|delivery(\s+fee)?|rounding)\b/i;
+const VISION_PAYMENT_PATTERN = /^(cash|eftpos|card|credit|debit|visa|master\s*card|amex|paid)\b/i;
+const VISION_MODIFIER_PATTERN = /^([-+*>•~]|(no|add|extra|with|without|less|sub|swap|side)\b)/i;
+const VISION_CUSTOMER_PATTERN = /^(?:customer|cust|name)\s*[:#-]?\s*(.+)$/i;
+const VISION_PHONE_PATTERN = /^(?:phone|ph|mobile|mob|tel)\s*[:#.-]?\s*(\+?[\d\s()-]{6,})$/i;
+
+/**
+ * Convert a Vision bounding polygon to an axis-aligned box
+ * Vision omits x/y when they are 0, so missing values default to 0
+ */
+function toVisionBox(poly?: VisionBoundingPoly): Pick<VisionWordBox, 'minX' | 'maxX' | 'minY' | 'maxY'> | null {
+  const vertices = poly?.vertices;
+  if (!vertices || vertices.length === 0) return null;
+  const xs = vertices.map(v => v.x || 0);
+  const ys = vertices.map(v => v.y || 0);
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+}
+
+/**
+ * Group annotation words into visual rows using their geometry
+ * Receipts often put the right-aligned price in a separate Vision block from
+ * the item name, so rows are rebuilt from word positions rather than blocks
+ */
+function buildVisionRows(annotation: VisionTextAnnotation): VisionRow[] {
+  const words: VisionWordBox[] = [];
+  for (const page of annotation.pages || []) {
+    for (const block of page.blocks || []) {
+      for (const paragraph of block.paragraphs || []) {
+        for (const word of paragraph.words || []) {
+          const box = toVisionBox(word.boundingBox);
+          const text = (word.symbols || []).map(symbol => symbol.text || '').join('');
+          if (box && text) {
+            words.push({ text, ...box, confidence: word.confidence ?? 1 });
+          }
+        }
       }
-      
-      receiptData = JSON.parse(cleanedText);
-      
-      // Validate the structure
-      if (!receiptData || typeof receiptData !== 'object') {
-        throw new Error('Invalid JSON structure: root is not an object');
+    }
+  }
+  if (words.length === 0) return [];
+
+  // Words whose vertical centres are within half a typical word height share a row
+  const heights = words.map(w => w.maxY - w.minY).sort((a, b) => a - b);
+  const medianHeight = Math.max(1, heights[Math.floor(heights.length / 2)]);
+  const sortedWords = [...words].sort((a, b) => (a.minY + a.maxY) - (b.minY + b.maxY));
+
+  const groups: VisionWordBox[][] = [];
+  let groupCenterY = -Infinity;
+  for (const word of sortedWords) {
+    const centerY = (word.minY + word.maxY) / 2;
+    const current = groups[groups.length - 1];
+    if (current && Math.abs(centerY - groupCenterY) <= medianHeight / 2) {
+      current.push(word);
+      groupCenterY = current.reduce((sum, w) => sum + (w.minY + w.maxY) / 2, 0) / current.length;
+    } else {
+      groups.push([word]);
+      groupCenterY = centerY;
+    }
+  }
+
+  return groups.map(group => {
+    const rowWords = [...group].sort((a, b) => a.minX - b.minX);
+    // Join words, only adding a space where there is a visible gap
+    // (Vision often splits "$12.50" into "$", "12", ".", "50")
+    let text = '';
+    rowWords.forEach((word, index) => {
+      if (index > 0) {
+        const gap = word.minX - rowWords[index - 1].maxX;
+        text += gap > medianHeight * 0.25 ? ' ' : '';
       }
-      if (!Array.isArray(receiptData.items)) {
-        throw new Error('Invalid JSON structure: items is not an array');
+      text += word.text;
+    });
+    const minY = Math.min(...rowWords.map(w => w.minY));
+    const maxY = Math.max(...rowWords.map(w => w.maxY));
+    return {
+      text: text.trim(),
+      minX: rowWords[0].minX,
+      maxX: Math.max(...rowWords.map(w => w.maxX)),
+      minY,
+      maxY,
+      centerY: (minY + maxY) / 2,
+      height: maxY - minY,
+      confidence: Math.min(...rowWords.map(w => w.confidence)),
+    };
+  });
+}
+
+/**
+ * Parse a printed amount such as "$1,210.50" or "-5.00"
+ */
+function parseVisionAmount(value: string): number {
+  return parseFloat(value.replace(/[$,\s]/g, ''));
+}
+
+/**
+ * Turn modifier row text ("2 X Grilled Flake") into a ReceiptModifier, with an optional printed price
+ */
+function parseVisionModifier(text: string, price?: number): ReceiptModifier {
+  const modifier: ReceiptModifier = { name: text };
+  const quantityMatch = text.match(VISION_QUANTITY_PATTERN);
+  if (quantityMatch && text.length > quantityMatch[0].length) {
+    modifier.quantity = Math.max(1, parseInt(quantityMatch[1], 10));
+    modifier.name = text.slice(quantityMatch[0].length).trim();
+  }
+  if (price !== undefined && price !== 0) {
+    modifier.price = price;
+  }
+  return modifier;
+}
+
+/**
+ * Set an item's source region and confidence from the rows it was read from
+ * The region is normalised to the page size so it can be drawn over the photo at any scale
+ */
+function applyVisionRegion(item: ReceiptItem, rows: VisionRow[], pageWidth: number, pageHeight: number, page: number): void {
+  const minX = Math.min(...rows.map(r => r.minX));
+  const maxX = Math.max(...rows.map(r => r.maxX));
+  const minY = Math.min(...rows.map(r => r.minY));
+  const maxY = Math.max(...rows.map(r => r.maxY));
+  item.boundingBox = {
+    x: minX / pageWidth,
+    y: minY / pageHeight,
+    width: (maxX - minX) / pageWidth,
+    height: (maxY - minY) / pageHeight,
+    page,
+  };
+  item.confidence = Math.round(Math.min(...rows.map(r => r.confidence)) * 100) / 100;
+}
+
+/**
+ * Convert Google Vision annotation(s) into the same ReceiptData shape the generative path produces
+ * Deterministic, rule-based parsing:
+ * - Rows ending in a price are items (with optional "2x" quantity prefix)
+ * - Rows without a price that are indented under an item, or start with a
+ *   modifier marker ("-", "+", "no", "add", "2 X ..."), are modifiers of that item
+ * - Priced rows indented under an item, or starting with "+"/"-", are priced modifiers
+ * - "Total" rows give the receipt total; subtotal/GST/change rows are ignored
+ * - Discount, surcharge, tip, delivery and rounding rows are adjustments; cash/card rows are payments
+ * - "Customer:" / "Phone:" rows give customer info
+ * Each item carries the region of its source rows and the lowest Vision word confidence
+ * Pages are parsed in order, so multi-page receipts continue across images
+ * Returns null when no items could be identified
+ */
+export function parseVisionAnnotationToReceiptData(annotations: VisionTextAnnotation | VisionTextAnnotation[]): ReceiptData | null {
+  const pages = Array.isArray(annotations) ? annotations : [annotations];
+  const items: ReceiptItem[] = [];
+  const customer: ReceiptCustomer = {};
+  const adjustments: ReceiptAdjustment[] = [];
+  const payments: ReceiptPayment[] = [];
+  let total: number | null = null;
+
+  pages.forEach((annotation, pageIndex) => {
+    const rows = buildVisionRows(annotation);
+    if (rows.length === 0) return;
+    const pageWidth = annotation.pages?.[0]?.width || Math.max(...rows.map(r => r.maxX));
+    const pageHeight = annotation.pages?.[0]?.height || Math.max(...rows.map(r => r.maxY));
+    let currentItem: ReceiptItem | null = null;
+    let currentItemRow: VisionRow | null = null;
+    let currentItemRows: VisionRow[] = [];
+    let pendingName: VisionRow | null = null;
+
+    for (const row of rows) {
+      const text = row.text;
+      if (!text) continue;
+
+      const customerMatch = text.match(VISION_CUSTOMER_PATTERN);
+      if (customerMatch && !VISION_PRICE_PATTERN.test(text)) {
+        customer.name = customerMatch[1].trim();
+        continue;
       }
-      if (typeof receiptData.total !== 'number') {
-        throw new Error('Invalid JSON structure: total is not a number');
+      const phoneMatch = text.match(VISION_PHONE_PATTERN);
+      if (phoneMatch) {
+        customer.phone = phoneMatch[1].trim();
+        continue;
       }
-      if (receiptData.customer !== undefined) {
-        if (
-          receiptData.customer === null ||
-          typeof receiptData.customer !== 'object' ||
-          Array.isArray(receiptData.customer)
-        ) {
-          throw new Error('Invalid JSON structure: customer must be an object when provided');
+
+      const priceMatch = text.match(VISION_PRICE_PATTERN);
+      if (priceMatch) {
+        const price = parseVisionAmount(priceMatch[1]);
+        let label = text.slice(0, priceMatch.index).replace(/[\s:.$]+$/, '').trim();
+
+        if (VISION_TOTAL_PATTERN.test(label)) {
+          total = price;
+          currentItem = null;
+          continue;
         }
-        if (
-          receiptData.customer.name !== undefined &&
-          typeof receiptData.customer.name !== 'string'
-        ) {
-          throw new Error('Invalid JSON structure: customer.name must be a string');
+        if (VISION_SUMMARY_PATTERN.test(label) || isNaN(price)) {
+          currentItem = null;
+          continue;
         }
-        if (
-          receiptData.customer.phone !== undefined &&
-          typeof receiptData.customer.phone !== 'string'
-        ) {
-          throw new Error('Invalid JSON structure: customer.phone must be a string');
+        if (VISION_ADJUSTMENT_PATTERN.test(label)) {
+          // Discounts are always negative, whether or not the docket prints the minus sign
+          const type = normalizeAdjustmentType(undefined, label) || 'surcharge';
+          adjustments.push({ type, label, amount: type === 'discount' ? -Math.abs(price) : price });
+          currentItem = null;
+          continue;
         }
-      }
-      
-      // Validate items
-      receiptData.items.forEach((item, index) => {
-        if (!item.name || typeof item.name !== 'string') {
-          throw new Error(`Invalid item at index ${index}: name is missing or not a string`);
+        if (VISION_PAYMENT_PATTERN.test(label)) {
+          payments.push({ method: label, amount: price });
+          currentItem = null;
+          continue;
         }
-        if (typeof item.quantity !== 'number' || item.quantity < 1) {
-          throw new Error(`Invalid item at index ${index}: quantity is missing or invalid`);
+
+        // Priced modifier: an indented or "+"-prefixed row under an item ("+ Bacon  2.00")
+        if (label && currentItem && currentItemRow) {
+          const isIndented = row.minX - currentItemRow.minX > currentItemRow.height / 2;
+          if (isIndented || /^[-+*>•~]/.test(label)) {
+            currentItem.modifiers = [...(currentItem.modifiers || []), parseVisionModifier(label.replace(/^[-+*>•~]\s*/, ''), price)];
+            currentItemRows.push(row);
+            applyVisionRegion(currentItem, currentItemRows, pageWidth, pageHeight, pageIndex);
+            continue;
+          }
         }
-        if (typeof item.price !== 'number' || item.price < 0) {
-          throw new Error(`Invalid item at index ${index}: price is missing or invalid`);
+
+        // Price on its own row: the item name is the unpriced row just above it
+        let nameRow = row;
+        if (!label && pendingName) {
+          label = pendingName.text;
+          nameRow = pendingName;
         }
-        if (item.modifiers && !Array.isArray(item.modifiers)) {
-          throw new Error(`Invalid item at index ${index}: modifiers is not an array`);
+        pendingName = null;
+        if (!label) continue;
+
+        let quantity = 1;
+        const quantityMatch = label.match(VISION_QUANTITY_PATTERN);
+        if (quantityMatch) {
+          quantity = Math.max(1, parseInt(quantityMatch[1], 10));
+          label = label.slice(quantityMatch[0].length).trim();
         }
-      });
-      
-    } catch (parseError) {
-      console.error('Failed to parse AI JSON response:', aiResponseText);
-      throw new Error(`Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+        if (!label) continue;
+
+        currentItem = { name: label, quantity, price };
+        currentItemRow = nameRow;
+        currentItemRows = nameRow === row ? [row] : [nameRow, row];
+        applyVisionRegion(currentItem, currentItemRows, pageWidth, pageHeight, pageIndex);
+        items.push(currentItem);
+        continue;
+      }
+
+      // Row without a price: modifier of the current item, or a possible item name
+      if (currentItem && currentItemRow) {
+        // Indentation of roughly a character width or more (approximated from text height)
+        const isIndented = row.minX - currentItemRow.minX > currentItemRow.height / 2;
+        if (isIndented || VISION_MODIFIER_PATTERN.test(text) || VISION_QUANTITY_PATTERN.test(text)) {
+          currentItem.modifiers = [...(currentItem.modifiers || []), parseVisionModifier(text.replace(/^[-+*>•~]\s*/, ''))];
+          currentItemRows.push(row);
+          applyVisionRegion(currentItem, currentItemRows, pageWidth, pageHeight, pageIndex);
+          continue;
+        }
+      }
+      const isSummaryRow = VISION_SUMMARY_PATTERN.test(text) || VISION_TOTAL_PATTERN.test(text)
+        || VISION_ADJUSTMENT_PATTERN.test(text) || VISION_PAYMENT_PATTERN.test(text);
+      pendingName = isSummaryRow ? null : row;
+      currentItem = null;
+      currentItemRow = null;
     }
+  });
 
-    return receiptData;
-  } catch (error) {
-    console.error('Google Generative AI Error:', error);
-    throw error;
+  if (items.length === 0) {
+    return null;
+  }
+
+  const receiptData: ReceiptData = {
+    items,
+    total: total ?? getReceiptItemsTotal({ items, total: 0, adjustments }),
+  };
+  if (customer.name || customer.phone) {
+    receiptData.customer = customer;
+  }
+  if (adjustments.length > 0) {
+    receiptData.adjustments = adjustments;
   }
+  if (payments.length > 0) {
+    receiptData.payments = payments;
+  }
+  return total !== null ? mergePageOverlaps(receiptData) : receiptData;
 }
 
 /**
- * Extract and format receipt using Google Generative AI
- * Sends image(s) directly to Generative AI (no Vision API needed)
- * Supports single or multiple images for multi-page receipts
+ * Extract receipt from image(s) using Google Vision and the rule-based parser
+ * Falls back to the raw text when no items can be identified
  */
-export async function extractAndFormatWithGenerativeAI(
-  base64Image: string | string[],
-  isMultiPage: boolean = false
-): Promise<ReceiptData> {
-  return await extractReceiptFromImageWithGenerativeAI(base64Image, isMultiPage);
+export async function extractReceiptWithGoogleVision(base64Image: string | string[], signal?: AbortSignal): Promise<ReceiptExtractionResult> {
+  const images = Array.isArray(base64Image) ? base64Image : [base64Image];
+
+  try {
+    const annotations: VisionTextAnnotation[] = [];
+    for (const img of images) {
+      annotations.push(await extractAnnotationWithGoogleVision(parseImageData(img).data, signal));
+    }
+
+    const rawText = annotations.map(annotation => annotation.text || '').join('\n');
+    if (rawText.trim() === '') {
+      throw new Error('No text extracted from image. Please try again with a clearer image.');
+    }
+
+    const receiptData = parseVisionAnnotationToReceiptData(annotations);
+    if (!receiptData) {
+      console.warn('Vision parser could not identify any items, returning raw text');
+      return rawText;
+    }
+    return receiptData;
+  } catch (error) {
+    if (isRequestCancelled(error) || isNetworkError(error)) throw error;
+    console.error('Google Vision extraction failed:', error);
+    throw new Error(`Failed to extract text from image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
 }
 
 /**
  * Main OCR function - uses Google Vision API to extract text from image
  */
-export async function extractTextFromImage(base64Image: string): Promise<string> {
+export async function extractTextFromImage(base64Image: string, signal?: AbortSignal): Promise<string> {
   if (!GOOGLE_VISION_API_KEY || GOOGLE_VISION_API_KEY === '') {
     throw new Error('Google Vision API key not configured. Please set EXPO_PUBLIC_GOOGLE_VISION_API_KEY');
   }
 
   try {
-    const extractedText = await extractTextWithGoogleVision(base64Image);
+    const extractedText = await extractTextWithGoogleVision(base64Image, signal);
     if (!extractedText || extractedText.trim() === '') {
       throw new Error('No text extracted from image. Please try again with a clearer image.');
     }
     return extractedText;
   } catch (error) {
+    if (isRequestCancelled(error) || isNetworkError(error)) throw error;
     console.error('Google Vision API failed:', error);
     throw new Error(`Failed to extract text from image: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+registerReceiptExtractor({
+  id: 'generative',
+  name: 'Generative AI',
+  description: 'AI-powered formatting with product modifiers (Google Gemini)',
+  supportsMultiPage: true,
+  supportsStreaming: true,
+  extract: (images, isMultiPage, signal, onPartialResult) => extractAndFormatWithGenerativeAI(images, isMultiPage, signal, onPartialResult),
+  getModelId: async () => (await getGenerativeModelChain()).join('>'),
+  getPromptVersion: async () => {
+    const prompt = await resolveReceiptPrompt();
+    return `${prompt.id}@${prompt.version}`;
+  },
+});
+
+registerReceiptExtractor({
+  id: 'vision',
+  name: 'Vision AI',
+  description: 'Fast text extraction using Vision API with rule-based receipt parsing',
+  supportsMultiPage: true,
+  extract: (images, isMultiPage, signal) => extractReceiptWithGoogleVision(images, signal),
+  getModelId: async () => 'google-vision',
+});
+
+registerReceiptExtractor({
+  id: 'openai',
+  name: 'OpenAI Compatible',
+  description: 'Any OpenAI-compatible endpoint, including self-hosted Ollama or llama.cpp',
+  supportsMultiPage: true,
+  extract: async (images, isMultiPage, signal) => extractReceiptWithOpenAICompatible(images, await getOpenAICompatibleConfig(), signal),
+  getModelId: async () => {
+    const config = await getOpenAICompatibleConfig();
+    return `${config.baseUrl.trim()}#${config.model.trim()}`;
+  },
+  getPromptVersion: async () => {
+    const prompt = await resolveReceiptPrompt();
+    return `${prompt.id}@${prompt.version}`;
+  },
+});
+
 /**
  * Extract text with mode selection
- * Returns ReceiptData for 'generative' mode, or raw text string for 'vision' mode
+ * Dispatches to the extractor registered for the mode
+ * Returns ReceiptData, or raw text when a provider cannot identify any receipt structure
  * Supports single or multiple images for multi-page receipts
+ * Structured results are cached by image hash, model and prompt version; cached
+ * results are returned without an API call and marked with extraction.fromCache
+ * Pass an AbortSignal to cancel; a cancelled extraction rejects with RequestCancelledError
  */
 export async function extractTextFromImageWithMode(
   base64Image: string | string[], 
-  mode: 'vision' | 'generative',
-  isMultiPage: boolean = false
-): Promise<string | ReceiptData> {
-  if (mode === 'generative') {
-    return await extractAndFormatWithGenerativeAI(base64Image, isMultiPage);
-  } else {
-    // Vision mode only supports single image
-    const singleImage = Array.isArray(base64Image) ? base64Image[0] : base64Image;
-    return await extractTextFromImage(singleImage);
+  mode: OCRMode,
+  isMultiPage: boolean = false,
+  options: ExtractionOptions = {}
+): Promise<ReceiptExtractionResult> {
+  const extractor = getReceiptExtractor(mode);
+  const images = Array.isArray(base64Image) ? base64Image : [base64Image];
+  if (images.length > 1 && !extractor.supportsMultiPage) {
+    console.warn(`${extractor.name} does not support multiple images, using the first page only`);
+  }
+  const pages = extractor.supportsMultiPage ? images : images.slice(0, 1);
+
+  const [modelId, promptVersion] = await Promise.all([
+    extractor.getModelId(),
+    extractor.getPromptVersion ? extractor.getPromptVersion() : Promise.resolve('none'),
+  ]);
+  const cacheKey = getExtractionCacheKey(pages, `${mode}:${modelId}`, promptVersion);
+  if (!options.skipCache) {
+    const cached = await getCachedExtraction(cacheKey);
+    if (cached) {
+      console.log('Using cached extraction result');
+      const upgraded = upgradeReceiptData(cached);
+      const converged = Math.abs(getReceiptTotalDifference(upgraded)) <= RECEIPT_TOTAL_TOLERANCE;
+      return { ...upgraded, extraction: { attempts: 0, converged, ...upgraded.extraction, fromCache: true } };
+    }
   }
-}
 
+  const result = await extractor.extract(
+    pages,
+    isMultiPage,
+    options.signal,
+    extractor.supportsStreaming ? options.onPartialResult : undefined
+  );
+  // Only structured results are cached; raw text means parsing failed and is worth retrying
+  if (typeof result !== 'string') {
+    await setCachedExtraction(cacheKey, result);
+  }
+  return result;
+}
@@ -0,0 +1,322 @@
+/**
+ * Offline Capture Queue
+ *
+ * Captures taken while the network is down are kept on the device (image files
+ * plus their order number) instead of failing extraction. The queue is retried
+ * automatically when connectivity returns and each extracted capture is saved as
+ * an order; captures can also be retried, discarded or processed by hand from
+ * the queue screen.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { AppState } from 'react-native';
+import { computeImageHash } from './duplicateDetection';
+import { extractTextFromImageWithMode, type ReceiptExtractionResult } from './ocr';
+import { saveExtractedOrder } from './orderRecords';
+import { isNetworkError } from './request';
+import { getOCRMode } from './settings';
+
+// Lazy load expo-network - it's a native module that requires a development build
+let Network: any = null;
+try {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  Network = require('expo-network');
+} catch (e) {
+  Network = null;
+}
+
+const OFFLINE_QUEUE_KEY = '@snap_receipt:offline_queue';
+const OFFLINE_CAPTURES_DIR = 'offline_captures';
+
+export type OfflineCaptureStatus = 'pending' | 'processing' | 'failed';
+
+export interface OfflineCapture {
+  id: string;
+  imageUris: string[]; // Page files kept in the app's document directory
+  orderNumber: number; // Taken when the capture was queued
+  isPaid: boolean;
+  isMultiPage: boolean;
+  createdAt: number;
+  status: OfflineCaptureStatus; // Failed captures hit a non-network error and wait for a manual retry
+  attempts: number;
+  lastError?: string;
+}
+
+export interface OfflineQueueState {
+  captures: OfflineCapture[];
+  running: boolean;
+}
+
+type OfflineQueueListener = (state: OfflineQueueState) => void;
+
+let captures: OfflineCapture[] = [];
+let running = false;
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<OfflineQueueListener>();
+
+function notify(): void {
+  const state = getOfflineQueueState();
+  listeners.forEach(listener => listener(state));
+}
+
+async function persist(): Promise<void> {
+  try {
+    // A capture interrupted mid-extraction is picked up again as pending
+    const stored = captures.map(capture => (capture.status === 'processing' ? { ...capture, status: 'pending' as const } : capture));
+    await AsyncStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Error saving offline queue:', error);
+  }
+}
+
+async function setCaptures(next: OfflineCapture[]): Promise<void> {
+  captures = next;
+  notify();
+  await persist();
+}
+
+function updateCapture(id: string, changes: Partial<OfflineCapture>): Promise<void> {
+  return setCaptures(captures.map(capture => (capture.id === id ? { ...capture, ...changes } : capture)));
+}
+
+function loadQueue(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const value = await AsyncStorage.getItem(OFFLINE_QUEUE_KEY);
+        const stored: OfflineCapture[] = value ? JSON.parse(value) : [];
+        // Merge in case something was queued before the stored queue finished loading
+        captures = [...stored.filter(item => !captures.some(capture => capture.id === item.id)), ...captures];
+        notify();
+      } catch (error) {
+        console.error('Error getting offline queue:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+function getCapturesDirectory(): Directory {
+  const directory = new Directory(Paths.document, OFFLINE_CAPTURES_DIR);
+  directory.create({ intermediates: true, idempotent: true });
+  return directory;
+}
+
+function deleteImages(capture: OfflineCapture): void {
+  for (const uri of capture.imageUris) {
+    try {
+      const file = new File(uri);
+      if (file.exists) file.delete();
+    } catch (error) {
+      console.warn('Could not delete offline capture image:', uri, error);
+    }
+  }
+}
+
+/**
+ * Move a capture's images to the cache directory so they can still be shown after it leaves the queue
+ */
+function releaseImages(capture: OfflineCapture): string[] {
+  return capture.imageUris.map(uri => {
+    try {
+      const file = new File(uri);
+      file.move(Paths.cache);
+      return file.uri;
+    } catch (error) {
+      console.warn('Could not move offline capture image:', uri, error);
+      return uri;
+    }
+  });
+}
+
+/**
+ * Whether the device currently looks online (assumed online when expo-network is unavailable)
+ */
+async function isOnline(): Promise<boolean> {
+  if (!Network) return true;
+  try {
+    const state = await Network.getNetworkStateAsync();
+    return !!state.isConnected && state.isInternetReachable !== false;
+  } catch {
+    return true;
+  }
+}
+
+async function extractCapture(capture: OfflineCapture): Promise<ReceiptExtractionResult> {
+  const images = await Promise.all(capture.imageUris.map(uri => new File(uri).base64()));
+  const ocrMode = await getOCRMode();
+  return extractTextFromImageWithMode(capture.isMultiPage ? images : images[0], ocrMode, capture.isMultiPage);
+}
+
+/**
+ * Extract one capture, recording the failure on the capture if it fails
+ * Network errors leave it pending for the next automatic retry
+ */
+async function runCapture(capture: OfflineCapture): Promise<ReceiptExtractionResult> {
+  await updateCapture(capture.id, { status: 'processing', attempts: capture.attempts + 1, lastError: undefined });
+  try {
+    return await extractCapture(capture);
+  } catch (error: any) {
+    await updateCapture(capture.id, {
+      status: isNetworkError(error) ? 'pending' : 'failed',
+      lastError: error?.message || 'Failed to process image',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Current queue snapshot
+ */
+export function getOfflineQueueState(): OfflineQueueState {
+  return { captures, running };
+}
+
+/**
+ * Listen for queue changes; returns the unsubscribe function
+ * The stored queue is loaded on first subscribe
+ */
+export function subscribeToOfflineQueue(listener: OfflineQueueListener): () => void {
+  listeners.add(listener);
+  loadQueue();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Keep a capture for later extraction
+ * Images are copied out of the cache so they survive until the capture is processed
+ */
+export async function enqueueOfflineCapture(
+  images: { base64: string; uri?: string }[],
+  options: { orderNumber: number; isPaid: boolean; isMultiPage: boolean }
+): Promise<OfflineCapture> {
+  await loadQueue();
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const directory = getCapturesDirectory();
+  const imageUris = images.map((image, index) => {
+    const file = new File(directory, `${id}-${index + 1}.jpg`);
+    file.write(image.base64, { encoding: 'base64' });
+    return file.uri;
+  });
+
+  const capture: OfflineCapture = {
+    id,
+    imageUris,
+    orderNumber: options.orderNumber,
+    isPaid: options.isPaid,
+    isMultiPage: options.isMultiPage,
+    createdAt: Date.now(),
+    status: 'pending',
+    attempts: 0,
+  };
+  await setCaptures([...captures, capture]);
+  return capture;
+}
+
+/**
+ * Extract and save every pending capture while the device is online
+ * Stops at the first network error, since the rest would fail the same way
+ */
+export async function processOfflineQueue(): Promise<void> {
+  await loadQueue();
+  if (running || !captures.some(capture => capture.status === 'pending')) return;
+  if (!(await isOnline())) return;
+
+  running = true;
+  notify();
+  try {
+    let next = captures.find(capture => capture.status === 'pending');
+    while (next) {
+      const capture = next;
+      try {
+        const extractedData = await runCapture(capture);
+        const saved = await saveExtractedOrder(extractedData, capture.orderNumber, capture.isPaid, await computeImageHash(capture.imageUris[0]));
+        if (saved.receiptId === undefined) {
+          // Keep the photos so the order can be retried or opened once saving works again
+          await updateCapture(capture.id, { status: 'failed', lastError: 'Extracted but could not be saved' });
+        } else {
+          deleteImages(capture);
+          await setCaptures(captures.filter(item => item.id !== capture.id));
+        }
+      } catch (error) {
+        console.error('Offline capture error:', error);
+        if (isNetworkError(error)) break;
+      }
+      next = captures.find(item => item.status === 'pending');
+    }
+  } finally {
+    running = false;
+    notify();
+  }
+}
+
+/**
+ * Queue a failed capture again and try the queue now
+ */
+export async function retryOfflineCapture(id: string): Promise<void> {
+  await loadQueue();
+  const capture = captures.find(item => item.id === id);
+  if (!capture || capture.status === 'processing') return;
+  await updateCapture(id, { status: 'pending', lastError: undefined });
+  await processOfflineQueue();
+}
+
+/**
+ * Drop a capture and its images (its order number is not reused)
+ */
+export async function discardOfflineCapture(id: string): Promise<void> {
+  await loadQueue();
+  const capture = captures.find(item => item.id === id);
+  if (!capture || capture.status === 'processing') return;
+  deleteImages(capture);
+  await setCaptures(captures.filter(item => item.id !== id));
+}
+
+/**
+ * Extract a capture without saving it, removing it from the queue on success
+ * so it can be reviewed and saved from the receipt screen like a new capture
+ */
+export async function processOfflineCaptureNow(
+  id: string
+): Promise<{ capture: OfflineCapture; extractedData: ReceiptExtractionResult; imageUris: string[] }> {
+  await loadQueue();
+  const capture = captures.find(item => item.id === id);
+  if (!capture) throw new Error('Capture is no longer in the queue');
+  if (capture.status === 'processing') throw new Error('Capture is already being processed');
+
+  const extractedData = await runCapture(capture);
+  const imageUris = releaseImages(capture);
+  await setCaptures(captures.filter(item => item.id !== id));
+  return { capture, extractedData, imageUris };
+}
+
+/**
+ * Retry the queue whenever connectivity returns or the app comes to the foreground
+ * Call once at startup; returns a function that stops listening
+ */
+export function startOfflineQueueSync(): () => void {
+  processOfflineQueue();
+
+  const appStateSubscription = AppState.addEventListener('change', nextState => {
+    if (nextState === 'active') processOfflineQueue();
+  });
+
+  let networkSubscription: { remove: () => void } | null = null;
+  if (Network) {
+    try {
+      networkSubscription = Network.addNetworkStateListener((state: { isConnected?: boolean; isInternetReachable?: boolean }) => {
+        if (state.isConnected && state.isInternetReachable !== false) processOfflineQueue();
+      });
+    } catch (error) {
+      console.warn('Network state listener unavailable:', error);
+    }
+  }
+
+  return () => {
+    appStateSubscription.remove();
+    networkSubscription?.remove();
+  };
+}
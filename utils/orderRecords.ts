@@ -0,0 +1,69 @@
+/**
+ * Saving extraction results as orders without the receipt screen
+ *
+ * Used by background flows (batch import, offline queue) so their orders are
+ * stored in the same shape as saving from the receipt screen and open the
+ * same way from Orders.
+ */
+
+import { getLocalDateString, saveReceipt } from './database';
+import { getReceiptTotalDifference, RECEIPT_TOTAL_TOLERANCE, type ReceiptExtractionResult } from './ocr';
+import { calculateTotals } from './printer';
+import { getTaxConfig } from './settings';
+
+export interface SavedOrder {
+  receiptId?: number; // Unset when the database is not configured or the save failed
+  extractedText: string; // Extraction result as passed to the receipt screen
+  extractedDataType: 'json' | 'text';
+  total?: number;
+  itemCount?: number;
+  totalMismatch?: boolean;
+}
+
+/**
+ * Save an extraction result as a new order
+ * Never throws for a failed save: the result is still returned so it can be reviewed
+ */
+export async function saveExtractedOrder(
+  extractedData: ReceiptExtractionResult,
+  orderNumber: number,
+  isPaid: boolean,
+  imageHash?: string | null
+): Promise<SavedOrder> {
+  const receiptData = typeof extractedData === 'string' ? null : extractedData;
+  const extractedText = typeof extractedData === 'string' ? extractedData : JSON.stringify(extractedData);
+  const totals = receiptData ? calculateTotals(receiptData.total, await getTaxConfig(), receiptData.items) : null;
+
+  let receiptId: number | undefined;
+  try {
+    receiptId = await saveReceipt({
+      date: getLocalDateString(),
+      total_price: totals?.total || 0,
+      tax_amount: totals?.tax,
+      receipt_data: JSON.stringify({
+        receiptData,
+        receiptLines: null,
+        isJson: !!receiptData,
+        extractedText,
+        orderNumber: String(orderNumber),
+        promptId: receiptData?.extraction?.promptId || null,
+        promptVersion: receiptData?.extraction?.promptVersion || null,
+      }),
+      order_number: String(orderNumber),
+      is_paid: isPaid,
+      ai_model: receiptData?.extraction?.model,
+      image_hash: imageHash || undefined,
+    });
+  } catch (error) {
+    console.warn('Order extracted but not saved:', error);
+  }
+
+  return {
+    receiptId,
+    extractedText,
+    extractedDataType: receiptData ? 'json' : 'text',
+    total: totals?.total,
+    itemCount: receiptData?.items.length,
+    totalMismatch: receiptData ? Math.abs(getReceiptTotalDifference(receiptData)) > RECEIPT_TOTAL_TOLERANCE : undefined,
+  };
+}
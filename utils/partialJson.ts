@@ -0,0 +1,89 @@
+/**
+ * Partial JSON parsing for streamed model responses
+ *
+ * A streamed JSON answer is incomplete until the last chunk arrives. To show
+ * progress, the text is cut back to the last complete value and the open
+ * objects/arrays are closed, e.g. `{"items":[{"name":"Pho","price":12},{"na`
+ * parses as `{"items":[{"name":"Pho","price":12}]}`.
+ */
+
+interface Frame {
+  type: 'object' | 'array';
+  expectKey: boolean; // In an object: the next string is a key
+}
+
+/**
+ * Parse the longest complete prefix of a JSON document, or undefined if nothing usable has arrived
+ */
+export function parsePartialJSON(text: string): unknown {
+  let cleaned = text.trim();
+  if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+  }
+
+  const stack: Frame[] = [];
+  let cut: { index: number; closers: string } | null = null;
+  let inString = false;
+  let escaped = false;
+  let stringIsKey = false;
+  let literalStart = -1; // Start of a number/true/false/null being read
+
+  const closersFor = () => stack.map(frame => (frame.type === 'object' ? '}' : ']')).reverse().join('');
+  const markComplete = (index: number) => {
+    cut = { index, closers: closersFor() };
+  };
+  const endLiteral = (index: number) => {
+    if (literalStart >= 0) {
+      literalStart = -1;
+      markComplete(index);
+    }
+  };
+
+  for (let i = 0; i < cleaned.length; i++) {
+    const char = cleaned[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        // A finished key is not a finished value: the cut stays before it
+        if (!stringIsKey) markComplete(i + 1);
+      }
+      continue;
+    }
+
+    const frame = stack[stack.length - 1];
+    if (/[\s,:}\]]/.test(char)) {
+      endLiteral(i);
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringIsKey = !!frame && frame.type === 'object' && frame.expectKey;
+      if (stringIsKey) frame.expectKey = false;
+    } else if (char === '{' || char === '[') {
+      stack.push({ type: char === '{' ? 'object' : 'array', expectKey: char === '{' });
+      // An element just opened in an array is not an element yet (it would show up as {} or [])
+      if (frame?.type !== 'array') markComplete(i + 1);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      markComplete(i + 1);
+    } else if (char === ',') {
+      if (frame?.type === 'object') frame.expectKey = true;
+    } else if (!/[\s:]/.test(char) && literalStart < 0) {
+      literalStart = i;
+    }
+  }
+  // A number at the very end may still be growing ("12" of "12.50"), so it is not used
+
+  if (!cut) return undefined;
+  const { index, closers } = cut as { index: number; closers: string };
+  try {
+    return JSON.parse(cleaned.slice(0, index) + closers);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Print Job Queue
+ *
+ * Every receipt sent to a POS printer is recorded as a job, so a failed print
+ * is kept rather than lost behind an alert. Failed jobs are retried with
+ * backoff: Epson jobs once their printer shows up in discovery again, network
+ * jobs while the app is in the foreground. Jobs that keep failing wait for a
+ * manual reprint from the Print Queue screen, which also shows recent history.
+ *
+ * Jobs keep the text rendering of the receipt, so they can be printed again
+ * after the receipt screen is closed.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import {
+  createEpsonDriver,
+  createNetworkDriver,
+  PrintJobError,
+  runPrintJob,
+  type DiscoveredPrinter,
+  type PrintCommand,
+  type PrintDocument,
+  type PrinterDriver,
+} from './printer';
+import { getNetworkPrinterConfig, type EscPosCodePage, type PrinterRole, type PrintTemplateId } from './settings';
+
+const PRINT_QUEUE_KEY = '@snap_receipt:print_queue';
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+const MAX_AUTO_ATTEMPTS = 6; // After this many failures a job waits for a manual reprint
+const MAX_HISTORY = 50; // Finished (completed or cancelled) jobs kept
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+export type PrintQueueStatus = 'pending' | 'printing' | 'failed' | 'completed' | 'cancelled';
+export type QueuedPrinterType = 'pos' | 'network';
+
+export interface PrintQueueJob {
+  id: string;
+  receiptId: number | null;
+  orderNumber: string | null;
+  printerType: QueuedPrinterType;
+  printerTarget: string; // Epson target, or host:port for network printers
+  printerName: string;
+  role?: PrinterRole; // Set for jobs printed through a printer profile
+  codePage?: EscPosCodePage; // Network printers; defaults to the network printer setting
+  template: PrintTemplateId;
+  copies: number;
+  copiesPrinted?: number; // Copies already cut; a retry resumes after them
+  commands: PrintCommand[]; // Text rendering of the receipt, used for retries
+  status: PrintQueueStatus; // pending jobs are retried automatically, failed ones wait for a reprint
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NewPrintQueueJob = Pick<PrintQueueJob, 'receiptId' | 'orderNumber' | 'printerType' | 'printerTarget' | 'printerName' | 'role' | 'codePage' | 'template' | 'copies'>;
+
+export interface PrintQueueState {
+  jobs: PrintQueueJob[]; // Newest first
+  running: boolean;
+}
+
+type PrintQueueListener = (state: PrintQueueState) => void;
+
+let jobs: PrintQueueJob[] = [];
+let running = false;
+let loadPromise: Promise<void> | null = null;
+let printChain: Promise<unknown> = Promise.resolve(); // Print work runs one job at a time
+const listeners = new Set<PrintQueueListener>();
+const discoveredTargets = new Set<string>(); // Epson printers seen in discovery this session
+
+function notify(): void {
+  const state = getPrintQueueState();
+  listeners.forEach(listener => listener(state));
+}
+
+async function persist(): Promise<void> {
+  try {
+    // A job interrupted mid-print is retried
+    const stored = jobs.map(job => (job.status === 'printing' ? { ...job, status: 'pending' as const } : job));
+    await AsyncStorage.setItem(PRINT_QUEUE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Error saving print queue:', error);
+  }
+}
+
+async function setJobs(next: PrintQueueJob[]): Promise<void> {
+  // Keep every unfinished job but only recent history
+  let finished = 0;
+  jobs = next.filter(job => {
+    if (job.status !== 'completed' && job.status !== 'cancelled') return true;
+    finished++;
+    return finished <= MAX_HISTORY;
+  });
+  notify();
+  await persist();
+}
+
+function updateJob(id: string, changes: Partial<PrintQueueJob>): Promise<void> {
+  return setJobs(jobs.map(job => (job.id === id ? { ...job, ...changes, updatedAt: Date.now() } : job)));
+}
+
+function loadQueue(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const value = await AsyncStorage.getItem(PRINT_QUEUE_KEY);
+        const stored: PrintQueueJob[] = value ? JSON.parse(value) : [];
+        // Merge in case something was printed before the stored queue finished loading
+        jobs = [...jobs, ...stored.filter(item => !jobs.some(job => job.id === item.id))];
+        notify();
+      } catch (error) {
+        console.error('Error getting print queue:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Backoff after a failed attempt: 30s, 1m, 2m, ... capped at 30 minutes
+ */
+function getRetryDelay(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+async function createDriver(job: PrintQueueJob): Promise<PrinterDriver> {
+  if (job.printerType === 'network') {
+    const config = await getNetworkPrinterConfig();
+    const separator = job.printerTarget.lastIndexOf(':');
+    const port = Number(job.printerTarget.slice(separator + 1));
+    return createNetworkDriver({
+      ...config,
+      host: separator > 0 ? job.printerTarget.slice(0, separator) : job.printerTarget,
+      port: separator > 0 && port > 0 ? port : config.port,
+      codePage: job.codePage || config.codePage,
+    });
+  }
+  return createEpsonDriver({ target: job.printerTarget, deviceName: job.printerName });
+}
+
+/**
+ * Print one job, recording the outcome on it; rethrows the print error
+ */
+async function printJob(job: PrintQueueJob, document: PrintDocument): Promise<void> {
+  const attempts = job.attempts + 1;
+  await updateJob(job.id, { status: 'printing', attempts, lastError: undefined });
+  try {
+    await runPrintJob(await createDriver(job), document, job.copies, {
+      firstCopy: (job.copiesPrinted ?? 0) + 1,
+      onCopyPrinted: copy => updateJob(job.id, { copiesPrinted: copy }),
+    });
+    await updateJob(job.id, { status: 'completed', nextAttemptAt: undefined });
+  } catch (error: any) {
+    const message = error?.message || 'Unknown error';
+    const lastError = error instanceof PrintJobError ? `Failed while ${error.step}: ${message}` : message;
+    const giveUp = attempts >= MAX_AUTO_ATTEMPTS;
+    await updateJob(job.id, {
+      status: giveUp ? 'failed' : 'pending',
+      lastError,
+      nextAttemptAt: giveUp ? undefined : Date.now() + getRetryDelay(attempts),
+    });
+    throw error;
+  }
+}
+
+function isDue(job: PrintQueueJob, now: number): boolean {
+  if (job.status !== 'pending' || (job.nextAttemptAt ?? 0) > now) return false;
+  // Epson printers are only retried once discovery has seen them again
+  return job.printerType === 'network' || discoveredTargets.has(job.printerTarget);
+}
+
+/**
+ * Print a pending job once the print work ahead of it has finished
+ * Printers accept one connection at a time, so new prints, retries and reprints never overlap.
+ * Skipped if the job was printed or cancelled while waiting; automatic retries also wait for it to be due.
+ */
+function runJob(id: string, options: { document?: PrintDocument; retry?: boolean } = {}): Promise<void> {
+  const task = printChain.then(async () => {
+    const job = jobs.find(item => item.id === id);
+    if (!job || job.status !== 'pending' || (options.retry && !isDue(job, Date.now()))) return;
+    await printJob(job, options.document || { commands: job.commands });
+  });
+  printChain = task.catch(() => undefined);
+  return task;
+}
+
+/**
+ * Current queue snapshot
+ */
+export function getPrintQueueState(): PrintQueueState {
+  return { jobs, running };
+}
+
+/**
+ * Listen for queue changes; returns the unsubscribe function
+ * The stored queue is loaded on first subscribe
+ */
+export function subscribeToPrintQueue(listener: PrintQueueListener): () => void {
+  listeners.add(listener);
+  loadQueue();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Record a print job and print it now
+ * The document may include the rendered view; retries print its text commands.
+ * On failure the job stays queued for retry and the print error is rethrown.
+ */
+export async function submitPrintJob(input: NewPrintQueueJob, document: PrintDocument): Promise<PrintQueueJob> {
+  await loadQueue();
+  const now = Date.now();
+  const job: PrintQueueJob = {
+    ...input,
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    commands: document.commands,
+    status: 'pending',
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await setJobs([job, ...jobs]);
+  await runJob(job.id, { document });
+  return jobs.find(item => item.id === job.id) || job;
+}
+
+/**
+ * Retry every pending job whose backoff has passed and whose printer is reachable
+ */
+export async function processPrintQueue(): Promise<void> {
+  await loadQueue();
+  if (running) return;
+  const now = Date.now();
+  if (!jobs.some(job => isDue(job, now))) return;
+
+  running = true;
+  notify();
+  try {
+    let next = jobs.find(job => isDue(job, now));
+    while (next) {
+      const job = next;
+      try {
+        await runJob(job.id, { retry: true });
+      } catch (error) {
+        console.warn(`Print job ${job.id} failed again:`, error);
+      }
+      next = jobs.find(item => isDue(item, now));
+    }
+  } finally {
+    running = false;
+    notify();
+  }
+}
+
+/**
+ * Tell the queue which Epson printers discovery currently sees, retrying jobs waiting for them
+ */
+export function reportDiscoveredPrinters(printers: DiscoveredPrinter[] | undefined): void {
+  const targets = (printers || []).map(printer => printer.target).filter(Boolean);
+  if (targets.length === 0) return;
+  targets.forEach(target => discoveredTargets.add(target));
+  processPrintQueue();
+}
+
+/**
+ * Print a job again now: failed or cancelled jobs are retried in place, completed ones are queued as a new copy
+ */
+export async function reprintJob(id: string): Promise<void> {
+  await loadQueue();
+  const job = jobs.find(item => item.id === id);
+  if (!job || job.status === 'printing') return;
+
+  if (job.status === 'completed') {
+    const { receiptId, orderNumber, printerType, printerTarget, printerName, role, codePage, template, copies } = job;
+    await submitPrintJob({ receiptId, orderNumber, printerType, printerTarget, printerName, role, codePage, template, copies }, { commands: job.commands });
+    return;
+  }
+  // A manual reprint gets a fresh set of automatic retries
+  await updateJob(id, { status: 'pending', attempts: 0, lastError: undefined, nextAttemptAt: undefined });
+  await runJob(id);
+}
+
+/**
+ * Stop retrying a job (kept in the history as cancelled)
+ */
+export async function cancelPrintJob(id: string): Promise<void> {
+  await loadQueue();
+  const job = jobs.find(item => item.id === id);
+  if (!job || (job.status !== 'pending' && job.status !== 'failed')) return;
+  await updateJob(id, { status: 'cancelled', nextAttemptAt: undefined });
+}
+
+/**
+ * Retry due jobs while the app is in the foreground
+ * Call once at startup; returns a function that stops it
+ */
+export function startPrintQueueSync(): () => void {
+  processPrintQueue();
+
+  let timer: ReturnType<typeof setInterval> | null = setInterval(processPrintQueue, SYNC_INTERVAL_MS);
+  const appStateSubscription = AppState.addEventListener('change', nextState => {
+    if (nextState === 'active') {
+      processPrintQueue();
+      if (!timer) timer = setInterval(processPrintQueue, SYNC_INTERVAL_MS);
+    } else if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  });
+
+  return () => {
+    appStateSubscription.remove();
+    if (timer) clearInterval(timer);
+  };
+}
@@ -1,19 +1,88 @@
-import { ReceiptData } from './ocr';
-import { PrintTemplateId } from './settings';
+import * as Print from 'expo-print';
+import { EscPosEncoder, encodePrintCommands, openRawTcpConnection, type RawTcpConnection } from './escpos';
+import { getReceiptItemTotal, ReceiptItem, ReceiptModifier } from './ocr';
+import { DEFAULT_TAX_CONFIG, getEpsonPrinterMac, NetworkPrinterConfig, TaxConfig } from './settings';
+
+export interface ReceiptTotals {
+  subtotal: number; // Amount before tax
+  tax: number;
+  total: number; // Amount including tax
+  taxFree: number; // Portion of the subtotal that is not taxed
+  taxLabel: string;
+  taxRate: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
 
 /**
- * Calculate subtotal and GST from total (GST is 10% inclusive)
+ * Check whether an item is tax-free under the tax configuration
  */
-export function calculateTotals(total: number) {
-  const subtotal = total * (100 / 110);
-  const gst = total * (10 / 110);
+export function isTaxFreeItem(item: ReceiptItem, taxConfig: TaxConfig = DEFAULT_TAX_CONFIG): boolean {
+  const name = item.name.toLowerCase();
+  return taxConfig.taxFreeKeywords.some(keyword => keyword && name.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Calculate subtotal and tax from the receipt total
+ * Inclusive: the total already contains tax. Exclusive: the total is before tax and tax is added on top.
+ * Tax-free items (matched by keyword) are excluded from the taxable amount.
+ */
+export function calculateTotals(
+  total: number,
+  taxConfig: TaxConfig = DEFAULT_TAX_CONFIG,
+  items: ReceiptItem[] = []
+): ReceiptTotals {
+  const taxFreeSum = items
+    .filter(item => isTaxFreeItem(item, taxConfig))
+    .reduce((sum, item) => sum + getReceiptItemTotal(item), 0);
+  const taxFree = roundCents(Math.max(0, Math.min(total, taxFreeSum)));
+  const taxable = total - taxFree;
+
+  if (taxConfig.inclusive) {
+    const tax = roundCents(taxable * (taxConfig.rate / (100 + taxConfig.rate)));
+    return {
+      subtotal: roundCents(total - tax),
+      tax,
+      total,
+      taxFree,
+      taxLabel: taxConfig.label,
+      taxRate: taxConfig.rate,
+    };
+  }
+
+  const tax = roundCents(taxable * (taxConfig.rate / 100));
   return {
-    subtotal: Math.round(subtotal * 100) / 100,
-    gst: Math.round(gst * 100) / 100,
-    total: total,
+    subtotal: total,
+    tax,
+    total: roundCents(total + tax),
+    taxFree,
+    taxLabel: taxConfig.label,
+    taxRate: taxConfig.rate,
   };
 }
 
+/**
+ * Format an adjustment amount with its sign, e.g. "-$2.00" or "$0.27"
+ */
+export function formatSignedAmount(amount: number): string {
+  return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+}
+
+/**
+ * Format a modifier's text, e.g. "2x Grilled Flake"
+ */
+export function formatModifierLabel(modifier: ReceiptModifier): string {
+  return `${modifier.quantity && modifier.quantity > 1 ? `${modifier.quantity}x ` : ''}${modifier.name}`;
+}
+
+/**
+ * Format a modifier's price delta, e.g. "+$2.00" (empty when the modifier has no price)
+ */
+export function formatModifierPrice(modifier: ReceiptModifier): string {
+  if (!modifier.price) return '';
+  return `${modifier.price < 0 ? '-' : '+'}$${Math.abs(modifier.price).toFixed(2)}`;
+}
+
 /**
  * Format date/time for printing (removes non-printable characters)
  */
@@ -32,48 +101,6 @@ export function formatDateTime(): string {
   return `${weekday}, ${day}/${month}/${year} ${timeStr}`;
 }
 
-/**
- * Get template-specific formatting settings
- */
-export function getTemplateSettings(template: PrintTemplateId) {
-  switch (template) {
-    case 'compact':
-      return {
-        lineWidth: 40, // Smaller width for compact
-        feedLinesBeforeItems: 0,
-        feedLinesAfterItems: 0,
-        feedLinesBeforeTotals: 1,
-        feedLinesAfterTotals: 1,
-        feedLinesBeforeFooter: 1,
-        feedLinesAfterFooter: 2,
-        dividerChar: '-',
-      };
-    case 'kitchen':
-      return {
-        lineWidth: 44, // Larger width for kitchen
-        feedLinesBeforeItems: 1,
-        feedLinesAfterItems: 1,
-        feedLinesBeforeTotals: 2,
-        feedLinesAfterTotals: 1,
-        feedLinesBeforeFooter: 2,
-        feedLinesAfterFooter: 3,
-        dividerChar: '=',
-      };
-    case 'classic':
-    default:
-      return {
-        lineWidth: 42, // Standard width for classic
-        feedLinesBeforeItems: 0,
-        feedLinesAfterItems: 0,
-        feedLinesBeforeTotals: 1,
-        feedLinesAfterTotals: 0,
-        feedLinesBeforeFooter: 1,
-        feedLinesAfterFooter: 3,
-        dividerChar: '=',
-      };
-  }
-}
-
 export type ReceiptLine = {
   text: string;
   textWithoutPrice: string;
@@ -85,194 +112,445 @@ export type ReceiptLine = {
   key: string;
 };
 
+export type PrintAlign = 'left' | 'center' | 'right';
+
 /**
- * Print receipt manually as text (fallback when addViewShot fails)
- * Supports templates: classic, compact, kitchen
+ * One step of a text print job, rendered by each driver in its own way
  */
-export async function printReceiptAsText(
-  printer: any,
-  PrinterConstants: any,
-  receiptData: ReceiptData | null,
-  filteredReceiptLines: ReceiptLine[] | null,
-  orderNumber: string | null,
-  shopName: string,
-  template: PrintTemplateId = 'classic',
-  isPaid: boolean = false
-): Promise<void> {
-  const settings = getTemplateSettings(template);
-  const lineWidth = settings.lineWidth;
-  const divider = settings.dividerChar.repeat(lineWidth);
-  const formatColumns = (left: string, right?: string) => {
-    const leftText = left || '';
-    const rightText = right || '';
-    if (!rightText) {
-      return `${leftText}\n`;
-    }
-    const padding = Math.max(1, lineWidth - leftText.length - rightText.length);
-    const spaces = padding > 0 ? ' '.repeat(padding) : ' ';
-    return `${leftText}${spaces}${rightText}\n`;
-  };
+export type PrintCommand =
+  | { type: 'text'; text: string }
+  | { type: 'feed'; lines: number }
+  | { type: 'align'; align: PrintAlign }
+  | { type: 'style'; bold?: boolean; doubleSize?: boolean }; // Unset fields keep their current value
 
-  try {
-    // Set alignment to center for header
-    if (printer.addTextAlign && typeof printer.addTextAlign === 'function' && PrinterConstants) {
-      try {
-        await printer.addTextAlign(PrinterConstants.ALIGN_CENTER);
-      } catch (e) {
-        console.warn('[PRINTER] Text alignment failed (continuing anyway):', e);
-      }
-    }
+/**
+ * What to print: the text commands are always given so any driver can print it;
+ * drivers that can do better use the rendered view or the HTML instead
+ */
+export interface PrintDocument {
+  commands: PrintCommand[];
+  viewTag?: number | null; // Native view to print as an image (Epson)
+  html?: string; // Page for the system print dialog
+}
 
-    // Print divider
-    await printer.addText(`${divider}\n`);
-    await printer.addFeedLine(settings.feedLinesBeforeItems);
+export type PrinterDriverType = 'epson' | 'network' | 'system' | 'memory';
 
-    // Print shop name
-    await printer.addText(`${shopName || 'Pappa\'s Ocean Catch'}\n`);
-    await printer.addFeedLine(1);
+export interface PrinterStatus {
+  connected: boolean;
+  online: boolean;
+  message?: string; // Printer-reported detail, e.g. "Paper is running out."
+}
 
-    const dateTimeStr = formatDateTime();
-    const customerDetails = receiptData?.customer;
-    const customerNameText = customerDetails?.name ? `Customer: ${customerDetails.name}` : '';
-    const customerPhoneText = customerDetails?.phone ? `Phone: ${customerDetails.phone}` : '';
-    const orderLineText = orderNumber ? `Order #: ${orderNumber}` : '';
+/**
+ * A way of printing, so screens print through one service whatever the hardware
+ * Output may be buffered until cut(), which ends the job; disconnecting discards anything not cut.
+ */
+export interface PrinterDriver {
+  readonly type: PrinterDriverType;
+  readonly name: string;
+  connect(): Promise<void>;
+  print(document: PrintDocument): Promise<void>;
+  cut(): Promise<void>;
+  getStatus(): Promise<PrinterStatus>;
+  disconnect(): Promise<void>;
+}
 
-    if (orderLineText || customerNameText) {
-      await printer.addText(formatColumns(orderLineText, customerNameText || undefined));
-    }
+/**
+ * A printer found by Epson discovery (fields as reported by react-native-esc-pos-printer)
+ */
+export interface DiscoveredPrinter {
+  target: string;
+  name?: string;
+  deviceName?: string;
+  ipAddress?: string;
+  port?: string | number;
+  deviceType?: string;
+}
 
-    await printer.addText(formatColumns(dateTimeStr, customerPhoneText || undefined));
-    
-    // Print payment status
-    const paymentStatusText = isPaid ? 'PAID' : 'Unpaid';
-    await printer.addText(formatColumns('', paymentStatusText));
-    
-    await printer.addFeedLine(settings.feedLinesAfterItems);
+/**
+ * Build the printer test page
+ */
+export function buildTestPageCommands(printer: DiscoveredPrinter | { target: string; deviceName?: string; name?: string }): PrintCommand[] {
+  const info = printer as DiscoveredPrinter;
+  const lines = [
+    `Device: ${info.deviceName || info.name || 'Printer'}`,
+    `Target: ${info.target}`,
+    ...(info.ipAddress ? [`IP: ${info.ipAddress}`] : []),
+    ...(info.port ? [`Port: ${info.port}`] : []),
+    ...(info.ipAddress !== undefined || info.deviceType !== undefined ? [`Type: ${info.ipAddress ? 'WiFi/LAN' : 'Bluetooth'}`] : []),
+    `Date: ${new Date().toLocaleString()}`,
+  ];
+  return [
+    { type: 'align', align: 'center' },
+    { type: 'text', text: '========================\nPRINTER TEST\n========================\n' },
+    { type: 'feed', lines: 1 },
+    { type: 'align', align: 'left' },
+    { type: 'text', text: lines.map(line => `${line}\n`).join('') },
+    { type: 'feed', lines: 1 },
+    { type: 'text', text: 'This is a test print.\nIf you see this, the printer is working!\n' },
+    { type: 'feed', lines: 1 },
+    { type: 'align', align: 'center' },
+    { type: 'text', text: '========================\n' },
+    { type: 'feed', lines: 3 },
+  ];
+}
 
-    // Print divider
-    await printer.addText(`${divider}\n`);
-    await printer.addFeedLine(1);
+/**
+ * Render print commands as plain text (alignment is ignored)
+ */
+export function renderCommandsAsText(commands: PrintCommand[]): string {
+  return commands
+    .map(command => (command.type === 'text' ? command.text : command.type === 'feed' ? '\n'.repeat(command.lines) : ''))
+    .join('');
+}
 
-    // Set alignment to left for items
-    if (printer.addTextAlign && typeof printer.addTextAlign === 'function' && PrinterConstants) {
-      try {
-        await printer.addTextAlign(PrinterConstants.ALIGN_LEFT);
-      } catch (e) {
-        console.warn('[PRINTER] Text alignment failed (continuing anyway):', e);
-      }
-    }
+/**
+ * Thrown when the Epson module is not part of this build (e.g. Expo Go)
+ */
+export class PrinterUnavailableError extends Error {
+  constructor() {
+    super('The Epson printer module is not included in this build');
+    this.name = 'PrinterUnavailableError';
+  }
+}
 
-    // Print items
-    if (receiptData && receiptData.items) {
-      // Print from JSON data
-      for (const item of receiptData.items) {
-        const quantityText = item.quantity > 1 ? `${item.quantity}x ` : '';
-        const nameText = item.name;
-        const priceText = `$${item.price.toFixed(2)}`;
-
-        // Calculate padding for alignment with right margin
-        const leftPart = `${quantityText}${nameText}`;
-        const padding = Math.max(1, lineWidth - leftPart.length - priceText.length);
-        const paddedLine = `${leftPart}${' '.repeat(padding)}${priceText}\n`;
-
-        await printer.addText(paddedLine);
-
-        // Print modifiers if any
-        if (item.modifiers && item.modifiers.length > 0) {
-          for (const modifier of item.modifiers) {
-            await printer.addText(`  ${modifier}\n`);
-          }
-        }
-      }
+/**
+ * Thrown by runPrintJob, recording which step of the job failed
+ */
+export class PrintJobError extends Error {
+  step: string;
+  originalError: any;
+
+  constructor(step: string, originalError: any) {
+    super(getPrintErrorMessage(originalError));
+    this.name = 'PrintJobError';
+    this.step = step;
+    this.originalError = originalError;
+  }
+}
 
-      // Print totals
-      await printer.addFeedLine(settings.feedLinesBeforeTotals);
-      await printer.addText(`${settings.dividerChar.repeat(Math.min(lineWidth, 24))}\n`);
-
-      const totals = calculateTotals(receiptData.total);
-      const subtotalLine = `Subtotal:${' '.repeat(lineWidth - 8 - totals.subtotal.toFixed(2).length - 1)}$${totals.subtotal.toFixed(2)}\n`;
-      await printer.addText(subtotalLine);
-
-      const gstLine = `GST:${' '.repeat(lineWidth - 4 - totals.gst.toFixed(2).length - 1)}$${totals.gst.toFixed(2)}\n`;
-      await printer.addText(gstLine);
-
-      const totalLine = `Total:${' '.repeat(lineWidth - 6 - totals.total.toFixed(2).length - 1)}$${totals.total.toFixed(2)}\n`;
-      await printer.addText(totalLine);
-    } else if (filteredReceiptLines && filteredReceiptLines.length > 0) {
-      // Print from parsed text lines
-      const productLines = filteredReceiptLines.filter(line => !line.isTotalLine);
-      const totalLines = filteredReceiptLines.filter(line => line.isTotalLine);
-
-      // Sort total lines: Subtotal first, GST second, Total last
-      const sortedTotalLines = [...totalLines].sort((a, b) => {
-        const aText = a.text.toUpperCase();
-        const bText = b.text.toUpperCase();
-        if (aText.startsWith('SUBTOTAL')) return -1;
-        if (bText.startsWith('SUBTOTAL')) return 1;
-        if (aText.startsWith('GST')) return -1;
-        if (bText.startsWith('GST')) return 1;
-        if (aText.startsWith('TOTAL')) return 1;
-        if (bText.startsWith('TOTAL')) return -1;
-        return 0;
-      });
+/**
+ * Best-effort message from the various error shapes native printer modules throw
+ */
+export function getPrintErrorMessage(error: any): string {
+  if (error?.message) return error.message;
+  if (error?.code) return `Error code: ${error.code}`;
+  if (error?.name) return `Error: ${error.name}`;
+  if (typeof error === 'string') return error;
+  try {
+    return JSON.stringify(error) || 'Unknown error';
+  } catch {
+    return String(error);
+  }
+}
 
-      // Print product lines
-      for (const line of productLines) {
-        if (line.isIndented) {
-          await printer.addText(`  ${line.text}\n`);
-        } else if (line.hasPrice) {
-          const quantityText = line.quantity ? `${line.quantity}x ` : '';
-          const nameText = line.textWithoutPrice;
-          const priceText = line.price || '';
+/**
+ * Check whether a system print failed only because the user closed the dialog
+ */
+export function isPrintCancellation(error: any): boolean {
+  const errorMessage = (error?.message || String(error) || '').toLowerCase();
+  return errorMessage.includes('cancel') || errorMessage.includes('did not complete') || errorMessage.includes('aborted');
+}
 
-          const leftPart = `${quantityText}${nameText}`;
-          const padding = Math.max(1, lineWidth - leftPart.length - priceText.length);
-          const paddedLine = `${leftPart}${' '.repeat(padding)}${priceText}\n`;
+let epsonModulePromise: Promise<any> | null = null;
 
-          await printer.addText(paddedLine);
-        } else {
-          await printer.addText(`${line.text}\n`);
-        }
-      }
+function loadEpsonModule(): Promise<any> {
+  if (!epsonModulePromise) {
+    epsonModulePromise = import('react-native-esc-pos-printer').catch(error => {
+      console.error('[PRINTER] Failed to import Epson module:', error);
+      return null;
+    });
+  }
+  return epsonModulePromise;
+}
 
-      // Print totals
-      if (sortedTotalLines.length > 0) {
-        await printer.addFeedLine(settings.feedLinesBeforeTotals);
-        await printer.addText(`${settings.dividerChar.repeat(Math.min(lineWidth, 24))}\n`);
+/**
+ * Whether the Epson module is part of this build
+ */
+export async function isEpsonAvailable(): Promise<boolean> {
+  return !!(await loadEpsonModule())?.Printer;
+}
 
-        for (const line of sortedTotalLines) {
-          if (line.hasPrice) {
-            const label = line.textWithoutPrice;
-            const priceText = line.price || '';
+/**
+ * The printer to use: the saved default, else the first discovered one
+ */
+export async function resolveEpsonPrinter(discovered: DiscoveredPrinter[] | undefined): Promise<DiscoveredPrinter | null> {
+  const savedTarget = await getEpsonPrinterMac();
+  if (savedTarget) {
+    // The saved printer may be out of discovery range and still reachable
+    return discovered?.find(printer => printer.target === savedTarget) || { target: savedTarget };
+  }
+  return discovered?.[0]?.target ? discovered[0] : null;
+}
 
-            const padding = Math.max(1, lineWidth - label.length - priceText.length);
-            const paddedLine = `${label}${' '.repeat(padding)}${priceText}\n`;
+/**
+ * Epson printer (Bluetooth or WiFi/LAN) through react-native-esc-pos-printer
+ * Prints the rendered view when given one, falling back to text on printers that reject images.
+ */
+export function createEpsonDriver(printerInfo: DiscoveredPrinter): PrinterDriver {
+  const target = printerInfo.target?.trim() || '';
+  const deviceName = (printerInfo.deviceName || printerInfo.name || '').trim() || 'Printer';
+  let mod: any = null;
+  let printer: any = null;
+
+  const requirePrinter = () => {
+    if (!printer) throw new Error('Printer is not connected');
+    return printer;
+  };
 
-            await printer.addText(paddedLine);
-          } else {
-            await printer.addText(`${line.text}\n`);
+  const addCommands = async (commands: PrintCommand[]) => {
+    const connected = requirePrinter();
+    for (const command of commands) {
+      if (command.type === 'text') {
+        await connected.addText(command.text);
+      } else if (command.type === 'feed') {
+        if (command.lines > 0) await connected.addFeedLine(command.lines);
+      } else if (command.type === 'style') {
+        try {
+          if (command.bold !== undefined) {
+            await connected.addTextStyle({ em: command.bold ? mod.PrinterConstants.TRUE : mod.PrinterConstants.FALSE });
+          }
+          if (command.doubleSize !== undefined) {
+            const size = command.doubleSize ? 2 : 1;
+            await connected.addTextSize({ width: size, height: size });
           }
+        } catch (e) {
+          console.warn('[PRINTER] Text style failed (continuing anyway):', e);
+        }
+      } else if (typeof connected.addTextAlign === 'function' && mod?.PrinterConstants) {
+        try {
+          const align = { left: mod.PrinterConstants.ALIGN_LEFT, center: mod.PrinterConstants.ALIGN_CENTER, right: mod.PrinterConstants.ALIGN_RIGHT }[command.align];
+          await connected.addTextAlign(align);
+        } catch (e) {
+          console.warn('[PRINTER] Text alignment failed (continuing anyway):', e);
         }
       }
     }
+  };
 
-    // Print footer
-    await printer.addFeedLine(settings.feedLinesBeforeFooter);
-    await printer.addText(`${divider}\n`);
+  return {
+    type: 'epson',
+    name: deviceName,
+
+    async connect() {
+      if (!target) throw new Error('Invalid printer target');
+      mod = await loadEpsonModule();
+      if (!mod?.Printer) throw new PrinterUnavailableError();
+      printer = new mod.Printer({ target, deviceName });
+      try {
+        await printer.connect(5000); // 5 second timeout
+      } catch (connectError: any) {
+        // Some firmware rejects the timeout parameter
+        if (connectError?.message?.includes('parameter') || connectError?.message?.includes('invalid')) {
+          console.log('[PRINTER] Retrying connect without timeout parameter');
+          await printer.connect();
+        } else {
+          printer = null;
+          throw connectError;
+        }
+      }
+    },
+
+    async print(document) {
+      const connected = requirePrinter();
+      if (document.viewTag) {
+        try {
+          await mod.Printer.addViewShot(connected, { viewNode: document.viewTag, width: 80 }); // 80mm paper width
+          return;
+        } catch (viewShotError: any) {
+          const errorMsg = viewShotError?.message || String(viewShotError) || '';
+          // WiFi/LAN printers commonly reject view shots with an invalid parameter error
+          if (!errorMsg.includes('invalid') && !errorMsg.includes('parameter')) {
+            throw viewShotError;
+          }
+          console.log('[PRINTER] addViewShot not supported for this printer, printing as text');
+        }
+      }
+      await addCommands(document.commands);
+    },
 
-    if (printer.addTextAlign && typeof printer.addTextAlign === 'function' && PrinterConstants) {
+    async cut() {
+      const connected = requirePrinter();
       try {
-        await printer.addTextAlign(PrinterConstants.ALIGN_CENTER);
+        await connected.addCut();
+      } catch (cutError) {
+        // Some printers handle cutting differently
+        console.warn('[PRINTER] Paper cut command failed (continuing anyway):', cutError);
+      }
+      await connected.sendData();
+    },
+
+    async getStatus() {
+      if (!printer) return { connected: false, online: false };
+      try {
+        const status = await printer.getStatus();
+        return {
+          connected: status?.connection?.status !== 'FALSE',
+          online: status?.online?.status !== 'FALSE',
+          message: status?.paper?.message,
+        };
       } catch (e) {
-        console.warn('[PRINTER] Text alignment failed (continuing anyway):', e);
+        console.warn('[PRINTER] Status unavailable:', e);
+        return { connected: true, online: true };
       }
-    }
+    },
+
+    async disconnect() {
+      if (!printer) return;
+      const connected = printer;
+      printer = null;
+      await connected.disconnect();
+    },
+  };
+}
 
-    await printer.addText('Thank you for your purchase!\n');
-    await printer.addFeedLine(settings.feedLinesAfterFooter);
-  } catch (error: any) {
-    console.error('[PRINTER] Error in printReceiptAsText:', error);
-    throw error;
-  }
+/**
+ * Generic ESC/POS printer on the LAN (e.g. Xprinter), sent raw bytes over TCP
+ */
+export function createNetworkDriver(config: NetworkPrinterConfig, options: { net?: any } = {}): PrinterDriver {
+  let connection: RawTcpConnection | null = null;
+  let pending: Uint8Array[] = [];
+
+  const requireConnection = () => {
+    if (!connection) throw new Error('Printer is not connected');
+    return connection;
+  };
+
+  return {
+    type: 'network',
+    name: `${config.host}:${config.port}`,
+
+    async connect() {
+      connection = await openRawTcpConnection(config.host, config.port, { net: options.net });
+      pending = [];
+    },
+
+    async print(document) {
+      requireConnection();
+      pending.push(encodePrintCommands(document.commands, config.codePage));
+    },
+
+    async cut() {
+      const open = requireConnection();
+      pending.push(new EscPosEncoder(config.codePage).cut().encode());
+      const bytes = pending;
+      pending = [];
+      for (const chunk of bytes) {
+        await open.write(chunk);
+      }
+    },
+
+    async getStatus() {
+      return { connected: !!connection, online: !!connection };
+    },
+
+    async disconnect() {
+      pending = [];
+      if (!connection) return;
+      const open = connection;
+      connection = null;
+      await open.close();
+    },
+  };
+}
+
+/**
+ * The system print dialog (AirPrint / Android print service) through expo-print
+ */
+export function createSystemDriver(margin: number = 8): PrinterDriver {
+  const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return {
+    type: 'system',
+    name: 'System Printer',
+    async connect() {},
+    async print(document) {
+      const html = document.html || `<html><body><pre style="font-family: monospace;">${escapeHtml(renderCommandsAsText(document.commands))}</pre></body></html>`;
+      await Print.printAsync({
+        html,
+        orientation: Print.Orientation.portrait,
+        margins: { left: margin, top: margin, right: margin, bottom: margin },
+      });
+    },
+    async cut() {},
+    async getStatus() {
+      return { connected: true, online: true };
+    },
+    async disconnect() {},
+  };
 }
 
+export interface MemoryPrinterDriver extends PrinterDriver {
+  jobs: string[]; // Text of each finished (cut) job
+  output: string; // Text printed since the last cut
+  connected: boolean;
+}
+
+/**
+ * In-memory printer that records what would be printed, for running the print path without hardware
+ */
+export function createMemoryDriver(name: string = 'Memory Printer'): MemoryPrinterDriver {
+  const driver: MemoryPrinterDriver = {
+    type: 'memory',
+    name,
+    jobs: [],
+    output: '',
+    connected: false,
+    async connect() {
+      driver.connected = true;
+    },
+    async print(document) {
+      if (!driver.connected) throw new Error('Printer is not connected');
+      driver.output += renderCommandsAsText(document.commands);
+    },
+    async cut() {
+      if (!driver.connected) throw new Error('Printer is not connected');
+      driver.jobs.push(driver.output);
+      driver.output = '';
+    },
+    async getStatus() {
+      return { connected: driver.connected, online: driver.connected };
+    },
+    async disconnect() {
+      driver.output = '';
+      driver.connected = false;
+    },
+  };
+  return driver;
+}
+
+export interface PrintJobOptions {
+  firstCopy?: number; // Resume a job part way through its copies (1-based)
+  onCopyPrinted?: (copy: number) => void | Promise<void>; // Called after each copy is cut
+}
+
+/**
+ * Print a document on a driver: connect, print and cut each copy, then disconnect
+ * Throws PrintJobError naming the step that failed.
+ */
+export async function runPrintJob(
+  driver: PrinterDriver,
+  document: PrintDocument,
+  copies: number = 1,
+  options: PrintJobOptions = {}
+): Promise<void> {
+  let step = 'connecting to printer';
+  try {
+    await driver.connect();
+    for (let copy = options.firstCopy ?? 1; copy <= copies; copy++) {
+      step = copies > 1 ? `printing copy ${copy} of ${copies}` : 'printing';
+      await driver.print(document);
+      step = 'cutting paper';
+      await driver.cut();
+      await options.onCopyPrinted?.(copy);
+    }
+    step = 'disconnecting from printer';
+    await driver.disconnect();
+  } catch (error) {
+    console.error(`[PRINTER] ${driver.name} failed while ${step}:`, error);
+    if (step !== 'disconnecting from printer') {
+      // Free the printer for the next job
+      await driver.disconnect().catch(disconnectError => console.warn('[PRINTER] Disconnect failed:', disconnectError));
+    }
+    throw error instanceof PrintJobError || error instanceof PrinterUnavailableError ? error : new PrintJobError(step, error);
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Receipt Prompt Registry
+ *
+ * Versioned extraction prompts. Every profile shares the same base prompt and
+ * response format, and overrides the parts that depend on the docket layout
+ * (where the total is printed, tax wording, layout hints). The prompt id and
+ * version are stored with each receipt so accuracy can be compared across
+ * prompt changes.
+ */
+
+export interface PromptProfile {
+  id: string;
+  name: string;
+  description: string;
+  version: string; // Bump whenever this profile's text changes
+  totalRules: string; // Body of the "Total Identification" section
+  totalKeyPoints: string; // Total/tax lines at the top of KEY POINTS
+  layoutNotes?: string; // Extra hints about this docket layout
+}
+
+export interface ReceiptPrompt {
+  id: string;
+  version: string; // Profile version, plus a hash of any custom instructions
+  text: string;
+}
+
+/**
+ * Bump when the shared base prompt (below) changes
+ */
+const BASE_PROMPT_VERSION = '3';
+
+const DEFAULT_PROMPT_PROFILE_ID = 'default';
+
+const promptProfiles = new Map<string, PromptProfile>();
+
+/**
+ * Register a prompt profile (replaces any profile with the same id)
+ */
+export function registerPromptProfile(profile: PromptProfile): void {
+  promptProfiles.set(profile.id, profile);
+}
+
+/**
+ * Get a prompt profile by id, falling back to the default profile
+ */
+export function getPromptProfile(id?: string | null): PromptProfile {
+  return (id && promptProfiles.get(id)) || promptProfiles.get(DEFAULT_PROMPT_PROFILE_ID)!;
+}
+
+/**
+ * Get all registered prompt profiles
+ */
+export function getPromptProfiles(): PromptProfile[] {
+  return Array.from(promptProfiles.values());
+}
+
+/**
+ * Short stable hash used to version custom instructions
+ */
+function hashText(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = (Math.imul(hash, 33) ^ value.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * Build the full extraction prompt for a profile, with optional shop-specific instructions
+ */
+export function buildReceiptPrompt(profileId?: string | null, customInstructions?: string): ReceiptPrompt {
+  const profile = getPromptProfile(profileId);
+  const custom = customInstructions?.trim() || '';
+
+  const layoutNotes = profile.layoutNotes ? `\nLAYOUT NOTES (${profile.name}):\n${profile.layoutNotes}\n` : '';
+  const customNotes = custom ? `\nSHOP-SPECIFIC INSTRUCTIONS (follow these unless they contradict the JSON format):\n${custom}\n` : '';
+
+  const text = `You are a receipt parsing assistant. Analyze this receipt image and extract structured data, returning it as JSON.
+
+CRITICAL EXTRACTION RULES - STRICT PARSING ONLY:
+- ONLY extract information that is EXPLICITLY visible in the receipt image
+- DO NOT add, infer, or assume any information that is not in the receipt
+- DO NOT modify items or add modifiers that are not visible
+- Parse exactly what you see, nothing more, nothing less
+
+1. Store Information: DO NOT include store name, address, date, or time - ignore these completely.
+
+2. Total Identification:
+${profile.totalRules}
+
+3. Product Items:
+   - Extract each product/item as a separate entry
+   - ALWAYS extract quantity if present (e.g., "1x", "2x", "3x" before the product name)
+   - If no quantity is shown, assume quantity is 1
+   - Extract the product name EXACTLY as it appears in the receipt (without quantity prefix)
+   - DO NOT modify product names or add information that is not visible
+   - Extract the price shown on the line EXACTLY as printed (this is the line total, already including quantity when quantity is shown)
+   - NEVER attempt to calculate or divide a unit price—just copy the printed line amount
+   - If the same product name appears multiple times with different modifiers or prices, each is a SEPARATE item
+   - Example: If you see "Burger" with "no onions" and "$10.00", and "Burger" with "extra cheese" and "$12.00", list them as two separate items
+   - IMPORTANT: Only extract what you see - do not add or modify anything
+
+4. Modifiers - CRITICAL RULES:
+   - ONLY extract modifiers that are EXPLICITLY visible in the receipt image
+   - DO NOT add modifiers that are not visible in the receipt
+   - DO NOT infer or assume modifiers based on product names
+   - DO NOT add modifiers just because a product might commonly have them
+   - Modifiers can appear in different formats:
+     * On the same line as the product (e.g., "Burger - no onions")
+     * On a separate line below the product (e.g., "Family Pack"  with "2 X Grilled Flake" below it)
+     * Indented or visually associated with the product above
+   - IMPORTANT: If text appears below a product item WITHOUT its own price, it is likely a modifier of that product
+   - Each modifier is an object: {"name": "...", "quantity": 2, "price": 2.00} - only "name" is required
+   - Quantity-based modifiers (like "2x Grilled Flake", "2 X Grilled Flake", "3x Large") put the number in "quantity" and the rest in "name"
+   - If a modifier line shows its own price (e.g., "+ Bacon $2.00", "Extra shot 0.50"), put that amount in the modifier's "price" and keep it OUT of the product price
+   - The product "price" is the amount printed on the product line only; priced modifiers are added to it when checking the total
+   - If a modifier has no printed price, omit "price"
+   - If a product has NO modifiers visible in the receipt image, you MUST omit the modifiers field completely (do not include an empty array)
+   - Only include modifiers if they are clearly written/printed on the receipt
+   - Distinguish modifiers from separate items: a priced line that is indented or starts with "+" under a product is a priced modifier; other lines with their own price are separate items
+
+5. Menu Accuracy & Validation:
+   - Some POS layouts show reference menus or modifiers on side panels—IGNORE these unless they are clearly part of the purchased items list.
+   - NEVER invent random menu entries; only capture lines that belong to the actual purchased items.
+   - After extracting all items, calculate the sum of the item prices (each price already includes its quantity) plus any modifier prices, plus the adjustment amounts from section 8.
+   - That calculated sum MUST match the Total amount identified in section 2 (allow a tolerance of ±$0.01 for rounding).
+   - If the numbers do not match, re-check the items and fix mistakes before returning the JSON.
+
+6. Customer Information (OPTIONAL):
+   - If the receipt clearly shows a customer name and/or phone number (e.g., loyalty info), capture it.
+   - Only record details that are explicitly printed on the receipt (e.g., "Customer: Jane Doe", "Phone: 0400 123 456").
+   - Do NOT invent or infer customer details that are not visible.
+   - Return customer info under a "customer" object with "name" and/or "phone" keys.
+   - If only one field is present, include just that field. If no customer info exists, omit the "customer" object entirely.
+
+7. Confidence and Source Region:
+   - For each item, include "confidence": a number from 0 to 1 for how certain you are that the name, quantity and price were read correctly (lower it for blurry, cut-off, handwritten or ambiguous lines)
+   - For each item, include "boundingBox": the region of the image containing the item line and its modifiers
+   - boundingBox uses fractions of the image size: {"x": left, "y": top, "width": width, "height": height}, each between 0 and 1
+   - For multiple images, add "page" to boundingBox with the 0-based index of the image the item appears in
+
+8. Adjustments and Payments:
+   - Discount, surcharge, tip, delivery fee and rounding lines are NOT items - return them under "adjustments"
+   - Each adjustment has "type" (one of "discount", "surcharge", "tip", "delivery_fee", "rounding"), "label" (text as printed) and "amount"
+   - Discount amounts are NEGATIVE (e.g., "Staff discount 10% -$2.00" -> -2.00); surcharges, tips and fees are positive; rounding keeps its printed sign
+   - Payment lines (Cash, EFTPOS, Card, Visa, etc.) go under "payments" with "method" and "amount"
+   - Change given and tax lines are neither items, adjustments nor payments
+   - Omit "adjustments" and "payments" when there are none
+
+9. Return Format:
+   - Return ONLY valid JSON, no explanations or comments
+   - Use this exact structure:
+     {
+       "items": [
+         {
+           "name": "Product Name",
+           "quantity": 1,
+           "price": 10.99,
+           "modifiers": [{"name": "No onions"}, {"name": "Extra cheese", "price": 1.50}],
+           "confidence": 0.95,
+           "boundingBox": {"x": 0.05, "y": 0.32, "width": 0.9, "height": 0.06}
+         }
+       ],
+       "total": 110.00,
+       "customer": {
+         "name": "Jane Doe",
+         "phone": "0400 123 456"
+       },
+       "adjustments": [
+         {"type": "discount", "label": "Staff discount 10%", "amount": -1.10}
+       ],
+       "payments": [
+         {"method": "EFTPOS", "amount": 110.00}
+       ]
+     }
+   - All prices should be numbers (not strings)
+   - All quantities should be numbers (not strings)
+   - Product names should be strings
+   - Modifiers should be an array of objects with "name" and optional "quantity" and "price" (or omit if empty)
+   - The "customer" object is optional and should only be present when at least one customer field exists
+   - "adjustments" and "payments" are optional arrays
+
+Example JSON output (only include modifiers if they are visible in the receipt, and only include customer info when it exists on the receipt):
+{
+  "items": [
+    {
+      "name": "BURGER",
+      "quantity": 1,
+      "price": 10.99,
+      "modifiers": [{"name": "No onions"}, {"name": "Extra cheese"}]
+    },
+    {
+      "name": "BURGER",
+      "quantity": 2,
+      "price": 12.50,
+      "modifiers": [{"name": "Add bacon", "price": 2.00}, {"name": "Extra cheese"}]
+    },
+    {
+      "name": "Family Flake Pack",
+      "quantity": 1,
+      "price": 55.20,
+      "modifiers": [{"name": "Grilled Flake", "quantity": 2}]
+    },
+    {
+      "name": "FRIES",
+      "quantity": 3,
+      "price": 15.50
+    }
+  ],
+  "total": 110.00,
+  "customer": {
+    "name": "Jane Doe",
+    "phone": "0400 123 456"
+  }
+}
+
+Note: In the example above, modifiers are only shown IF they are visible in the receipt. If FRIES had no modifiers visible, do not add any modifiers field for it.
+Note: The "Family Flake Pack" example shows how to handle modifiers that appear on separate lines below the main item (like "2 X Grilled Flake"). These should be extracted as modifiers, not as separate items.
+Note: The second BURGER shows a priced modifier ("Add bacon +$2.00" printed under it): the $2.00 goes on the modifier, not the burger price.
+${layoutNotes}${customNotes}
+KEY POINTS:
+${profile.totalKeyPoints}
+- Extract quantity as a number (1 if not shown)
+- Extract price as a number without $ sign
+- CRITICAL: Only extract modifiers that are ACTUALLY VISIBLE in the receipt image
+- CRITICAL: Pay special attention to text that appears below a product item - if it has no price, it's likely a modifier
+- CRITICAL: Quantity-based modifiers (like "2x Grilled Flake", "2 X Grilled Flake") should be captured as modifiers with a quantity, not separate items
+- Modifier prices go on the modifier ("price"), never folded into or dropped from the product price
+- DO NOT add modifiers that are not in the receipt - if you don't see them, don't include them
+- If a product has no visible modifiers, omit the modifiers field completely
+- Each product with different modifiers or price is a separate item
+- Return ONLY the JSON, no other text
+- Be strict: only parse what you see, don't add anything
+- Customer info is optional; include it ONLY when name and/or phone are clearly printed
+- Discounts, surcharges, tips, fees and rounding go in "adjustments" (discounts negative), never in "items"
+- Verify that the sum of item prices plus modifier prices plus adjustments equals the receipt total before responding
+
+JSON response:`;
+
+  return {
+    id: profile.id,
+    version: `${BASE_PROMPT_VERSION}.${profile.version}${custom ? `+${hashText(custom)}` : ''}`,
+    text,
+  };
+}
+
+registerPromptProfile({
+  id: 'default',
+  name: 'Standard POS docket',
+  description: 'Total printed at the top, 10% GST included',
+  version: '1',
+  totalRules: `   - The "Total" label and amount appears at the TOP of the receipt (before product items)
+   - This Total line is NOT a product item - it is a summary line with the final total price
+   - CRITICAL: Identify and extract the Total amount from the top of the receipt
+   - This Total price already INCLUDES GST (10% GST is included in the total)
+   - Extract the numeric value of the total (e.g., if you see "$110.00" or "Total: $110.00", extract 110.00)`,
+  totalKeyPoints: `- Extract the Total from the TOP of the receipt (it's the final total price)
+- The Total already includes GST (10% inclusive)`,
+});
+
+registerPromptProfile({
+  id: 'square-docket',
+  name: 'Square docket',
+  description: 'Subtotal, tax and Total at the bottom, modifiers indented',
+  version: '2',
+  totalRules: `   - The "Total" label and amount appears at the BOTTOM of the receipt, after the product items
+   - It usually follows "Subtotal" and tax lines - do NOT use the Subtotal, tax or tip lines as the total
+   - Summary lines (Subtotal, Tax, GST, Tip, Surcharge, Total) are NOT product items
+   - Extract the numeric value of the final Total (e.g., "Total $110.00" -> 110.00)`,
+  totalKeyPoints: `- Extract the final Total from the BOTTOM of the receipt, not the Subtotal
+- Tax and tip lines are not items`,
+  layoutNotes: `- Modifiers are printed indented below their item, often without a price
+- Indented lines WITH a price are priced modifiers - put the amount in the modifier "price" (e.g., "Extra shot $0.50" -> {"name": "Extra shot", "price": 0.50})
+- Ignore payment method, card and "Powered by Square" lines`,
+});
+
+registerPromptProfile({
+  id: 'handwritten-slip',
+  name: 'Handwritten slip',
+  description: 'Hand-written order slips, total may be missing',
+  version: '1',
+  totalRules: `   - The total is usually written at the BOTTOM and may be circled or underlined
+   - If there is NO written total, use the sum of the item prices as the total
+   - Crossed-out amounts are NOT the total - use the corrected value next to them
+   - Extract the numeric value of the total`,
+  totalKeyPoints: `- Extract the written total (bottom of the slip), or the sum of item prices if none is written
+- Ignore crossed-out values`,
+  layoutNotes: `- The slip is handwritten: read digits carefully (1/7, 5/6, 0/6 and 4/9 are easily confused)
+- Use a lower confidence (below 0.7) for any item whose name, quantity or price is hard to read
+- Ditto marks (") repeat the line above
+- Ignore ticks, crossings and doodles that are not part of an item`,
+});
+
+registerPromptProfile({
+  id: 'uber-eats-tablet',
+  name: 'Uber Eats tablet',
+  description: 'Delivery tablet printouts with quantity badges',
+  version: '1',
+  totalRules: `   - The total is printed at the BOTTOM of the order (e.g., "Total", "Order total" or "Subtotal" when no other total is shown)
+   - Do NOT use delivery fees, service fees or promotions as items
+   - Extract the numeric value of the total`,
+  totalKeyPoints: `- Extract the order total from the BOTTOM of the order
+- Fees and promotions are not items`,
+  layoutNotes: `- Quantities are shown as a number badge or "1 x" before the item name
+- Modifiers are listed below each item, often in smaller or grey text, with an optional price
+- The customer first name (and sometimes an initial) is printed at the top - include it as customer.name
+- Ignore order IDs, pickup codes, "Uber Eats" branding and delivery instructions`,
+});
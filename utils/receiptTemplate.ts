@@ -0,0 +1,508 @@
+/**
+ * Receipt Templates
+ *
+ * A template describes the printed receipt as an ordered list of sections (shop
+ * name, order number, items, totals, custom text, ...), each with its own
+ * alignment, text size and an optional condition, so the layout can change
+ * without code changes. One template drives both outputs: text print commands
+ * for Epson and ESC/POS printers, and HTML for the system print dialog and the
+ * settings preview.
+ *
+ * The built-in classic, compact and kitchen templates are written in this
+ * format; custom templates are stored as JSON in settings.
+ */
+
+import type { ReceiptData } from './ocr';
+import {
+  calculateTotals,
+  formatDateTime,
+  formatModifierLabel,
+  formatModifierPrice,
+  formatSignedAmount,
+  type PrintAlign,
+  type PrintCommand,
+  type ReceiptLine,
+} from './printer';
+import { getCustomReceiptTemplates, type PaperWidth, type PrintTemplateId, type TaxConfig } from './settings';
+
+export type TemplateTextSize = 'normal' | 'large'; // large: double width and height on thermal printers
+
+export type TemplateCondition =
+  | 'hasOrderNumber'
+  | 'hasCustomer'
+  | 'isPaid'
+  | 'isUnpaid'
+  | 'hasAdjustments'
+  | 'hasPayments';
+
+export interface TemplateSectionStyle {
+  align?: PrintAlign; // Default left
+  size?: TemplateTextSize;
+  bold?: boolean;
+  if?: TemplateCondition; // Only printed when the condition holds
+}
+
+export type TemplateSection = TemplateSectionStyle & (
+  | { type: 'divider'; width?: number } // Line of the template's divider character, full width unless set
+  | { type: 'feed'; lines: number } // Blank lines
+  | { type: 'text'; text: string } // Custom text; {shopName}, {orderNumber} and {date} are filled in
+  | { type: 'shopName' }
+  | { type: 'orderNumber' }
+  | { type: 'dateTime' }
+  | { type: 'customer' } // Name and phone, each when present
+  | { type: 'paymentStatus' } // PAID or Unpaid
+  | { type: 'items'; prices?: boolean; modifiers?: boolean } // Both shown unless set to false
+  | { type: 'adjustments' }
+  | { type: 'totals' } // Subtotal, tax and total
+  | { type: 'payments' }
+);
+
+export type TemplateSectionType = TemplateSection['type'];
+
+export interface ReceiptTemplate {
+  id: PrintTemplateId;
+  name: string;
+  description?: string;
+  lineWidth: number; // Characters per line on 80mm paper (narrowed to fit 58mm)
+  dividerChar: string;
+  fontSize: number; // Base font size of the HTML version, in px
+  sections: TemplateSection[];
+}
+
+/**
+ * What a template is filled with
+ */
+export interface ReceiptTemplateData {
+  receiptData: ReceiptData | null;
+  receiptLines: ReceiptLine[] | null; // Used when there is no structured data
+  orderNumber: string | null;
+  shopName: string;
+  isPaid: boolean;
+  taxConfig: TaxConfig;
+}
+
+const DEFAULT_SHOP_NAME = 'Pappa\'s Ocean Catch';
+
+// Characters per line in the printer's standard font
+const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+const SECTION_TYPES: TemplateSectionType[] = [
+  'divider', 'feed', 'text', 'shopName', 'orderNumber', 'dateTime', 'customer',
+  'paymentStatus', 'items', 'adjustments', 'totals', 'payments',
+];
+const CONDITIONS: TemplateCondition[] = ['hasOrderNumber', 'hasCustomer', 'isPaid', 'isUnpaid', 'hasAdjustments', 'hasPayments'];
+const ALIGNS: PrintAlign[] = ['left', 'center', 'right'];
+
+// Shared tail of the built-in templates: adjustments, totals, payments and the thank-you footer
+const totalsSections = (feedBeforeTotals: number, feedBeforeFooter: number, feedAfterFooter: number): TemplateSection[] => [
+  { type: 'feed', lines: feedBeforeTotals, if: 'hasAdjustments' },
+  { type: 'adjustments', if: 'hasAdjustments' },
+  { type: 'feed', lines: feedBeforeTotals },
+  { type: 'divider', width: 24 },
+  { type: 'totals' },
+  { type: 'feed', lines: 1, if: 'hasPayments' },
+  { type: 'payments', if: 'hasPayments' },
+  { type: 'feed', lines: feedBeforeFooter },
+  { type: 'divider' },
+  { type: 'text', text: 'Thank you for your purchase!', align: 'center' },
+  { type: 'feed', lines: feedAfterFooter },
+];
+
+export const BUILT_IN_TEMPLATES: ReceiptTemplate[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Balanced layout with headings',
+    lineWidth: 42,
+    dividerChar: '=',
+    fontSize: 11,
+    sections: [
+      { type: 'divider', align: 'center' },
+      { type: 'shopName', align: 'center', bold: true },
+      { type: 'feed', lines: 1 },
+      { type: 'orderNumber', align: 'center', if: 'hasOrderNumber' },
+      { type: 'dateTime', align: 'center' },
+      { type: 'customer', align: 'center', if: 'hasCustomer' },
+      { type: 'paymentStatus', align: 'right' },
+      { type: 'divider' },
+      { type: 'feed', lines: 1 },
+      { type: 'items' },
+      ...totalsSections(1, 1, 3),
+    ],
+  },
+  {
+    id: 'compact',
+    name: 'Compact',
+    description: 'Tight spacing for small paper',
+    lineWidth: 40,
+    dividerChar: '-',
+    fontSize: 10,
+    sections: [
+      { type: 'divider', align: 'center' },
+      { type: 'shopName', align: 'center', bold: true },
+      { type: 'orderNumber', align: 'center', if: 'hasOrderNumber' },
+      { type: 'dateTime', align: 'center' },
+      { type: 'customer', align: 'center', if: 'hasCustomer' },
+      { type: 'paymentStatus', align: 'right' },
+      { type: 'divider' },
+      { type: 'items' },
+      ...totalsSections(1, 1, 2),
+    ],
+  },
+  {
+    id: 'kitchen',
+    name: 'Kitchen',
+    description: 'Large text, minimal styling',
+    lineWidth: 44,
+    dividerChar: '=',
+    fontSize: 12,
+    sections: [
+      { type: 'divider', align: 'center' },
+      { type: 'feed', lines: 1 },
+      { type: 'shopName', align: 'center' },
+      { type: 'feed', lines: 1 },
+      { type: 'orderNumber', align: 'center', size: 'large', bold: true, if: 'hasOrderNumber' },
+      { type: 'dateTime', align: 'center' },
+      { type: 'customer', align: 'center', if: 'hasCustomer' },
+      { type: 'paymentStatus', align: 'right' },
+      { type: 'feed', lines: 1 },
+      { type: 'divider' },
+      { type: 'feed', lines: 1 },
+      { type: 'items', bold: true },
+      ...totalsSections(2, 2, 3),
+    ],
+  },
+];
+
+// The receipt screen's printable view is laid out like this template, so Epson printers can print
+// that view as an image; every other template is printed from its own text commands
+export const SCREEN_VIEW_TEMPLATE_ID: PrintTemplateId = 'classic';
+
+/**
+ * Check whether a template id is one of the built-in templates
+ */
+export function isBuiltInTemplate(id: PrintTemplateId): boolean {
+  return BUILT_IN_TEMPLATES.some(template => template.id === id);
+}
+
+/**
+ * Built-in templates followed by the custom ones from settings
+ */
+export async function getReceiptTemplates(): Promise<ReceiptTemplate[]> {
+  const custom = await getCustomReceiptTemplates();
+  return [...BUILT_IN_TEMPLATES, ...custom.filter(template => !isBuiltInTemplate(template.id))];
+}
+
+/**
+ * Find a template by id, falling back to classic (e.g. when a custom template was deleted)
+ */
+export function findReceiptTemplate(id: PrintTemplateId, templates: ReceiptTemplate[] = BUILT_IN_TEMPLATES): ReceiptTemplate {
+  return templates.find(template => template.id === id)
+    || BUILT_IN_TEMPLATES.find(template => template.id === id)
+    || BUILT_IN_TEMPLATES[0];
+}
+
+/**
+ * Read a template from JSON, checking every section
+ * Throws an Error describing the first problem found.
+ */
+export function parseReceiptTemplate(json: string): ReceiptTemplate {
+  let value: any;
+  try {
+    value = JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`Not valid JSON: ${error?.message || 'parse error'}`);
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('A template must be a JSON object');
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    throw new Error('The template needs a "name"');
+  }
+  if (!Array.isArray(value.sections) || value.sections.length === 0) {
+    throw new Error('The template needs a "sections" list');
+  }
+
+  const sections = value.sections.map((section: any, index: number): TemplateSection => {
+    const where = `Section ${index + 1}`;
+    if (!section || typeof section !== 'object') {
+      throw new Error(`${where} must be an object`);
+    }
+    if (!SECTION_TYPES.includes(section.type)) {
+      throw new Error(`${where} has unknown type "${section.type}". Use one of: ${SECTION_TYPES.join(', ')}`);
+    }
+    if (section.align !== undefined && !ALIGNS.includes(section.align)) {
+      throw new Error(`${where}: "align" must be left, center or right`);
+    }
+    if (section.size !== undefined && section.size !== 'normal' && section.size !== 'large') {
+      throw new Error(`${where}: "size" must be normal or large`);
+    }
+    if (section.if !== undefined && !CONDITIONS.includes(section.if)) {
+      throw new Error(`${where}: "if" must be one of: ${CONDITIONS.join(', ')}`);
+    }
+    if (section.type === 'feed' && (typeof section.lines !== 'number' || section.lines < 0 || section.lines > 10)) {
+      throw new Error(`${where}: feed "lines" must be a number from 0 to 10`);
+    }
+    if (section.type === 'text' && typeof section.text !== 'string') {
+      throw new Error(`${where}: text sections need a "text" string`);
+    }
+    if (section.type === 'divider' && section.width !== undefined && (typeof section.width !== 'number' || section.width < 1)) {
+      throw new Error(`${where}: divider "width" must be a positive number`);
+    }
+    return section;
+  });
+
+  const lineWidth = Math.round(Number(value.lineWidth) || 42);
+  const fontSize = Math.round(Number(value.fontSize) || 11);
+  return {
+    id: typeof value.id === 'string' && value.id.trim() ? value.id.trim() : `custom-${Date.now()}`,
+    name: value.name.trim(),
+    description: typeof value.description === 'string' ? value.description : undefined,
+    lineWidth: Math.max(24, Math.min(64, lineWidth)),
+    dividerChar: typeof value.dividerChar === 'string' && value.dividerChar.length > 0 ? value.dividerChar[0] : '=',
+    fontSize: Math.max(8, Math.min(24, fontSize)),
+    sections,
+  };
+}
+
+// One printed line: left text with an optional right-aligned column (prices)
+interface TemplateLine {
+  left: string;
+  right?: string;
+  indent?: boolean; // Modifiers and indented text lines
+  strong?: boolean; // The grand total
+}
+
+function matchesCondition(condition: TemplateCondition | undefined, data: ReceiptTemplateData): boolean {
+  switch (condition) {
+    case 'hasOrderNumber':
+      return !!data.orderNumber;
+    case 'hasCustomer':
+      return !!(data.receiptData?.customer?.name || data.receiptData?.customer?.phone);
+    case 'isPaid':
+      return data.isPaid;
+    case 'isUnpaid':
+      return !data.isPaid;
+    case 'hasAdjustments':
+      return !!data.receiptData?.adjustments?.length;
+    case 'hasPayments':
+      return !!data.receiptData?.payments?.length;
+    default:
+      return true;
+  }
+}
+
+// Subtotal first, tax second, total last
+function sortTotalLines(lines: ReceiptLine[]): ReceiptLine[] {
+  return [...lines].sort((a, b) => {
+    const aText = a.text.toUpperCase();
+    const bText = b.text.toUpperCase();
+    if (aText.startsWith('SUBTOTAL')) return -1;
+    if (bText.startsWith('SUBTOTAL')) return 1;
+    if (aText.startsWith('GST')) return -1;
+    if (bText.startsWith('GST')) return 1;
+    if (aText.startsWith('TOTAL')) return 1;
+    if (bText.startsWith('TOTAL')) return -1;
+    return 0;
+  });
+}
+
+/**
+ * The lines a section prints (dividers and feeds are handled by the renderers)
+ */
+function getSectionLines(section: TemplateSection, data: ReceiptTemplateData, dateTime: string): TemplateLine[] {
+  const { receiptData, receiptLines } = data;
+  switch (section.type) {
+    case 'text':
+      return section.text
+        .replace(/\{shopName\}/g, data.shopName || DEFAULT_SHOP_NAME)
+        .replace(/\{orderNumber\}/g, data.orderNumber || '')
+        .replace(/\{date\}/g, dateTime)
+        .split('\n')
+        .map(left => ({ left }));
+    case 'shopName':
+      return [{ left: data.shopName || DEFAULT_SHOP_NAME }];
+    case 'orderNumber':
+      return data.orderNumber ? [{ left: `Order #: ${data.orderNumber}` }] : [];
+    case 'dateTime':
+      return [{ left: dateTime }];
+    case 'customer': {
+      const customer = receiptData?.customer;
+      return [
+        ...(customer?.name ? [{ left: `Customer: ${customer.name}` }] : []),
+        ...(customer?.phone ? [{ left: `Phone: ${customer.phone}` }] : []),
+      ];
+    }
+    case 'paymentStatus':
+      return [{ left: data.isPaid ? 'PAID' : 'Unpaid' }];
+    case 'items': {
+      const showPrices = section.prices !== false;
+      if (receiptData) {
+        return receiptData.items.flatMap(item => [
+          {
+            left: `${item.quantity > 1 ? `${item.quantity}x ` : ''}${item.name}`,
+            right: showPrices ? `$${item.price.toFixed(2)}` : undefined,
+          },
+          ...(section.modifiers === false ? [] : (item.modifiers || []).map(modifier => ({
+            left: formatModifierLabel(modifier),
+            right: showPrices ? formatModifierPrice(modifier) || undefined : undefined,
+            indent: true,
+          }))),
+        ]);
+      }
+      return (receiptLines || [])
+        .filter(line => !line.isTotalLine)
+        .map(line => {
+          if (line.isIndented) return { left: line.text, indent: true };
+          if (line.hasPrice) {
+            return {
+              left: `${line.quantity ? `${line.quantity}x ` : ''}${line.textWithoutPrice}`,
+              right: showPrices ? line.price || '' : undefined,
+            };
+          }
+          return { left: line.text };
+        });
+    }
+    case 'adjustments':
+      return (receiptData?.adjustments || []).map(adjustment => ({ left: adjustment.label, right: formatSignedAmount(adjustment.amount) }));
+    case 'totals': {
+      if (receiptData) {
+        const totals = calculateTotals(receiptData.total, data.taxConfig, receiptData.items);
+        return [
+          { left: 'Subtotal:', right: `$${totals.subtotal.toFixed(2)}` },
+          { left: `${totals.taxLabel}:`, right: `$${totals.tax.toFixed(2)}` },
+          { left: 'Total:', right: `$${totals.total.toFixed(2)}`, strong: true },
+        ];
+      }
+      return sortTotalLines((receiptLines || []).filter(line => line.isTotalLine)).map(line => (
+        line.hasPrice
+          ? { left: line.textWithoutPrice, right: line.price || '', strong: /^TOTAL/i.test(line.text) }
+          : { left: line.text }
+      ));
+    }
+    case 'payments':
+      return (receiptData?.payments || []).map(payment => ({ left: payment.method, right: `$${payment.amount.toFixed(2)}` }));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Render the receipt as text print commands, narrowed to fit the paper
+ */
+export function buildReceiptCommands(template: ReceiptTemplate, data: ReceiptTemplateData, paperWidth: PaperWidth = 80): PrintCommand[] {
+  const lineWidth = Math.min(template.lineWidth, PAPER_COLUMNS[paperWidth]);
+  const dateTime = formatDateTime();
+  const commands: PrintCommand[] = [];
+
+  for (const section of template.sections) {
+    if (!matchesCondition(section.if, data)) continue;
+    if (section.type === 'feed') {
+      if (section.lines > 0) commands.push({ type: 'feed', lines: section.lines });
+      continue;
+    }
+
+    // Double-size text takes two columns per character
+    const large = section.size === 'large';
+    const width = large ? Math.floor(lineWidth / 2) : lineWidth;
+    let text: string;
+    if (section.type === 'divider') {
+      text = `${template.dividerChar.repeat(Math.min(width, section.width || width))}\n`;
+    } else {
+      const lines = getSectionLines(section, data, dateTime);
+      if (lines.length === 0) continue;
+      text = lines.map(line => {
+        const left = `${line.indent ? '  ' : ''}${line.left}`;
+        if (!line.right) return `${left}\n`;
+        return `${left}${' '.repeat(Math.max(1, width - left.length - line.right.length))}${line.right}\n`;
+      }).join('');
+    }
+
+    const styled = large || !!section.bold;
+    commands.push({ type: 'align', align: section.align || 'left' });
+    if (styled) commands.push({ type: 'style', bold: !!section.bold, doubleSize: large });
+    commands.push({ type: 'text', text });
+    if (styled) commands.push({ type: 'style', bold: false, doubleSize: false });
+  }
+
+  return commands;
+}
+
+const escapeHTML = (str: string): string => {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+};
+
+/**
+ * Render the receipt as an HTML page for the system print dialog (A5, margin in mm)
+ */
+export function buildReceiptHtml(template: ReceiptTemplate, data: ReceiptTemplateData, options: { margin: number }): string {
+  const { margin } = options;
+  const dateTime = formatDateTime();
+
+  const body = template.sections
+    .filter(section => matchesCondition(section.if, data))
+    .map(section => {
+      if (section.type === 'feed') {
+        return section.lines > 0 ? `<div style="height: ${section.lines * 1.5}em;"></div>` : '';
+      }
+      if (section.type === 'divider') {
+        const width = section.width ? Math.min(100, Math.round((section.width / template.lineWidth) * 100)) : 100;
+        const position = section.align === 'center' ? ' margin-left: auto; margin-right: auto;' : section.align === 'right' ? ' margin-left: auto;' : '';
+        return `<div class="divider" style="width: ${width}%;${position}"></div>`;
+      }
+
+      const lines = getSectionLines(section, data, dateTime);
+      if (lines.length === 0) return '';
+      const style = [
+        `text-align: ${section.align || 'left'}`,
+        `font-size: ${section.size === 'large' ? Math.round(template.fontSize * 1.6) : template.fontSize}px`,
+        ...(section.bold ? ['font-weight: bold'] : []),
+      ].join('; ');
+
+      if (section.type === 'paymentStatus') {
+        return `<div style="${style}; margin: 8px 0;"><span class="status ${data.isPaid ? 'paid' : 'unpaid'}">${escapeHTML(lines[0].left)}</span></div>`;
+      }
+      const linesHtml = lines.map(line => {
+        const classes = ['line', ...(line.indent ? ['indent'] : []), ...(line.strong ? ['strong'] : [])].join(' ');
+        return line.right
+          ? `<div class="${classes} row"><span>${escapeHTML(line.left)}</span><span>${escapeHTML(line.right)}</span></div>`
+          : `<div class="${classes}">${escapeHTML(line.left)}</div>`;
+      }).join('');
+      return `<div class="section-${section.type}" style="${style};">${linesHtml}</div>`;
+    })
+    .join('\n');
+
+  return `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <meta charset="utf-8">
+      <style>
+        @page { size: A5 portrait; margin: ${margin}mm; }
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: 'Courier New', monospace; padding: ${margin}mm; font-size: ${template.fontSize}px; line-height: 1.5; width: 100%; }
+        .divider { border-top: 1px solid #E5E5E5; margin: 10px 0; }
+        .line { margin: 3px 0; }
+        .row { display: flex; justify-content: space-between; gap: 8px; }
+        .indent { padding-left: 15px; font-size: 0.85em; color: #666; font-style: italic; margin: 2px 0; }
+        .strong { font-weight: bold; font-size: 1.2em; }
+        .section-shopName { color: #0a7ea4; font-weight: bold; }
+        .section-dateTime { color: #666; }
+        .status { display: inline-block; padding: 4px 12px; border-radius: 4px; font-weight: bold; }
+        .paid { background-color: #D1FAE5; color: #065F46; }
+        .unpaid { background-color: #FEE2E2; color: #991B1B; }
+      </style>
+    </head>
+    <body>
+      ${body}
+    </body>
+  </html>`;
+}
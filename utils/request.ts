@@ -0,0 +1,307 @@
+/**
+ * Shared request layer for OCR/AI network calls
+ *
+ * Wraps fetch with:
+ * - a per-attempt timeout (AbortController)
+ * - retries with exponential backoff on 429/5xx, timeouts and network errors,
+ *   honouring the Retry-After header when the server sends one
+ * - cancellation through a caller-provided AbortSignal
+ *
+ * streamWithRetry does the same for streamed responses, delivering the body as it arrives.
+ */
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export interface RequestOptions extends Omit<RequestInit, 'signal'> {
+  timeoutMs?: number; // Per attempt (default 60s)
+  retries?: number; // Retries after the first attempt (default 3)
+  signal?: AbortSignal; // Abort to cancel the request (and any pending retry)
+}
+
+/**
+ * Thrown when the caller cancels a request through its AbortSignal
+ */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Thrown when every attempt timed out
+ */
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Thrown when every attempt failed to reach the server (no connection, DNS failure, ...)
+ */
+export class RequestNetworkError extends Error {
+  constructor(cause: unknown) {
+    super(`Network request failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'RequestNetworkError';
+  }
+}
+
+/**
+ * Check whether an error came from a cancelled request
+ */
+export function isRequestCancelled(error: unknown): boolean {
+  return error instanceof RequestCancelledError;
+}
+
+/**
+ * Check whether an error means the server could not be reached (worth retrying once back online)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof RequestNetworkError || error instanceof RequestTimeoutError;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parse Retry-After (delay in seconds or an HTTP date) into milliseconds, capped at 30s
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, seconds * 1000));
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.min(MAX_RETRY_DELAY_MS, Math.max(0, date - Date.now()));
+}
+
+/**
+ * Exponential backoff with jitter: ~1s, 2s, 4s, ... capped at 30s
+ */
+function getBackoffDelay(attempt: number): number {
+  const delay = BASE_RETRY_DELAY_MS * Math.pow(2, attempt);
+  return Math.min(MAX_RETRY_DELAY_MS, delay + Math.random() * BASE_RETRY_DELAY_MS);
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * fetch with timeout, retry and cancellation
+ * Returns the final response (which may still be an error status once retries
+ * are exhausted) so callers keep their own error handling for the body.
+ * Throws RequestCancelledError if cancelled, RequestTimeoutError if every attempt timed out,
+ * RequestNetworkError if the last attempt could not reach the server.
+ */
+export async function fetchWithRetry(url: string, options: RequestOptions = {}): Promise<Response> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    signal,
+    ...init
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
+    // One controller per attempt, aborted by the caller's signal or the timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    let retryDelay: number;
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (!isRetryableStatus(response.status) || attempt >= retries) {
+        return response;
+      }
+      retryDelay = parseRetryAfter(response.headers.get('Retry-After')) ?? getBackoffDelay(attempt);
+      console.warn(`Request failed with ${response.status}, retrying in ${Math.round(retryDelay)}ms (attempt ${attempt + 1}/${retries})`);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      if (attempt >= retries) {
+        throw timedOut ? new RequestTimeoutError(timeoutMs) : new RequestNetworkError(error);
+      }
+      retryDelay = getBackoffDelay(attempt);
+      console.warn(`Request ${timedOut ? 'timed out' : 'failed'}, retrying in ${Math.round(retryDelay)}ms (attempt ${attempt + 1}/${retries}):`, error);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    await sleep(retryDelay, signal);
+  }
+}
+
+export interface StreamRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number; // Longest wait without receiving data, per attempt (default 60s)
+  retries?: number; // Retries before the first chunk arrives (default 3)
+  signal?: AbortSignal;
+}
+
+export interface StreamResponse {
+  status: number;
+  ok: boolean;
+  text: string; // Full response body
+}
+
+/**
+ * One streaming attempt; rejects with RequestCancelledError, RequestTimeoutError or the raw network error
+ */
+function streamAttempt(
+  url: string,
+  options: StreamRequestOptions,
+  timeoutMs: number,
+  onText: (chunk: string) => void,
+  progress: { received: boolean }
+): Promise<StreamResponse & { retryAfter: string | null }> {
+  const { method = 'GET', headers = {}, body, signal } = options;
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let delivered = 0;
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const onAbort = () => xhr.abort();
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        xhr.abort();
+      }, timeoutMs);
+    };
+    // Only successful bodies are streamed; error bodies are returned whole
+    const deliver = () => {
+      if (xhr.status < 200 || xhr.status >= 300) return;
+      const text = xhr.responseText || '';
+      if (text.length > delivered) {
+        const chunk = text.slice(delivered);
+        delivered = text.length;
+        progress.received = true;
+        try {
+          onText(chunk);
+        } catch (error) {
+          console.warn('Stream listener error:', error);
+        }
+      }
+    };
+
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.onprogress = () => {
+      restartTimer();
+      deliver();
+    };
+    xhr.onload = () => {
+      cleanup();
+      deliver();
+      resolve({
+        status: xhr.status,
+        ok: xhr.status >= 200 && xhr.status < 300,
+        text: xhr.responseText || '',
+        retryAfter: xhr.getResponseHeader('Retry-After'),
+      });
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new Error('Network request failed'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(signal?.aborted ? new RequestCancelledError() : timedOut ? new RequestTimeoutError(timeoutMs) : new Error('Request aborted'));
+    };
+
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+    restartTimer();
+    xhr.send(body ?? null);
+  });
+}
+
+/**
+ * Streaming request with timeout, retry and cancellation
+ * Uses XMLHttpRequest because fetch in React Native does not expose the body as it arrives.
+ * onText receives each new chunk of a successful response. Retries like fetchWithRetry, but
+ * only until the first chunk has been delivered; after that a failure is thrown so the
+ * caller never sees the same text twice.
+ * Returns the final response (which may be an error status once retries are exhausted).
+ */
+export async function streamWithRetry(
+  url: string,
+  options: StreamRequestOptions,
+  onText: (chunk: string) => void
+): Promise<StreamResponse> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
+    const progress = { received: false };
+    let retryDelay: number;
+    try {
+      const { retryAfter, ...response } = await streamAttempt(url, options, timeoutMs, onText, progress);
+      if (!isRetryableStatus(response.status) || attempt >= retries) {
+        return response;
+      }
+      retryDelay = parseRetryAfter(retryAfter) ?? getBackoffDelay(attempt);
+      console.warn(`Stream failed with ${response.status}, retrying in ${Math.round(retryDelay)}ms (attempt ${attempt + 1}/${retries})`);
+    } catch (error) {
+      if (error instanceof RequestCancelledError || signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      if (progress.received || attempt >= retries) {
+        throw error instanceof RequestTimeoutError ? error : new RequestNetworkError(error);
+      }
+      retryDelay = getBackoffDelay(attempt);
+      console.warn(`Stream failed, retrying in ${Math.round(retryDelay)}ms (attempt ${attempt + 1}/${retries}):`, error);
+    }
+
+    await sleep(retryDelay, signal);
+  }
+}
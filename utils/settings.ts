@@ -1,4 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ReceiptTemplate } from './receiptTemplate';
 
 const OCR_MODE_KEY = '@snap_receipt:ocr_mode';
 const SHOP_NAME_KEY = '@snap_receipt:shop_name';
@@ -14,10 +15,170 @@ const PRINT_COPIES_KEY = '@snap_receipt:print_copies';
 const PRINTER_TYPE_KEY = '@snap_receipt:printer_type';
 const CAMERA_ZOOM_KEY = '@snap_receipt:camera_zoom';
 const MULTI_PAGE_CAPTURE_KEY = '@snap_receipt:multi_page_capture';
+const OPENAI_COMPATIBLE_CONFIG_KEY = '@snap_receipt:openai_compatible_config';
+const EXTRACTION_MAX_ATTEMPTS_KEY = '@snap_receipt:extraction_max_attempts';
+const GENERATIVE_MODEL_CHAIN_KEY = '@snap_receipt:generative_model_chain';
+const PROMPT_PROFILE_KEY = '@snap_receipt:prompt_profile';
+const TAX_CONFIG_KEY = '@snap_receipt:tax_config';
+const IMAGE_QUALITY_CONFIG_KEY = '@snap_receipt:image_quality_config';
+const IMAGE_PREPROCESSING_CONFIG_KEY = '@snap_receipt:image_preprocessing_config';
+const DUPLICATE_DETECTION_CONFIG_KEY = '@snap_receipt:duplicate_detection_config';
+const STREAMING_EXTRACTION_KEY = '@snap_receipt:streaming_extraction';
+const NETWORK_PRINTER_CONFIG_KEY = '@snap_receipt:network_printer_config';
+const PRINTER_PROFILES_KEY = '@snap_receipt:printer_profiles';
+const CUSTOM_RECEIPT_TEMPLATES_KEY = '@snap_receipt:receipt_templates';
 
-export type OCRMode = 'vision' | 'generative';
-export type PrintTemplateId = 'classic' | 'compact' | 'kitchen';
-export type PrinterType = 'system' | 'pos';
+export type OCRMode = 'vision' | 'generative' | 'openai';
+export type PrintTemplateId = string; // Built-in 'classic', 'compact' or 'kitchen', or a custom template's id
+export type PrinterType = 'system' | 'pos' | 'network'; // pos: Epson SDK, network: raw ESC/POS over TCP
+export type EscPosCodePage = 'cp437' | 'cp850' | 'cp858' | 'cp1252';
+export type PrinterRole = 'kitchen' | 'counter';
+export type PaperWidth = 58 | 80; // Roll width in mm
+
+/**
+ * Connection settings for an OpenAI-compatible chat completions endpoint
+ */
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://192.168.1.10:11434/v1
+  model: string;
+  apiKey: string; // Optional for local servers
+}
+
+const DEFAULT_OPENAI_COMPATIBLE_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: process.env.EXPO_PUBLIC_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  model: process.env.EXPO_PUBLIC_OPENAI_MODEL || 'llama3.2-vision',
+  apiKey: process.env.EXPO_PUBLIC_OPENAI_API_KEY || '',
+};
+
+/**
+ * Which extraction prompt profile to use, plus optional shop-specific instructions
+ */
+export interface PromptProfileSettings {
+  profileId: string;
+  customInstructions: string;
+}
+
+const DEFAULT_PROMPT_PROFILE_SETTINGS: PromptProfileSettings = {
+  profileId: 'default',
+  customInstructions: '',
+};
+
+/**
+ * How tax is calculated and labelled on receipts
+ */
+export interface TaxConfig {
+  rate: number; // Percent, e.g. 10 for 10%
+  inclusive: boolean; // true: prices already include tax; false: tax is added on top
+  label: string; // e.g. GST, VAT, Sales Tax
+  taxFreeKeywords: string[]; // Items whose name contains one of these are tax-free (case-insensitive)
+}
+
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  rate: 10,
+  inclusive: true,
+  label: 'GST',
+  taxFreeKeywords: [],
+};
+
+/**
+ * Thresholds for the pre-extraction photo quality check (see utils/imageQuality)
+ */
+export interface ImageQualityConfig {
+  enabled: boolean; // false bypasses the check entirely
+  minSharpness: number; // Laplacian variance; lower is blurrier
+  minBrightness: number; // Mean luminance 0-255
+  maxBrightness: number;
+  minCoverage: number; // Share of the frame the receipt must fill, 0-1
+}
+
+export const DEFAULT_IMAGE_QUALITY_CONFIG: ImageQualityConfig = {
+  enabled: true,
+  minSharpness: 100,
+  minBrightness: 60,
+  maxBrightness: 240,
+  minCoverage: 0.25,
+};
+
+/**
+ * Steps of the pre-extraction image preprocessing pipeline (see utils/imagePreprocessing)
+ */
+export interface ImagePreprocessingConfig {
+  enabled: boolean; // false sends the photo as captured
+  crop: boolean; // Crop to the detected receipt edges
+  deskew: boolean; // Rotate so the receipt is upright
+  enhance: boolean; // Grayscale and contrast stretch
+}
+
+export const DEFAULT_IMAGE_PREPROCESSING_CONFIG: ImagePreprocessingConfig = {
+  enabled: false,
+  crop: true,
+  deskew: true,
+  enhance: true,
+};
+
+/**
+ * Duplicate receipt check before saving (see utils/duplicateDetection)
+ */
+export interface DuplicateDetectionConfig {
+  enabled: boolean;
+  windowMinutes: number; // Only receipts saved within this long are compared
+}
+
+export const DEFAULT_DUPLICATE_DETECTION_CONFIG: DuplicateDetectionConfig = {
+  enabled: true,
+  windowMinutes: 120,
+};
+
+/**
+ * Generic ESC/POS printer on the LAN, sent raw bytes over TCP (e.g. Xprinter)
+ */
+export interface NetworkPrinterConfig {
+  host: string; // IP address or hostname
+  port: number; // Raw printing port, usually 9100
+  codePage: EscPosCodePage; // Character table the printer is set to
+}
+
+export const DEFAULT_NETWORK_PRINTER_CONFIG: NetworkPrinterConfig = {
+  host: '',
+  port: 9100,
+  codePage: 'cp437',
+};
+
+/**
+ * A named printer with the tickets it prints
+ * When any profiles are set, an order prints once per profile: a kitchen ticket on the
+ * kitchen printer and a customer receipt at the counter, each with its own template.
+ */
+export interface PrinterProfile {
+  id: string;
+  name: string; // e.g. "Kitchen", "Front counter"
+  role: PrinterRole;
+  connection: 'epson' | 'network'; // Epson SDK (Bluetooth/LAN) or raw ESC/POS over TCP
+  target: string; // Epson target (e.g. BT:00:01:90:...) or network printer IP address
+  port: number; // Network printers only
+  codePage: EscPosCodePage; // Network printers only
+  paperWidth: PaperWidth;
+  template: PrintTemplateId;
+  copies: number; // 1-10
+}
+
+export const DEFAULT_PRINTER_PROFILE: Omit<PrinterProfile, 'id'> = {
+  name: '',
+  role: 'counter',
+  connection: 'epson',
+  target: '',
+  port: 9100,
+  codePage: 'cp437',
+  paperWidth: 80,
+  template: 'classic',
+  copies: 1,
+};
+
+// Cheap model first, stronger model when it fails or the totals don't match
+const DEFAULT_GENERATIVE_MODEL_CHAIN = Array.from(new Set([
+  process.env.EXPO_PUBLIC_MODEL_ID || 'gemini-1.5-flash',
+  'gemini-1.5-pro',
+]));
 
 /**
  * Get the current OCR mode preference
@@ -25,7 +186,8 @@ export type PrinterType = 'system' | 'pos';
 export async function getOCRMode(): Promise<OCRMode> {
   try {
     const mode = await AsyncStorage.getItem(OCR_MODE_KEY);
-    return (mode as OCRMode) || 'generative'; // Default to generative
+    if (mode === 'vision' || mode === 'generative' || mode === 'openai') return mode;
+    return 'generative'; // Default to generative
   } catch (error) {
     console.error('Error getting OCR mode:', error);
     return 'generative';
@@ -43,6 +205,338 @@ export async function setOCRMode(mode: OCRMode): Promise<void> {
   }
 }
 
+/**
+ * Get the OpenAI-compatible endpoint settings
+ */
+export async function getOpenAICompatibleConfig(): Promise<OpenAICompatibleConfig> {
+  try {
+    const value = await AsyncStorage.getItem(OPENAI_COMPATIBLE_CONFIG_KEY);
+    if (!value) return DEFAULT_OPENAI_COMPATIBLE_CONFIG;
+    return { ...DEFAULT_OPENAI_COMPATIBLE_CONFIG, ...JSON.parse(value) };
+  } catch (error) {
+    console.error('Error getting OpenAI-compatible config:', error);
+    return DEFAULT_OPENAI_COMPATIBLE_CONFIG;
+  }
+}
+
+/**
+ * Set the OpenAI-compatible endpoint settings
+ */
+export async function setOpenAICompatibleConfig(config: OpenAICompatibleConfig): Promise<void> {
+  try {
+    await AsyncStorage.setItem(OPENAI_COMPATIBLE_CONFIG_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Error setting OpenAI-compatible config:', error);
+  }
+}
+
+/**
+ * Get the maximum number of extraction attempts when item prices don't match the total
+ */
+export async function getExtractionMaxAttempts(): Promise<number> {
+  try {
+    const value = await AsyncStorage.getItem(EXTRACTION_MAX_ATTEMPTS_KEY);
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return isNaN(parsed) || parsed < 1 ? 3 : Math.min(5, parsed); // Default 3, max 5
+  } catch (error) {
+    console.error('Error getting extraction max attempts:', error);
+    return 3;
+  }
+}
+
+/**
+ * Set the maximum number of extraction attempts (1 disables re-prompting)
+ */
+export async function setExtractionMaxAttempts(attempts: number): Promise<void> {
+  try {
+    const clamped = Math.max(1, Math.min(5, attempts));
+    await AsyncStorage.setItem(EXTRACTION_MAX_ATTEMPTS_KEY, String(clamped));
+  } catch (error) {
+    console.error('Error setting extraction max attempts:', error);
+  }
+}
+
+/**
+ * Get the ordered list of Gemini models to try for generative extraction
+ */
+export async function getGenerativeModelChain(): Promise<string[]> {
+  try {
+    const value = await AsyncStorage.getItem(GENERATIVE_MODEL_CHAIN_KEY);
+    const chain = value ? JSON.parse(value) : null;
+    if (Array.isArray(chain) && chain.length > 0 && chain.every(model => typeof model === 'string')) {
+      return chain;
+    }
+    return DEFAULT_GENERATIVE_MODEL_CHAIN;
+  } catch (error) {
+    console.error('Error getting generative model chain:', error);
+    return DEFAULT_GENERATIVE_MODEL_CHAIN;
+  }
+}
+
+/**
+ * Set the ordered list of Gemini models (empty entries and duplicates are removed)
+ */
+export async function setGenerativeModelChain(models: string[]): Promise<void> {
+  try {
+    const chain = Array.from(new Set(models.map(model => model.trim()).filter(model => model !== '')));
+    if (chain.length === 0) {
+      await AsyncStorage.removeItem(GENERATIVE_MODEL_CHAIN_KEY);
+    } else {
+      await AsyncStorage.setItem(GENERATIVE_MODEL_CHAIN_KEY, JSON.stringify(chain));
+    }
+  } catch (error) {
+    console.error('Error setting generative model chain:', error);
+  }
+}
+
+/**
+ * Get the extraction prompt profile and custom instructions
+ */
+export async function getPromptProfileSettings(): Promise<PromptProfileSettings> {
+  try {
+    const value = await AsyncStorage.getItem(PROMPT_PROFILE_KEY);
+    if (value) {
+      return { ...DEFAULT_PROMPT_PROFILE_SETTINGS, ...JSON.parse(value) };
+    }
+    return DEFAULT_PROMPT_PROFILE_SETTINGS;
+  } catch (error) {
+    console.error('Error getting prompt profile settings:', error);
+    return DEFAULT_PROMPT_PROFILE_SETTINGS;
+  }
+}
+
+/**
+ * Set the extraction prompt profile and custom instructions
+ */
+export async function setPromptProfileSettings(settings: PromptProfileSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PROMPT_PROFILE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error setting prompt profile settings:', error);
+  }
+}
+
+/**
+ * Get the tax configuration (default: 10% GST inclusive)
+ */
+export async function getTaxConfig(): Promise<TaxConfig> {
+  try {
+    const value = await AsyncStorage.getItem(TAX_CONFIG_KEY);
+    if (value) {
+      const config = { ...DEFAULT_TAX_CONFIG, ...JSON.parse(value) };
+      return {
+        ...config,
+        rate: Math.max(0, Math.min(100, Number(config.rate) || 0)),
+        label: config.label || DEFAULT_TAX_CONFIG.label,
+        taxFreeKeywords: Array.isArray(config.taxFreeKeywords) ? config.taxFreeKeywords : [],
+      };
+    }
+    return DEFAULT_TAX_CONFIG;
+  } catch (error) {
+    console.error('Error getting tax config:', error);
+    return DEFAULT_TAX_CONFIG;
+  }
+}
+
+/**
+ * Set the tax configuration (rate is clamped to 0-100, empty keywords are removed)
+ */
+export async function setTaxConfig(config: TaxConfig): Promise<void> {
+  try {
+    await AsyncStorage.setItem(TAX_CONFIG_KEY, JSON.stringify({
+      rate: Math.max(0, Math.min(100, config.rate)),
+      inclusive: config.inclusive,
+      label: config.label.trim() || DEFAULT_TAX_CONFIG.label,
+      taxFreeKeywords: Array.from(new Set(config.taxFreeKeywords.map(keyword => keyword.trim()).filter(keyword => keyword !== ''))),
+    }));
+  } catch (error) {
+    console.error('Error setting tax config:', error);
+  }
+}
+
+/**
+ * Get the photo quality check configuration
+ */
+export async function getImageQualityConfig(): Promise<ImageQualityConfig> {
+  try {
+    const value = await AsyncStorage.getItem(IMAGE_QUALITY_CONFIG_KEY);
+    if (value) {
+      return { ...DEFAULT_IMAGE_QUALITY_CONFIG, ...JSON.parse(value) };
+    }
+    return DEFAULT_IMAGE_QUALITY_CONFIG;
+  } catch (error) {
+    console.error('Error getting image quality config:', error);
+    return DEFAULT_IMAGE_QUALITY_CONFIG;
+  }
+}
+
+/**
+ * Set the photo quality check configuration (values are clamped to their valid ranges)
+ */
+export async function setImageQualityConfig(config: ImageQualityConfig): Promise<void> {
+  try {
+    await AsyncStorage.setItem(IMAGE_QUALITY_CONFIG_KEY, JSON.stringify({
+      enabled: config.enabled,
+      minSharpness: Math.max(0, config.minSharpness),
+      minBrightness: Math.max(0, Math.min(255, config.minBrightness)),
+      maxBrightness: Math.max(0, Math.min(255, config.maxBrightness)),
+      minCoverage: Math.max(0, Math.min(1, config.minCoverage)),
+    }));
+  } catch (error) {
+    console.error('Error setting image quality config:', error);
+  }
+}
+
+/**
+ * Get the image preprocessing pipeline configuration
+ */
+export async function getImagePreprocessingConfig(): Promise<ImagePreprocessingConfig> {
+  try {
+    const value = await AsyncStorage.getItem(IMAGE_PREPROCESSING_CONFIG_KEY);
+    if (value) {
+      return { ...DEFAULT_IMAGE_PREPROCESSING_CONFIG, ...JSON.parse(value) };
+    }
+    return DEFAULT_IMAGE_PREPROCESSING_CONFIG;
+  } catch (error) {
+    console.error('Error getting image preprocessing config:', error);
+    return DEFAULT_IMAGE_PREPROCESSING_CONFIG;
+  }
+}
+
+/**
+ * Set the image preprocessing pipeline configuration
+ */
+export async function setImagePreprocessingConfig(config: ImagePreprocessingConfig): Promise<void> {
+  try {
+    await AsyncStorage.setItem(IMAGE_PREPROCESSING_CONFIG_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Error setting image preprocessing config:', error);
+  }
+}
+
+/**
+ * Get the duplicate receipt check configuration
+ */
+export async function getDuplicateDetectionConfig(): Promise<DuplicateDetectionConfig> {
+  try {
+    const value = await AsyncStorage.getItem(DUPLICATE_DETECTION_CONFIG_KEY);
+    if (value) {
+      return { ...DEFAULT_DUPLICATE_DETECTION_CONFIG, ...JSON.parse(value) };
+    }
+    return DEFAULT_DUPLICATE_DETECTION_CONFIG;
+  } catch (error) {
+    console.error('Error getting duplicate detection config:', error);
+    return DEFAULT_DUPLICATE_DETECTION_CONFIG;
+  }
+}
+
+/**
+ * Set the duplicate receipt check configuration
+ */
+export async function setDuplicateDetectionConfig(config: DuplicateDetectionConfig): Promise<void> {
+  try {
+    await AsyncStorage.setItem(DUPLICATE_DETECTION_CONFIG_KEY, JSON.stringify({
+      enabled: config.enabled,
+      windowMinutes: Math.max(1, Math.round(config.windowMinutes)),
+    }));
+  } catch (error) {
+    console.error('Error setting duplicate detection config:', error);
+  }
+}
+
+/**
+ * Get the streaming extraction setting (open the receipt while items are still arriving)
+ */
+export async function getStreamingExtraction(): Promise<boolean> {
+  try {
+    const value = await AsyncStorage.getItem(STREAMING_EXTRACTION_KEY);
+    return value === 'true'; // Default to false
+  } catch (error) {
+    console.error('Error getting streaming extraction setting:', error);
+    return false;
+  }
+}
+
+/**
+ * Set the streaming extraction setting
+ */
+export async function setStreamingExtraction(enabled: boolean): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STREAMING_EXTRACTION_KEY, enabled ? 'true' : 'false');
+  } catch (error) {
+    console.error('Error setting streaming extraction setting:', error);
+  }
+}
+
+/**
+ * Get the network (raw TCP) printer configuration
+ */
+export async function getNetworkPrinterConfig(): Promise<NetworkPrinterConfig> {
+  try {
+    const value = await AsyncStorage.getItem(NETWORK_PRINTER_CONFIG_KEY);
+    if (value) {
+      return { ...DEFAULT_NETWORK_PRINTER_CONFIG, ...JSON.parse(value) };
+    }
+    return DEFAULT_NETWORK_PRINTER_CONFIG;
+  } catch (error) {
+    console.error('Error getting network printer config:', error);
+    return DEFAULT_NETWORK_PRINTER_CONFIG;
+  }
+}
+
+/**
+ * Set the network (raw TCP) printer configuration
+ */
+export async function setNetworkPrinterConfig(config: NetworkPrinterConfig): Promise<void> {
+  try {
+    const port = Math.round(config.port);
+    await AsyncStorage.setItem(NETWORK_PRINTER_CONFIG_KEY, JSON.stringify({
+      host: config.host.trim(),
+      port: port > 0 && port <= 65535 ? port : DEFAULT_NETWORK_PRINTER_CONFIG.port,
+      codePage: config.codePage,
+    }));
+  } catch (error) {
+    console.error('Error setting network printer config:', error);
+  }
+}
+
+/**
+ * Get the saved printer profiles (empty when none are set up)
+ */
+export async function getPrinterProfiles(): Promise<PrinterProfile[]> {
+  try {
+    const value = await AsyncStorage.getItem(PRINTER_PROFILES_KEY);
+    if (value) {
+      const profiles: PrinterProfile[] = JSON.parse(value);
+      return profiles.map(profile => ({ ...DEFAULT_PRINTER_PROFILE, ...profile }));
+    }
+    return [];
+  } catch (error) {
+    console.error('Error getting printer profiles:', error);
+    return [];
+  }
+}
+
+/**
+ * Set the printer profiles
+ */
+export async function setPrinterProfiles(profiles: PrinterProfile[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PRINTER_PROFILES_KEY, JSON.stringify(profiles.map(profile => {
+      const port = Math.round(profile.port);
+      return {
+        ...profile,
+        name: profile.name.trim(),
+        target: profile.target.trim(),
+        port: port > 0 && port <= 65535 ? port : DEFAULT_PRINTER_PROFILE.port,
+        copies: Math.max(1, Math.min(10, Math.round(profile.copies) || 1)),
+      };
+    })));
+  } catch (error) {
+    console.error('Error setting printer profiles:', error);
+  }
+}
+
 /**
  * Get the Auto Printer setting
  */
@@ -122,8 +616,7 @@ export async function setPrintMargin(mm: number): Promise<void> {
 export async function getPrintTemplate(): Promise<PrintTemplateId> {
   try {
     const value = await AsyncStorage.getItem(PRINT_TEMPLATE_KEY);
-    if (value === 'compact' || value === 'kitchen' || value === 'classic') return value;
-    return 'classic';
+    return value || 'classic';
   } catch (error) {
     console.error('Error getting print template:', error);
     return 'classic';
@@ -141,6 +634,30 @@ export async function setPrintTemplate(id: PrintTemplateId): Promise<void> {
   }
 }
 
+/**
+ * Get the custom receipt templates (the built-in ones are not stored)
+ */
+export async function getCustomReceiptTemplates(): Promise<ReceiptTemplate[]> {
+  try {
+    const value = await AsyncStorage.getItem(CUSTOM_RECEIPT_TEMPLATES_KEY);
+    return value ? JSON.parse(value) : [];
+  } catch (error) {
+    console.error('Error getting receipt templates:', error);
+    return [];
+  }
+}
+
+/**
+ * Set the custom receipt templates
+ */
+export async function setCustomReceiptTemplates(templates: ReceiptTemplate[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(CUSTOM_RECEIPT_TEMPLATES_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error('Error setting receipt templates:', error);
+  }
+}
+
 /**
  * Get the Auto Save setting
  */
@@ -295,12 +812,12 @@ export async function setPrintCopies(copies: number): Promise<void> {
 }
 
 /**
- * Get the printer type preference (system or POS)
+ * Get the printer type preference (system, Epson POS or network ESC/POS)
  */
 export async function getPrinterType(): Promise<PrinterType> {
   try {
     const value = await AsyncStorage.getItem(PRINTER_TYPE_KEY);
-    if (value === 'system' || value === 'pos') {
+    if (value === 'system' || value === 'pos' || value === 'network') {
       return value as PrinterType;
     }
     return 'pos'; // Default to POS printer
@@ -0,0 +1,129 @@
+/**
+ * Streaming Extraction Sessions
+ *
+ * Lets the receipt screen open as soon as a photo is taken: the capture screen
+ * starts a session and navigates right away, and the receipt screen subscribes
+ * to it, showing items as they stream in and switching to the final result
+ * once extraction completes. Sessions live outside the screens so navigation
+ * does not interrupt the request; the receipt screen releases its session
+ * (cancelling it if still running) when it closes.
+ *
+ * The order number is only taken once extraction succeeds (or the capture is
+ * moved to the offline queue because the connection dropped), so a failed or
+ * cancelled stream does not use one up.
+ */
+
+import { extractTextFromImageWithMode, type ReceiptData, type ReceiptExtractionResult } from './ocr';
+import { enqueueOfflineCapture } from './offlineQueue';
+import { getNextOrderNumber } from './orderNumber';
+import { isNetworkError, isRequestCancelled } from './request';
+import type { OCRMode } from './settings';
+
+export type StreamingExtractionStatus = 'streaming' | 'done' | 'failed' | 'queued' | 'cancelled';
+
+export interface StreamingExtractionState {
+  status: StreamingExtractionStatus;
+  partial: ReceiptData | null; // Items read so far (display only: not validated or saved)
+  result?: ReceiptExtractionResult; // Set when done
+  orderNumber?: number; // Set when done or queued
+  error?: string; // Set when failed
+}
+
+type StreamingExtractionListener = (state: StreamingExtractionState) => void;
+
+interface StreamingSession {
+  state: StreamingExtractionState;
+  controller: AbortController;
+  listeners: Set<StreamingExtractionListener>;
+}
+
+const sessions = new Map<string, StreamingSession>();
+
+function updateSession(id: string, changes: Partial<StreamingExtractionState>): void {
+  const session = sessions.get(id);
+  if (!session) return;
+  session.state = { ...session.state, ...changes };
+  session.listeners.forEach(listener => listener(session.state));
+}
+
+/**
+ * Start extracting in the background and return the session id to pass to the receipt screen
+ */
+export function startStreamingExtraction(
+  images: { base64: string; uri?: string }[],
+  options: { mode: OCRMode; isMultiPage: boolean; isPaid: boolean; onOrderNumber?: (orderNumber: number) => void }
+): string {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const controller = new AbortController();
+  sessions.set(id, {
+    state: { status: 'streaming', partial: null },
+    controller,
+    listeners: new Set(),
+  });
+
+  const base64Images = images.map(image => image.base64);
+  extractTextFromImageWithMode(options.isMultiPage ? base64Images : base64Images[0], options.mode, options.isMultiPage, {
+    signal: controller.signal,
+    onPartialResult: partial => updateSession(id, { partial }),
+  })
+    .then(async result => {
+      const orderNumber = await getNextOrderNumber();
+      options.onOrderNumber?.(orderNumber);
+      updateSession(id, { status: 'done', result, orderNumber });
+    })
+    .catch(async (error: any) => {
+      if (isRequestCancelled(error)) {
+        updateSession(id, { status: 'cancelled' });
+        return;
+      }
+      console.error('Streaming extraction error:', error);
+      if (isNetworkError(error)) {
+        try {
+          const orderNumber = await getNextOrderNumber();
+          options.onOrderNumber?.(orderNumber);
+          await enqueueOfflineCapture(images, { orderNumber, isPaid: options.isPaid, isMultiPage: options.isMultiPage });
+          updateSession(id, { status: 'queued', orderNumber });
+          return;
+        } catch (queueError) {
+          console.error('Could not queue offline capture:', queueError);
+        }
+      }
+      updateSession(id, { status: 'failed', error: error?.message || 'Failed to process image' });
+    });
+
+  return id;
+}
+
+/**
+ * Current state of a session (undefined once released)
+ */
+export function getStreamingExtractionState(id: string): StreamingExtractionState | undefined {
+  return sessions.get(id)?.state;
+}
+
+/**
+ * Listen for session changes; returns the unsubscribe function
+ */
+export function subscribeToStreamingExtraction(id: string, listener: StreamingExtractionListener): () => void {
+  const session = sessions.get(id);
+  if (!session) return () => {};
+  session.listeners.add(listener);
+  return () => {
+    session.listeners.delete(listener);
+  };
+}
+
+/**
+ * Forget a session once no screen is listening, cancelling the extraction if it is still running
+ * Deferred a tick so a screen that re-subscribes straight away (remount) keeps its session
+ */
+export function releaseStreamingExtraction(id: string): void {
+  setTimeout(() => {
+    const session = sessions.get(id);
+    if (!session || session.listeners.size > 0) return;
+    if (session.state.status === 'streaming') {
+      session.controller.abort();
+    }
+    sessions.delete(id);
+  }, 0);
+}